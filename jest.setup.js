@@ -1,3 +1,7 @@
 // Learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom'
+import { TextDecoder, TextEncoder } from 'util'
 
+// jsdom has no TextEncoder/TextDecoder, which the encryption code shared with
+// the edge runtime uses; browsers, Node and the edge all have them
+Object.assign(globalThis, { TextDecoder, TextEncoder })
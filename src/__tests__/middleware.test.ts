@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { middleware } from '../middleware';
+
+const allowedOrigin = 'https://app.example.com';
+
+function request(path: string, init: { method?: string; headers?: Record<string, string> } = {}) {
+  return new NextRequest(`http://localhost${path}`, init);
+}
+
+describe('middleware', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, CORS_ALLOWED_ORIGINS: `${allowedOrigin}, https://admin.example.com` };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  describe('CORS', () => {
+    it('should answer preflights from allowed origins', () => {
+      const response = middleware(
+        request('/api/records', {
+          method: 'OPTIONS',
+          headers: { origin: allowedOrigin, 'access-control-request-method': 'PUT' },
+        })
+      );
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get('access-control-allow-origin')).toBe(allowedOrigin);
+      expect(response.headers.get('access-control-allow-credentials')).toBe('true');
+      expect(response.headers.get('access-control-allow-methods')).toContain('PUT');
+      expect(response.headers.get('vary')).toBe('Origin');
+    });
+
+    it('should refuse preflights from other origins', () => {
+      const response = middleware(
+        request('/api/records', {
+          method: 'OPTIONS',
+          headers: { origin: 'https://evil.example.com', 'access-control-request-method': 'POST' },
+        })
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('should echo allowed origins on API responses and vary on Origin', () => {
+      const allowed = middleware(request('/api/encrypted-data', { headers: { origin: allowedOrigin } }));
+      const other = middleware(request('/api/encrypted-data', { headers: { origin: 'https://evil.example.com' } }));
+
+      expect(allowed.headers.get('access-control-allow-origin')).toBe(allowedOrigin);
+      expect(allowed.headers.get('access-control-allow-methods')).toBeNull();
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+      expect(other.headers.get('vary')).toBe('Origin');
+    });
+
+    it('should omit credentials when disabled', () => {
+      process.env = { ...process.env, CORS_ALLOW_CREDENTIALS: 'false' };
+      const response = middleware(request('/api/records', { headers: { origin: allowedOrigin } }));
+
+      expect(response.headers.get('access-control-allow-origin')).toBe(allowedOrigin);
+      expect(response.headers.get('access-control-allow-credentials')).toBeNull();
+    });
+  });
+
+  describe('security headers', () => {
+    it('should mark encrypted API responses as no-store', () => {
+      expect(middleware(request('/api/encrypted-data')).headers.get('cache-control')).toBe('no-store');
+      expect(middleware(request('/api/records/1')).headers.get('cache-control')).toBe('no-store');
+    });
+
+    it('should send a CSP with a fresh nonce on pages', () => {
+      const first = middleware(request('/')).headers.get('content-security-policy');
+      const second = middleware(request('/')).headers.get('content-security-policy');
+
+      expect(first).toMatch(/script-src 'self' 'nonce-[A-Za-z0-9+/=]+' 'strict-dynamic'/);
+      expect(first).toContain("frame-ancestors 'none'");
+      expect(first).not.toBe(second);
+    });
+
+    it('should pass the nonce to the app through the request headers', () => {
+      const response = middleware(request('/login'));
+      const nonce = response.headers.get('x-middleware-request-x-nonce');
+
+      expect(nonce).toBeTruthy();
+      expect(response.headers.get('content-security-policy')).toContain(`'nonce-${nonce}'`);
+    });
+
+    it('should set the baseline headers and HSTS in production', () => {
+      process.env = { ...process.env, NODE_ENV: 'production' };
+      const response = middleware(request('/'));
+
+      expect(response.headers.get('referrer-policy')).toBe('strict-origin-when-cross-origin');
+      expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+      expect(response.headers.get('strict-transport-security')).toMatch(/^max-age=\d+; includeSubDomains$/);
+      expect(response.headers.get('content-security-policy')).toContain('upgrade-insecure-requests');
+    });
+
+    it('should leave out HSTS outside production', () => {
+      process.env = { ...process.env, NODE_ENV: 'test' };
+      expect(middleware(request('/')).headers.get('strict-transport-security')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { decrypt } from '@/lib/encryption';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { GET } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+
+function request(role: Role) {
+  const token = createSessionToken({ username: role, role }, keyringFromSecret(testKey));
+  return new Request('http://localhost/api/audit', { headers: { cookie: `${SESSION_COOKIE}=${token}` } });
+}
+
+async function decryptResponse(response: Response) {
+  const { encryptedData } = await response.json();
+  return JSON.parse(decrypt(encryptedData, testKey, { expect: { route: '/api/audit', audience: 'audit-api' } }));
+}
+
+describe('GET /api/audit', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    auditLog = createMemoryAuditLog(keyringFromSecret(testKey));
+    setAuditLog(auditLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setAuditLog(null);
+    setRateLimitStore(null);
+    setUserStore(null);
+  });
+
+  it('should return the entries and a verified chain to admins', async () => {
+    await auditLog.append({ actor: 'analyst', action: 'records.read', recordIds: ['1'], outcome: 'success' });
+    const { entries, verification } = await decryptResponse(await GET(request('admin')));
+
+    expect(entries).toHaveLength(1);
+    expect(verification).toEqual({ ok: true, entries: 1, headHash: entries[0].hash });
+  });
+
+  it('should report a tampered chain', async () => {
+    await auditLog.append({ actor: 'analyst', action: 'records.read', recordIds: ['1'], outcome: 'success' });
+    const [entry] = await auditLog.read();
+    setAuditLog({ ...auditLog, read: async () => [{ ...entry, recordIds: [] }] });
+
+    const { verification } = await decryptResponse(await GET(request('admin')));
+    expect(verification).toMatchObject({ ok: false, index: 0 });
+  });
+
+  it('should forbid other roles and audit the attempt', async () => {
+    const response = await GET(request('analyst'));
+
+    expect(response.status).toBe(403);
+    expect(await auditLog.read()).toMatchObject([{ actor: 'analyst', action: 'audit.read', outcome: 'denied' }]);
+  });
+});
@@ -0,0 +1,42 @@
+import { ApiError, encryptedJson, errorResponse, requireKeyring } from '@/lib/api';
+import { getAuditLog, recordAuditEvent, recordAuditFailure, verifyAuditChain } from '@/lib/audit';
+import { requireUser } from '@/lib/auth';
+import { AUDIT_API_AUDIENCE, AUDIT_API_ROUTE } from '@/lib/claims';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+
+// Returns the audit log and the result of verifying its hash chain and
+// recorded head, encrypted.
+// Admins only; reading the log is itself audited.
+// Payload (decrypted): { entries, verification }
+export async function GET(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'audit');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+
+    if (user.role !== 'admin') {
+      throw new ApiError(403, 'FORBIDDEN', 'Only admins may read the audit log');
+    }
+
+    // Head first: an append in between only adds entries past it
+    const log = getAuditLog();
+    const head = await log.head();
+    const entries = await log.read();
+    const verification = verifyAuditChain(entries, keyring, head);
+
+    await recordAuditEvent({ actor, action: 'audit.read', recordIds: [], outcome: 'success' });
+    return withRateLimitHeaders(await encryptedJson({ entries, verification }, keyring, {
+      route: AUDIT_API_ROUTE,
+      audience: AUDIT_API_AUDIENCE,
+    }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'audit.read', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to read audit log'), rateLimit);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/api';
+import { recordAuditEvent, recordAuditFailure } from '@/lib/audit';
+import { createSessionToken, getUserStore, loadSessionKeyring, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+
+// Signs a user in with { username, password } and sets the session cookie.
+// Attempts are audited under the username given.
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'login');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = loadSessionKeyring();
+    if (!keyring) {
+      throw new ApiError(500, 'KEY_NOT_CONFIGURED', 'Encryption key not configured');
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.username !== 'string' || typeof body.password !== 'string') {
+      throw new ApiError(400, 'INVALID_BODY', 'Expected a JSON body with username and password');
+    }
+    actor = body.username;
+
+    const user = await (await getUserStore()).verifyCredentials(body.username, body.password);
+    if (!user) {
+      throw new ApiError(401, 'UNAUTHENTICATED', 'Invalid username or password');
+    }
+
+    await recordAuditEvent({ actor, action: 'auth.login', recordIds: [], outcome: 'success' });
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(user, keyring), sessionCookieOptions());
+    return withRateLimitHeaders(response, rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'auth.login', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to sign in'), rateLimit);
+  }
+}
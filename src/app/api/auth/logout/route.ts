@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth';
+
+// Clears the session cookie
+export async function POST() {
+  const response = NextResponse.json({ signedOut: true });
+  response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0));
+  return response;
+}
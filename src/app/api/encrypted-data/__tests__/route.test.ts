@@ -0,0 +1,177 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { decrypt } from '@/lib/encryption';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { createMemoryRecordRepository, setRecordRepository, type RecordItem } from '@/lib/records';
+import { GET } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const fixtures: RecordItem[] = [
+  { id: 'f1', title: 'Fixture Record', type: 'Record', sensitivity: 'Private', date: '2024-03-01' },
+  { id: 'f2', title: 'Fixture Survey', type: 'Survey', sensitivity: 'Confidential', date: '2024-03-02' },
+  { id: 'f3', title: 'Fixture Report', type: 'Report', sensitivity: 'Private', date: '2024-03-03' },
+];
+
+function request(query = '', role: Role = 'admin') {
+  const token = createSessionToken({ username: role, role }, keyringFromSecret(testKey));
+  return new Request(`http://localhost/api/encrypted-data${query}`, {
+    headers: { cookie: `${SESSION_COOKIE}=${token}` },
+  });
+}
+
+async function decryptPage(response: Response) {
+  const { encryptedData } = await response.json();
+  return JSON.parse(decrypt(encryptedData, testKey));
+}
+
+describe('GET /api/encrypted-data', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setRecordRepository(createMemoryRecordRepository(fixtures));
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setRecordRepository(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+  });
+
+  it('should serve encrypted records from the configured repository', async () => {
+    const payload = await decryptPage(await GET(request()));
+
+    // Newest first by default
+    expect(payload.records).toEqual([...fixtures].reverse());
+    expect(payload.total).toBe(3);
+    expect(payload.nextCursor).toBeNull();
+  });
+
+  it('should filter, sort and paginate with query parameters', async () => {
+    const first = await decryptPage(await GET(request('?sensitivity=Private&sort=title&order=asc&limit=1')));
+
+    expect(first.records.map((record: RecordItem) => record.id)).toEqual(['f1']);
+    expect(first.total).toBe(2);
+
+    const second = await decryptPage(await GET(request(`?sensitivity=Private&sort=title&order=asc&limit=1&cursor=${first.nextCursor}`)));
+    expect(second.records.map((record: RecordItem) => record.id)).toEqual(['f3']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('should seal fields with tier keys when they are configured', async () => {
+    process.env = {
+      ...process.env,
+      PRIVATE_ENCRYPTION_KEY: 'private-tier',
+      CONFIDENTIAL_ENCRYPTION_KEY: 'confidential-tier',
+      HIGHLY_CONFIDENTIAL_ENCRYPTION_KEY: 'highly-confidential-tier',
+    };
+    const payload = await decryptPage(await GET(request()));
+
+    expect(payload.records[0].title).toBeUndefined();
+    expect(payload.records[0].sealed.title).toMatch(/^v3\./);
+  });
+
+  it('should require a session', async () => {
+    const response = await GET(new Request('http://localhost/api/encrypted-data'));
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'UNAUTHENTICATED' });
+  });
+
+  it('should redact records above the user\'s clearance', async () => {
+    const payload = await decryptPage(await GET(request('', 'viewer')));
+
+    expect(payload.total).toBe(3);
+    expect(payload.records.find((record: RecordItem) => record.id === 'f2')).toEqual({
+      id: 'f2',
+      title: '',
+      type: 'Survey',
+      sensitivity: 'Confidential',
+      date: '2024-03-02',
+      redacted: true,
+    });
+  });
+
+  it('should only search records within the user\'s clearance', async () => {
+    const payload = await decryptPage(await GET(request('?q=survey', 'viewer')));
+    expect(payload.total).toBe(0);
+  });
+
+  it('should omit records above the user\'s clearance when configured to', async () => {
+    process.env = { ...process.env, RECORDS_ABOVE_CLEARANCE: 'omit' };
+    const payload = await decryptPage(await GET(request('?sensitivity=Confidential', 'viewer')));
+
+    expect(payload.records).toEqual([]);
+    expect(payload.total).toBe(0);
+  });
+
+  it('should audit the records released to the user', async () => {
+    await GET(request('', 'viewer'));
+
+    expect(await auditLog.read()).toMatchObject([
+      { actor: 'viewer', action: 'records.list', recordIds: ['f3', 'f1'], outcome: 'success' },
+    ]);
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const response = await GET(request('?sort=secret&limit=1000'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'VALIDATION_FAILED' });
+  });
+
+  it('should refuse requests over the rate limit with 429 and Retry-After', async () => {
+    process.env = { ...process.env, RATE_LIMIT_ENCRYPTED_DATA: '2/60' };
+
+    const first = await GET(request());
+    expect(first.headers.get('RateLimit-Limit')).toBe('2');
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(first.headers.get('RateLimit-Policy')).toBe('2;w=60');
+    await GET(request());
+
+    const refused = await GET(request());
+    expect(refused.status).toBe(429);
+    expect(refused.headers.get('Retry-After')).toBe('30');
+    expect(refused.headers.get('RateLimit-Remaining')).toBe('0');
+    expect(await refused.json()).toMatchObject({ code: 'RATE_LIMITED' });
+    // Refusals are not audited, so a flood can't grow the log
+    expect(await auditLog.read()).toHaveLength(2);
+  });
+
+  it('should keep a bucket per signed-in user', async () => {
+    process.env = { ...process.env, RATE_LIMIT_ENCRYPTED_DATA: '1/60' };
+
+    expect((await GET(request('', 'viewer'))).status).toBe(200);
+    expect((await GET(request('', 'viewer'))).status).toBe(429);
+    expect((await GET(request('', 'analyst'))).status).toBe(200);
+  });
+
+  it('should not limit the route when its limit is off', async () => {
+    process.env = { ...process.env, RATE_LIMIT_ENCRYPTED_DATA: 'off' };
+    const response = await GET(request());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.has('RateLimit-Limit')).toBe(false);
+  });
+
+  it('should fail when no key is configured', async () => {
+    process.env = { ...originalEnv, ENCRYPTION_KEY: '' };
+    const response = await GET(request());
+
+    expect(response.status).toBe(500);
+  });
+});
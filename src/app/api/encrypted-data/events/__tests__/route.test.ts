@@ -0,0 +1,142 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { createMemoryRecordEventLog, setRecordEventLog, type RecordEventLog, type RecordItem } from '@/lib/records';
+import { decryptRecordUpdate } from '@/lib/records-service';
+import { createServerSentEventParser, type ServerSentEvent } from '@/lib/sse';
+import { GET } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const keyring = keyringFromSecret(testKey);
+const survey: RecordItem = { id: 's1', title: 'Staff Survey', type: 'Survey', sensitivity: 'Private', date: '2024-03-01' };
+const report: RecordItem = { id: 'r1', title: 'Board Report', type: 'Report', sensitivity: 'Highly Confidential', date: '2024-03-02' };
+
+function request(role: Role = 'viewer', lastEventId?: string) {
+  const token = createSessionToken({ username: role, role }, keyring);
+  return new Request('http://localhost/api/encrypted-data/events', {
+    headers: { cookie: `${SESSION_COOKIE}=${token}`, ...(lastEventId && { 'Last-Event-ID': lastEventId }) },
+  });
+}
+
+function events(body: ReadableStream<Uint8Array>) {
+  return body.pipeThrough(createServerSentEventParser()).getReader();
+}
+
+async function next(reader: ReadableStreamDefaultReader<ServerSentEvent>): Promise<ServerSentEvent> {
+  const { value, done } = await reader.read();
+  if (done) {
+    throw new Error('Stream ended');
+  }
+  return value;
+}
+
+describe('GET /api/encrypted-data/events', () => {
+  const originalEnv = process.env;
+  const viewer = { username: 'viewer', role: 'viewer' as const };
+  let auditLog: AuditLog;
+  let eventLog: RecordEventLog;
+  let reader: ReadableStreamDefaultReader<ServerSentEvent> | undefined;
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    eventLog = createMemoryRecordEventLog();
+    setRecordEventLog(eventLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(async () => {
+    await reader?.cancel();
+    reader = undefined;
+    process.env = originalEnv;
+    setRecordEventLog(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+  });
+
+  it('should push each change as an encrypted event', async () => {
+    const response = await GET(request());
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+    reader = events(response.body!);
+
+    const published = eventLog.publish({ type: 'created', record: survey });
+    const event = await next(reader);
+
+    expect(event).toMatchObject({ id: published.id, event: 'change' });
+    expect(event.data).not.toContain('Staff Survey');
+    await expect(decryptRecordUpdate(event.id, event.data, viewer, keyring)).resolves.toEqual({
+      id: published.id,
+      timestamp: published.timestamp,
+      update: { type: 'created', record: survey },
+    });
+  });
+
+  it('should redact records above clearance and audit what was sent', async () => {
+    reader = events((await GET(request())).body!);
+
+    eventLog.publish({ type: 'created', record: report });
+    eventLog.publish({ type: 'deleted', record: survey });
+    const created = await next(reader);
+    const deleted = await next(reader);
+
+    expect((await decryptRecordUpdate(created.id, created.data, viewer, keyring)).update).toEqual({
+      type: 'created',
+      record: { id: 'r1', title: '', type: 'Report', sensitivity: 'Highly Confidential', date: '2024-03-02', redacted: true },
+    });
+    expect((await decryptRecordUpdate(deleted.id, deleted.data, viewer, keyring)).update).toEqual({ type: 'deleted', id: 's1' });
+    expect((await auditLog.read()).filter(entry => entry.action === 'records.watch')).toMatchObject([
+      { actor: 'viewer', recordIds: [], outcome: 'success' },
+      { actor: 'viewer', recordIds: ['s1'], outcome: 'success' },
+    ]);
+  });
+
+  it('should treat a record moved above clearance as deleted when such records are omitted', async () => {
+    process.env.RECORDS_ABOVE_CLEARANCE = 'omit';
+    reader = events((await GET(request())).body!);
+
+    eventLog.publish({ type: 'created', record: report });
+    eventLog.publish({ type: 'updated', record: { ...survey, sensitivity: 'Confidential' }, previous: survey });
+    const event = await next(reader);
+
+    expect((await decryptRecordUpdate(event.id, event.data, viewer, keyring)).update).toEqual({ type: 'deleted', id: 's1' });
+  });
+
+  it('should replay changes after Last-Event-ID', async () => {
+    const seen = eventLog.publish({ type: 'created', record: survey });
+    const missed = eventLog.publish({ type: 'deleted', record: survey });
+    reader = events((await GET(request('viewer', seen.id))).body!);
+
+    expect(await next(reader)).toMatchObject({ id: missed.id, event: 'change' });
+  });
+
+  it('should send a reset when missed changes are gone', async () => {
+    reader = events((await GET(request('viewer', 'unknown-1'))).body!);
+
+    expect(await next(reader)).toEqual({ event: 'reset', data: 'Missed updates are no longer available' });
+  });
+
+  it('should not accept an event under another ID', async () => {
+    reader = events((await GET(request())).body!);
+    eventLog.publish({ type: 'created', record: survey });
+    const event = await next(reader);
+
+    await expect(decryptRecordUpdate('other-1', event.data, viewer, keyring)).rejects.toMatchObject({ code: 'SCHEMA_INVALID' });
+  });
+
+  it('should require a session', async () => {
+    const response = await GET(new Request('http://localhost/api/encrypted-data/events'));
+
+    expect(response.status).toBe(401);
+    expect(await auditLog.read()).toMatchObject([{ action: 'records.watch', outcome: 'denied' }]);
+  });
+});
@@ -0,0 +1,32 @@
+import { errorResponse, requireKeyring } from '@/lib/api';
+import { recordAuditFailure } from '@/lib/audit';
+import { requireUser } from '@/lib/auth';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { streamEncryptedRecordEvents } from '@/lib/records-service';
+import { SSE_HEADERS } from '@/lib/sse';
+
+// Live updates feed: a Server-Sent Events stream of record changes the user
+// may learn of, one encrypted `change` event per create, update or delete
+// (a RecordUpdateEvent, bound to this route and the viewer). Send the
+// Last-Event-ID header to catch up after a disconnect; a `reset` event means
+// the missed changes are gone and the consumer should reload. Each change is
+// audited as records.watch. Decrypt with decryptRecordUpdate.
+export async function GET(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'encrypted-events');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+
+    const body = streamEncryptedRecordEvents(user, keyring, request.headers.get('Last-Event-ID'));
+    return withRateLimitHeaders(new Response(body, { headers: SSE_HEADERS }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.watch', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to open live updates'), rateLimit);
+  }
+}
@@ -1,44 +1,40 @@
 import { NextResponse } from 'next/server';
-import { encrypt } from '@/lib/encryption';
+import { ApiError, errorResponse, requireKeyring } from '@/lib/api';
+import { recordAuditFailure } from '@/lib/audit';
+import { requireUser } from '@/lib/auth';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { parseRecordQuery } from '@/lib/records';
+import { loadEncryptedRecordPage } from '@/lib/records-service';
 
-// API route that returns encrypted sensitive data
-export async function GET() {
-  const encryptionKey = process.env.ENCRYPTION_KEY;
-  
-  if (!encryptionKey) {
-    return NextResponse.json(
-      { error: 'Encryption key not configured' },
-      { status: 500 }
-    );
+// API route that returns one encrypted page of records
+// Query: q, type, sensitivity, from, to, sort, order, cursor, limit
+// Payload (decrypted): { timestamp, records, total, nextCursor }
+// Requires a session; records above the user's clearance are redacted or
+// omitted per RECORDS_ABOVE_CLEARANCE. Every call is recorded in the audit log.
+// page.tsx uses the same service in-process; this route serves remote callers.
+// Limited per user by RATE_LIMIT_ENCRYPTED_DATA, since each call runs the KDF.
+export async function GET(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'encrypted-data');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
   }
 
-  // Sample sensitive data - in production this would come from a database
-  const sensitiveData = {
-    timestamp: new Date().toISOString(),
-    records: [
-      { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' },
-      { id: '2', title: 'Patient Survey #002', type: 'Survey', sensitivity: 'Private', date: '2024-01-16' },
-      { id: '3', title: 'Medical Record #101', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-17' },
-      { id: '4', title: 'Patient Survey #003', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-18' },
-      { id: '5', title: 'Medical Record #102', type: 'Record', sensitivity: 'Confidential', date: '2024-01-19' },
-      { id: '6', title: 'Patient Survey #004', type: 'Survey', sensitivity: 'Private', date: '2024-01-20' },
-      { id: '7', title: 'Medical Record #103', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-21' },
-      { id: '8', title: 'Patient Survey #005', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-22' },
-    ]
-  };
-
+  let actor: string | null = null;
   try {
-    // Encrypt the data before sending to client
-    // Format: base64(iv:tag:encryptedData)
-    const encryptedPayload = encrypt(JSON.stringify(sensitiveData), encryptionKey);
-    
-    return NextResponse.json({ encryptedData: encryptedPayload });
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const query = parseRecordQuery(new URL(request.url).searchParams);
+
+    if (!query.ok) {
+      throw new ApiError(400, 'VALIDATION_FAILED', 'Invalid query', query.errors);
+    }
+
+    // Format: v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>
+    const encryptedData = await loadEncryptedRecordPage(query.value, user, keyring);
+    return withRateLimitHeaders(NextResponse.json({ encryptedData }), rateLimit);
   } catch (error) {
-    console.error('Encryption error:', error);
-    return NextResponse.json(
-      { error: 'Failed to encrypt data' },
-      { status: 500 }
-    );
+    await recordAuditFailure({ actor, action: 'records.list', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to load or encrypt data'), rateLimit);
   }
 }
-
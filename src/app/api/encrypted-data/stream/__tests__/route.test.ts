@@ -0,0 +1,121 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { createMemoryRecordRepository, setRecordRepository, type RecordItem, type RecordView } from '@/lib/records';
+import { decryptRecordStream } from '@/lib/records-service';
+import { GET } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const keyring = keyringFromSecret(testKey);
+
+// More than one page of the store, so the stream has to walk it
+const fixtures: RecordItem[] = Array.from({ length: 150 }, (_, i) => ({
+  id: `r${String(i).padStart(3, '0')}`,
+  title: `Record ${i}`,
+  type: i % 2 ? 'Survey' : 'Report',
+  sensitivity: i % 3 ? 'Private' : 'Confidential',
+  date: '2024-03-01',
+}));
+
+function request(query = '', role: Role = 'admin') {
+  const token = createSessionToken({ username: role, role }, keyring);
+  return new Request(`http://localhost/api/encrypted-data/stream${query}`, {
+    headers: { cookie: `${SESSION_COOKIE}=${token}` },
+  });
+}
+
+async function readAll(body: ReadableStream<Uint8Array>, role: Role = 'admin'): Promise<RecordView[]> {
+  const records: RecordView[] = [];
+  for await (const record of decryptRecordStream(body, { username: role, role }, keyring)) {
+    records.push(record);
+  }
+  return records;
+}
+
+// Drops the final chunk line, as a connection cut short would
+async function truncate(body: ReadableStream<Uint8Array>): Promise<ReadableStream<Uint8Array>> {
+  const text = await new Response(body).text();
+  const lines = text.trimEnd().split('\n');
+  return new Response(`${lines.slice(0, -1).join('\n')}\n`).body!;
+}
+
+describe('GET /api/encrypted-data/stream', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setRecordRepository(createMemoryRecordRepository(fixtures));
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setRecordRepository(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+  });
+
+  it('should stream every matching record, not just one page', async () => {
+    const response = await GET(request('?sort=title&order=asc'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/x-encrypted-stream');
+    const records = await readAll(response.body!);
+    expect(records).toHaveLength(150);
+    expect(records[0]).toEqual(fixtures[0]);
+  });
+
+  it('should apply filters and clearance', async () => {
+    const records = await readAll((await GET(request('?type=Survey', 'viewer'))).body!, 'viewer');
+
+    expect(records).toHaveLength(75);
+    expect(records.filter(record => record.redacted)).toHaveLength(25);
+  });
+
+  it('should audit each page as it is released and each batch as it is decrypted', async () => {
+    await readAll((await GET(request())).body!);
+    const entries = await auditLog.read();
+
+    const streamed = entries.filter(entry => entry.action === 'records.stream');
+    expect(streamed.map(entry => entry.recordIds.length)).toEqual([100, 50]);
+    const decrypted = entries.filter(entry => entry.action === 'records.decrypt');
+    expect(decrypted.flatMap(entry => entry.recordIds)).toHaveLength(150);
+  });
+
+  it('should make a cut-off stream fail rather than end early', async () => {
+    const body = await truncate((await GET(request())).body!);
+
+    await expect(readAll(body)).rejects.toMatchObject({ code: 'STREAM_TRUNCATED' });
+  });
+
+  it('should not accept the stream twice', async () => {
+    const text = await new Response((await GET(request('?type=Report'))).body).text();
+    await readAll(new Response(text).body!);
+
+    await expect(readAll(new Response(text).body!)).rejects.toMatchObject({ code: 'PAYLOAD_REPLAYED' });
+  });
+
+  it('should require a session', async () => {
+    const response = await GET(new Request('http://localhost/api/encrypted-data/stream'));
+
+    expect(response.status).toBe(401);
+    expect(await auditLog.read()).toMatchObject([{ action: 'records.stream', outcome: 'denied' }]);
+  });
+
+  it('should reject invalid query parameters', async () => {
+    const response = await GET(request('?sort=secret'));
+    expect(response.status).toBe(400);
+  });
+});
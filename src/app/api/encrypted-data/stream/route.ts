@@ -0,0 +1,39 @@
+import { ApiError, errorResponse, requireKeyring } from '@/lib/api';
+import { recordAuditFailure } from '@/lib/audit';
+import { requireUser } from '@/lib/auth';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { parseRecordQuery } from '@/lib/records';
+import { streamEncryptedRecords } from '@/lib/records-service';
+import { STREAM_CONTENT_TYPE } from '@/lib/stream-encryption';
+
+// Streaming variant of /api/encrypted-data for large exports: every matching
+// record rather than one page, as a chunked encrypted stream (see
+// stream-encryption.ts) of one JSON record per line.
+// Query: q, type, sensitivity, from, to, sort, order, cursor (limit is ignored)
+// Clearance and sealing are as for /api/encrypted-data; each page read from
+// the store is audited as records.stream. Decrypt with decryptRecordStream,
+// as /api/export does in remote mode.
+export async function GET(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'encrypted-stream');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const query = parseRecordQuery(new URL(request.url).searchParams);
+
+    if (!query.ok) {
+      throw new ApiError(400, 'VALIDATION_FAILED', 'Invalid query', query.errors);
+    }
+
+    const body = streamEncryptedRecords(query.value, user, keyring);
+    return withRateLimitHeaders(new Response(body, { headers: { 'Content-Type': STREAM_CONTENT_TYPE } }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.stream', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to stream encrypted data'), rateLimit);
+  }
+}
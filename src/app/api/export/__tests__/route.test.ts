@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { decryptExport } from '@/lib/export';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { createMemoryRecordRepository, setRecordRepository, type RecordItem } from '@/lib/records';
+import { POST } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const keyring = keyringFromSecret(testKey);
+const passphrase = 'correct horse battery staple';
+
+const fixtures: RecordItem[] = [
+  { id: 'e1', title: 'Survey, "quoted"', type: 'Survey', sensitivity: 'Private', date: '2024-03-01' },
+  { id: 'e2', title: '=HYPERLINK("x")', type: 'Report', sensitivity: 'Private', date: '2024-03-02' },
+  { id: 'e3', title: 'Board minutes', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-03-03' },
+  { id: 'e4', title: 'Salary review', type: 'Survey', sensitivity: 'Confidential', date: '2024-03-04' },
+];
+
+function request(body: unknown, query = '', role: Role = 'viewer') {
+  const token = createSessionToken({ username: role, role }, keyring);
+  return new Request(`http://localhost/api/export${query}`, {
+    method: 'POST',
+    headers: { cookie: `${SESSION_COOKIE}=${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('POST /api/export', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setRecordRepository(createMemoryRecordRepository(fixtures));
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setRecordRepository(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+  });
+
+  it('should export cleared records as CSV attachments', async () => {
+    const response = await POST(request({ format: 'csv' }, '?sort=date&order=asc'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="records-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(await response.text()).toBe(
+      'id,title,type,sensitivity,date\r\n' +
+      'e1,"Survey, ""quoted""",Survey,Private,2024-03-01\r\n' +
+      'e2,"\'=HYPERLINK(""x"")",Report,Private,2024-03-02\r\n'
+    );
+  });
+
+  it('should apply the viewer filters to JSON exports', async () => {
+    const response = await POST(request({ format: 'json' }, '?type=Report&limit=1', 'admin'));
+    const body = await response.json();
+
+    expect(body.query).toBe('type=Report');
+    expect(body.records).toEqual([fixtures[1]]);
+  });
+
+  it('should produce encrypted exports that only the passphrase opens', async () => {
+    const response = await POST(request({ format: 'encrypted', passphrase }, '', 'admin'));
+    const envelope = await response.text();
+
+    expect(response.headers.get('Content-Disposition')).toMatch(/\.json\.enc"$/);
+    expect(envelope).toMatch(/^v3\.default\.A256GCM\./);
+    expect(envelope).not.toContain('Board minutes');
+    expect(decryptExport(envelope, passphrase).records).toHaveLength(4);
+    expect(() => decryptExport(envelope, 'the wrong passphrase')).toThrow('Unable to authenticate');
+  });
+
+  it('should empty masked fields in plaintext exports', async () => {
+    const response = await POST(request({ format: 'json' }, '?sensitivity=Confidential', 'analyst'));
+    const body = await response.json();
+
+    expect(body.records).toEqual([{ ...fixtures[3], title: '', maskedFields: ['title'] }]);
+    expect(JSON.stringify(body)).not.toContain('Salary review');
+  });
+
+  it('should only export records of encrypted-only levels encrypted', async () => {
+    for (const format of ['csv', 'json']) {
+      const response = await POST(request({ format }, '', 'admin'));
+      expect(response.status).toBe(422);
+      expect((await response.json()).details).toEqual([
+        'Highly Confidential records can only be exported encrypted; choose the encrypted format or filter them out',
+      ]);
+    }
+
+    const filtered = await POST(request({ format: 'csv' }, '?sensitivity=Private,Confidential', 'admin'));
+    expect(filtered.status).toBe(200);
+    expect(await filtered.text()).not.toContain('Board minutes');
+  });
+
+  it('should reject unknown formats and short passphrases', async () => {
+    expect((await POST(request({ format: 'xlsx' }))).status).toBe(400);
+
+    const response = await POST(request({ format: 'encrypted', passphrase: 'short' }));
+    expect(response.status).toBe(422);
+    expect((await response.json()).details).toEqual(['passphrase must be at least 12 characters']);
+  });
+
+  it('should audit each export with its records and format', async () => {
+    await POST(request({ format: 'csv' }));
+    await POST(request({ format: 'json' }, '?from=2024-03-05'));
+    await POST(request({ format: 'pdf' }));
+
+    expect(await auditLog.read()).toMatchObject([
+      { actor: 'viewer', action: 'records.export', recordIds: ['e2', 'e1'], outcome: 'success', detail: 'csv' },
+      { actor: 'viewer', action: 'records.export', recordIds: [], outcome: 'success', detail: 'json' },
+      { actor: 'viewer', action: 'records.export', recordIds: [], outcome: 'error', detail: 'INVALID_BODY' },
+    ]);
+  });
+
+  it('should require a session', async () => {
+    const response = await POST(new Request('http://localhost/api/export', { method: 'POST', body: '{"format":"csv"}' }));
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,78 @@
+import { ApiError, errorResponse } from '@/lib/api';
+import { recordAuditEvent, recordAuditFailure } from '@/lib/audit';
+import { readCookie, requireUser, SESSION_COOKIE } from '@/lib/auth';
+import {
+  buildExportFile,
+  encryptedOnlyLevels,
+  EXPORT_FORMATS,
+  isExportFormat,
+  MIN_EXPORT_PASSPHRASE_LENGTH,
+} from '@/lib/export';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { parseRecordQuery } from '@/lib/records';
+import { getExportRecords } from '@/lib/records-service';
+
+// Downloads every record matching the viewer's filters that the user is
+// cleared for, as a file attachment. With RECORDS_API_URL set, the records
+// come from that API's /api/encrypted-data/stream.
+// Query: q, type, sensitivity, from, to, sort, order (cursor and limit are ignored)
+// Body: { "format": "csv" | "json" | "encrypted", "passphrase"?: string }
+// The passphrase is only needed for encrypted exports and is sent in the body
+// so it never appears in URLs or logs. CSV and JSON exports have masked fields
+// emptied, and are refused (422) when they would hold records of a level that
+// may only be exported encrypted. Each export is audited as records.export
+// with the IDs exported and the format.
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'export');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const user = await requireUser(request);
+    actor = user.username;
+    const token = readCookie(request.headers.get('cookie'), SESSION_COOKIE)!;
+    const query = parseRecordQuery(new URL(request.url).searchParams);
+    if (!query.ok) {
+      throw new ApiError(400, 'VALIDATION_FAILED', 'Invalid query', query.errors);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isExportFormat(body?.format)) {
+      throw new ApiError(400, 'INVALID_BODY', `Expected a JSON body with format ${EXPORT_FORMATS.join(', ')}`);
+    }
+    const passphrase = typeof body.passphrase === 'string' ? body.passphrase : undefined;
+    if (body.format === 'encrypted' && [...(passphrase ?? '')].length < MIN_EXPORT_PASSPHRASE_LENGTH) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Invalid passphrase', [
+        `passphrase must be at least ${MIN_EXPORT_PASSPHRASE_LENGTH} characters`,
+      ]);
+    }
+
+    const records = await getExportRecords(query.value, { user, token });
+    const encryptedOnly = body.format === 'encrypted' ? [] : encryptedOnlyLevels(records);
+    if (encryptedOnly.length > 0) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Encrypted export required', [
+        `${encryptedOnly.join(', ')} records can only be exported encrypted; choose the encrypted format or filter them out`,
+      ]);
+    }
+    const file = buildExportFile(records, query.value, body.format, { passphrase });
+
+    await recordAuditEvent({
+      actor,
+      action: 'records.export',
+      recordIds: records.map(record => record.id),
+      outcome: 'success',
+      detail: body.format,
+    });
+    return withRateLimitHeaders(new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.export', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to export records'), rateLimit);
+  }
+}
@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { ApiError, encryptedJson, errorResponse, readEncryptedJson, requireKeyring } from '@/lib/api';
+import { recordAuditEvent, recordAuditFailure } from '@/lib/audit';
+import { requireClearance, requireUser, type User } from '@/lib/auth';
+import { RECORDS_API_AUDIENCE, RECORDS_API_REQUEST_AUDIENCE, RECORDS_API_ROUTE } from '@/lib/claims';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getRecordEventLog, getRecordRepository, validateRecordItem, type RecordItem } from '@/lib/records';
+import { loadEncryptedRecord } from '@/lib/records-service';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const responseBinding = { route: RECORDS_API_ROUTE, audience: RECORDS_API_AUDIENCE };
+const requestBinding = { route: RECORDS_API_ROUTE, audience: RECORDS_API_REQUEST_AUDIENCE };
+
+function notFound(id: string): ApiError {
+  return new ApiError(404, 'NOT_FOUND', `Record "${id}" not found`);
+}
+
+// Loads a record the user is cleared for
+async function getClearedRecord(id: string, user: User): Promise<RecordItem> {
+  const record = await getRecordRepository().get(id);
+  if (!record) {
+    throw notFound(id);
+  }
+  requireClearance(user, record.sensitivity);
+  return record;
+}
+
+// Returns a single record, encrypted; shared with the /records/[id] page
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const rateLimit = await checkRateLimit(request, 'records');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const encryptedData = await loadEncryptedRecord(id, user, keyring);
+    return withRateLimitHeaders(NextResponse.json({ encryptedData }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.read', recordIds: [id] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to load record'), rateLimit);
+  }
+}
+
+// Replaces a record with an encrypted RecordItem body; the body's id may be
+// omitted but must match the URL when present. The user must be cleared for
+// both the current and the new sensitivity.
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const rateLimit = await checkRateLimit(request, 'records');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const body = await readEncryptedJson(request, keyring, requestBinding);
+
+    if (typeof body === 'object' && body !== null && 'id' in body && body.id !== id) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Invalid record', ['id must match the URL']);
+    }
+
+    const result = validateRecordItem({ ...(body as object), id });
+    if (!result.ok) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Invalid record', result.errors);
+    }
+    const previous = await getClearedRecord(id, user);
+    requireClearance(user, result.value.sensitivity);
+
+    const record = await getRecordRepository().update(result.value);
+    if (!record) {
+      throw notFound(id);
+    }
+
+    await recordAuditEvent({ actor, action: 'records.update', recordIds: [id], outcome: 'success' });
+    getRecordEventLog().publish({ type: 'updated', record, previous });
+    return withRateLimitHeaders(await encryptedJson({ record }, keyring, responseBinding), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.update', recordIds: [id] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to update record'), rateLimit);
+  }
+}
+
+// Deletes a record and returns its ID, encrypted
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const rateLimit = await checkRateLimit(request, 'records');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const record = await getClearedRecord(id, user);
+
+    if (!(await getRecordRepository().delete(id))) {
+      throw notFound(id);
+    }
+
+    await recordAuditEvent({ actor, action: 'records.delete', recordIds: [id], outcome: 'success' });
+    getRecordEventLog().publish({ type: 'deleted', record });
+    return withRateLimitHeaders(await encryptedJson({ id, deleted: true }, keyring, responseBinding), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.delete', recordIds: [id] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to delete record'), rateLimit);
+  }
+}
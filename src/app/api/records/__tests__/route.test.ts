@@ -0,0 +1,293 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type User } from '@/lib/auth';
+import { issueClaims, type PayloadClaims } from '@/lib/claims';
+import { decrypt, encrypt } from '@/lib/encryption';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import {
+  createMemoryRecordEventLog,
+  createMemoryRecordRepository,
+  setRecordEventLog,
+  setRecordRepository,
+  type RecordChangeEvent,
+  type RecordItem,
+} from '@/lib/records';
+import { POST } from '../route';
+import { DELETE, GET, PUT } from '../[id]/route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const existing: RecordItem = { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' };
+const created: RecordItem = { id: '9', title: 'Medical Record #109', type: 'Record', sensitivity: 'Private', date: '2024-02-01' };
+
+const users: Record<string, User> = {
+  analyst: { username: 'analyst', role: 'analyst' },
+  viewer: { username: 'viewer', role: 'viewer' },
+};
+
+function sessionHeaders(username = 'analyst'): HeadersInit {
+  return { cookie: `${SESSION_COOKIE}=${createSessionToken(users[username], keyringFromSecret(testKey))}` };
+}
+
+function authedRequest(username?: string): Request {
+  return new Request('http://localhost', { headers: sessionHeaders(username) });
+}
+
+function requestClaims(): PayloadClaims {
+  return issueClaims({ route: '/api/records', audience: 'records-api-request', ttlSeconds: 60 });
+}
+
+function sealedRequest(method: string, encryptedData: string, username?: string): Request {
+  return new Request('http://localhost/api/records', {
+    method,
+    headers: sessionHeaders(username),
+    body: JSON.stringify({ encryptedData }),
+  });
+}
+
+function encryptedRequest(method: string, body: unknown, username?: string): Request {
+  return sealedRequest(method, encrypt(JSON.stringify(body), testKey, { claims: requestClaims() }), username);
+}
+
+function context(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+async function decryptResponse(response: Response) {
+  const { encryptedData } = await response.json();
+  return JSON.parse(decrypt(encryptedData, testKey, { expect: { route: '/api/records', audience: 'records-api' } }));
+}
+
+describe('/api/records', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+  let changes: RecordChangeEvent[];
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    const eventLog = createMemoryRecordEventLog();
+    changes = [];
+    eventLog.subscribe(event => changes.push(event));
+    setRecordEventLog(eventLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setRecordRepository(createMemoryRecordRepository([existing]));
+    setUserStore({ verifyCredentials: async () => null, get: async username => users[username] ?? null });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setRecordRepository(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+    setRecordEventLog(null);
+  });
+
+  describe('POST', () => {
+    it('should create a record and return it encrypted', async () => {
+      const response = await POST(encryptedRequest('POST', created));
+
+      expect(response.status).toBe(201);
+      expect(await decryptResponse(response)).toEqual({ record: created });
+    });
+
+    it('should reject duplicate IDs', async () => {
+      const response = await POST(encryptedRequest('POST', existing));
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toMatchObject({ code: 'CONFLICT' });
+    });
+
+    it('should reject invalid records with details', async () => {
+      const response = await POST(encryptedRequest('POST', { ...created, sensitivity: 'Public' }));
+
+      expect(response.status).toBe(422);
+      expect(await response.json()).toEqual({
+        error: 'Invalid record',
+        code: 'VALIDATION_FAILED',
+        details: ['sensitivity must be one of Private, Confidential, Highly Confidential'],
+      });
+    });
+
+    it('should reject bodies that are not encrypted with our key', async () => {
+      const request = new Request('http://localhost/api/records', {
+        method: 'POST',
+        headers: sessionHeaders(),
+        body: JSON.stringify({ encryptedData: encrypt(JSON.stringify(created), 'other-key', { claims: requestClaims() }) }),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should reject bodies not bound to the records API', async () => {
+      const unbound = encrypt(JSON.stringify(created), testKey);
+      const response = encrypt(JSON.stringify(created), testKey, {
+        claims: issueClaims({ route: '/api/records', audience: 'records-api', ttlSeconds: 60 }),
+      });
+
+      expect((await POST(sealedRequest('POST', unbound))).status).toBe(400);
+      expect((await POST(sealedRequest('POST', response))).status).toBe(400);
+    });
+
+    it('should reject replayed bodies', async () => {
+      const encryptedData = encrypt(JSON.stringify(created), testKey, { claims: requestClaims() });
+
+      expect((await POST(sealedRequest('POST', encryptedData))).status).toBe(201);
+      const replayed = await POST(sealedRequest('POST', encryptedData));
+
+      expect(replayed.status).toBe(400);
+      expect(await replayed.json()).toMatchObject({ code: 'DECRYPTION_FAILED' });
+    });
+
+    it('should reject plaintext bodies', async () => {
+      const request = new Request('http://localhost/api/records', {
+        method: 'POST',
+        headers: sessionHeaders(),
+        body: JSON.stringify(created),
+      });
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toMatchObject({ code: 'INVALID_BODY' });
+    });
+  });
+
+  describe('GET /[id]', () => {
+    it('should return the record encrypted', async () => {
+      const response = await GET(authedRequest(), context('1'));
+      expect(await decryptResponse(response)).toEqual({ record: existing });
+    });
+
+    it('should return 404 for unknown IDs', async () => {
+      const response = await GET(authedRequest(), context('missing'));
+
+      expect(response.status).toBe(404);
+      expect(await response.json()).toMatchObject({ code: 'NOT_FOUND' });
+    });
+  });
+
+  describe('PUT /[id]', () => {
+    it('should replace the record', async () => {
+      const changes = { title: 'Renamed', type: existing.type, sensitivity: existing.sensitivity, date: existing.date };
+      const response = await PUT(encryptedRequest('PUT', changes), context('1'));
+
+      expect(await decryptResponse(response)).toEqual({ record: { ...existing, title: 'Renamed' } });
+    });
+
+    it('should reject a body ID that does not match the URL', async () => {
+      const response = await PUT(encryptedRequest('PUT', { ...existing, id: '2' }), context('1'));
+      expect(response.status).toBe(422);
+    });
+
+    it('should return 404 for unknown IDs', async () => {
+      const response = await PUT(encryptedRequest('PUT', created), context('9'));
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /[id]', () => {
+    it('should delete the record', async () => {
+      const response = await DELETE(authedRequest(), context('1'));
+
+      expect(await decryptResponse(response)).toEqual({ id: '1', deleted: true });
+      expect((await GET(authedRequest(), context('1'))).status).toBe(404);
+    });
+  });
+
+  describe('live updates', () => {
+    it('should publish each successful change', async () => {
+      await POST(encryptedRequest('POST', created));
+      await PUT(encryptedRequest('PUT', { ...existing, title: 'Renamed' }), context('1'));
+      await DELETE(authedRequest(), context('9'));
+
+      expect(changes.map(event => event.change)).toEqual([
+        { type: 'created', record: created },
+        { type: 'updated', record: { ...existing, title: 'Renamed' }, previous: existing },
+        { type: 'deleted', record: created },
+      ]);
+    });
+
+    it('should not publish failed changes', async () => {
+      await POST(encryptedRequest('POST', existing));
+      await DELETE(authedRequest('viewer'), context('1'));
+
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe('access control', () => {
+    it('should require a session', async () => {
+      const response = await GET(new Request('http://localhost'), context('1'));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toMatchObject({ code: 'UNAUTHENTICATED' });
+    });
+
+    it('should reject sessions of users that no longer exist', async () => {
+      setUserStore({ verifyCredentials: async () => null, get: async () => null });
+      const response = await GET(authedRequest(), context('1'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should forbid reading records above the user\'s clearance', async () => {
+      const response = await GET(authedRequest('viewer'), context('1'));
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'FORBIDDEN' });
+    });
+
+    it('should forbid raising a record above the user\'s clearance', async () => {
+      const response = await PUT(encryptedRequest('PUT', { ...existing, sensitivity: 'Highly Confidential' }), context('1'));
+      expect(response.status).toBe(403);
+    });
+
+    it('should forbid creating or deleting records above the user\'s clearance', async () => {
+      expect((await POST(encryptedRequest('POST', { ...created, sensitivity: 'Confidential' }, 'viewer'))).status).toBe(403);
+      expect((await DELETE(authedRequest('viewer'), context('1'))).status).toBe(403);
+    });
+
+    it('should answer a taken ID above the user\'s clearance as GET does', async () => {
+      const response = await POST(encryptedRequest('POST', { ...created, id: existing.id }, 'viewer'));
+      const read = await GET(authedRequest('viewer'), context(existing.id));
+
+      expect(response.status).toBe(read.status);
+      expect(await response.json()).toMatchObject({ code: 'FORBIDDEN' });
+      expect(changes).toEqual([]);
+    });
+  });
+
+  describe('auditing', () => {
+    it('should record successful and denied calls', async () => {
+      await GET(authedRequest(), context('1'));
+      await DELETE(authedRequest('viewer'), context('1'));
+
+      expect(await auditLog.read()).toMatchObject([
+        { actor: 'analyst', action: 'records.read', recordIds: ['1'], outcome: 'success' },
+        { actor: 'viewer', action: 'records.delete', recordIds: ['1'], outcome: 'denied', detail: 'FORBIDDEN' },
+      ]);
+    });
+
+    it('should fail closed when the audit log cannot be written', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      setAuditLog({ append: () => Promise.reject(new Error('disk full')), read: async () => [], head: async () => null });
+
+      expect((await GET(authedRequest(), context('1'))).status).toBe(500);
+      jest.restoreAllMocks();
+    });
+  });
+
+  it('should report a missing key as a typed error', async () => {
+    process.env = { ...originalEnv, ENCRYPTION_KEY: '' };
+    const response = await GET(authedRequest(), context('1'));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toMatchObject({ code: 'KEY_NOT_CONFIGURED' });
+  });
+});
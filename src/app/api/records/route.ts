@@ -0,0 +1,54 @@
+import { ApiError, encryptedJson, errorResponse, readEncryptedJson, requireKeyring } from '@/lib/api';
+import { recordAuditEvent, recordAuditFailure } from '@/lib/audit';
+import { requireClearance, requireUser } from '@/lib/auth';
+import { RECORDS_API_AUDIENCE, RECORDS_API_REQUEST_AUDIENCE, RECORDS_API_ROUTE } from '@/lib/claims';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { getRecordEventLog, getRecordRepository, RecordExistsError, validateRecordItem } from '@/lib/records';
+
+// Creates a record from an encrypted RecordItem body, up to the user's clearance
+export async function POST(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'records');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  let recordIds: string[] = [];
+  try {
+    const keyring = requireKeyring();
+    const user = await requireUser(request);
+    actor = user.username;
+    const body = await readEncryptedJson(request, keyring, { route: RECORDS_API_ROUTE, audience: RECORDS_API_REQUEST_AUDIENCE });
+    const result = validateRecordItem(body);
+
+    if (!result.ok) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Invalid record', result.errors);
+    }
+    recordIds = [result.value.id];
+    // A taken ID the user isn't cleared for answers as GET does, so creating
+    // records can't be used to probe for records above their clearance
+    const current = await getRecordRepository().get(result.value.id);
+    if (current) {
+      requireClearance(user, current.sensitivity);
+    }
+    requireClearance(user, result.value.sensitivity);
+
+    const record = await getRecordRepository().create(result.value).catch(error => {
+      if (error instanceof RecordExistsError) {
+        throw new ApiError(409, 'CONFLICT', error.message);
+      }
+      throw error;
+    });
+
+    await recordAuditEvent({ actor, action: 'records.create', recordIds, outcome: 'success' });
+    getRecordEventLog().publish({ type: 'created', record });
+    return withRateLimitHeaders(await encryptedJson({ record }, keyring, {
+      route: RECORDS_API_ROUTE,
+      audience: RECORDS_API_AUDIENCE,
+      status: 201,
+    }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.create', recordIds }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to create record'), rateLimit);
+  }
+}
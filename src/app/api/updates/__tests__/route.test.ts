@@ -0,0 +1,135 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '@/lib/audit';
+import { createSessionToken, SESSION_COOKIE, setUserStore, type Role } from '@/lib/auth';
+import { keyringFromSecret } from '@/lib/keyring';
+import { createMemoryRateLimitStore, setRateLimitStore } from '@/lib/rate-limit';
+import { createMemoryRecordEventLog, setRecordEventLog, type RecordEventLog, type RecordItem } from '@/lib/records';
+import { createServerSentEventParser, type ServerSentEvent } from '@/lib/sse';
+import { GET } from '../route';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const keyring = keyringFromSecret(testKey);
+const survey: RecordItem = { id: 's1', title: 'Staff Survey', type: 'Survey', sensitivity: 'Private', date: '2024-03-01' };
+const budget: RecordItem = { id: 'b1', title: 'Budget', type: 'Report', sensitivity: 'Confidential', date: '2024-03-02' };
+
+function request(query = '', role: Role = 'analyst', lastEventId?: string) {
+  const token = createSessionToken({ username: role, role }, keyring);
+  return new Request(`http://localhost/api/updates${query}`, {
+    headers: { cookie: `${SESSION_COOKIE}=${token}`, ...(lastEventId && { 'Last-Event-ID': lastEventId }) },
+  });
+}
+
+async function next(reader: ReadableStreamDefaultReader<ServerSentEvent>): Promise<ServerSentEvent & { json?: unknown }> {
+  const { value, done } = await reader.read();
+  if (done) {
+    throw new Error('Stream ended');
+  }
+  return value.event === 'change' ? { ...value, json: JSON.parse(value.data) } : value;
+}
+
+describe('GET /api/updates', () => {
+  const originalEnv = process.env;
+  let auditLog: AuditLog;
+  let eventLog: RecordEventLog;
+  let reader: ReadableStreamDefaultReader<ServerSentEvent> | undefined;
+
+  // Opens the relay; the parser drops the initial retry-only event
+  async function open(...args: Parameters<typeof request>) {
+    const response = await GET(request(...args));
+    reader = response.body!.pipeThrough(createServerSentEventParser()).getReader();
+    return response;
+  }
+
+  beforeEach(() => {
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    eventLog = createMemoryRecordEventLog();
+    setRecordEventLog(eventLog);
+    setRateLimitStore(createMemoryRateLimitStore());
+    process.env = { ...originalEnv, ENCRYPTION_KEY: testKey };
+    setUserStore({
+      verifyCredentials: async () => null,
+      get: async username => ({ username, role: username as Role }),
+    });
+  });
+
+  afterEach(async () => {
+    await reader?.cancel();
+    reader = undefined;
+    process.env = originalEnv;
+    setRecordEventLog(null);
+    setUserStore(null);
+    setAuditLog(null);
+    setRateLimitStore(null);
+  });
+
+  it('should relay changes decrypted, with the feed\'s event IDs', async () => {
+    const response = await open();
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream');
+
+    const published = eventLog.publish({ type: 'created', record: survey });
+    expect(await next(reader!)).toMatchObject({
+      id: published.id,
+      event: 'change',
+      json: { id: published.id, timestamp: published.timestamp, update: { type: 'created', record: survey }, matches: true },
+    });
+  });
+
+  it('should mask fields as the page does', async () => {
+    await open();
+
+    eventLog.publish({ type: 'updated', record: budget, previous: budget });
+    expect((await next(reader!)).json).toMatchObject({
+      update: { type: 'updated', record: { ...budget, title: '', maskedFields: ['title'] } },
+      matches: true,
+    });
+  });
+
+  it('should say whether a change matches the viewer\'s filters, before masking', async () => {
+    await open('?q=budget');
+
+    eventLog.publish({ type: 'created', record: survey });
+    eventLog.publish({ type: 'created', record: budget });
+    expect((await next(reader!)).json).toMatchObject({ matches: false });
+    expect((await next(reader!)).json).toMatchObject({ matches: true });
+  });
+
+  it('should never match redacted records on text search', async () => {
+    await open('?q=budget', 'viewer');
+
+    eventLog.publish({ type: 'created', record: budget });
+    expect((await next(reader!)).json).toMatchObject({ update: { record: { redacted: true } }, matches: false });
+  });
+
+  it('should catch up from Last-Event-ID and pass resets on', async () => {
+    const seen = eventLog.publish({ type: 'created', record: survey });
+    const missed = eventLog.publish({ type: 'deleted', record: survey });
+    await open('', 'analyst', seen.id);
+    expect(await next(reader!)).toMatchObject({ id: missed.id, json: { update: { type: 'deleted', id: 's1' }, matches: false } });
+
+    await reader!.cancel();
+    await open('', 'analyst', 'gone-1');
+    expect(await next(reader!)).toMatchObject({ event: 'reset' });
+  });
+
+  it('should audit both sides of each change', async () => {
+    await open();
+    eventLog.publish({ type: 'created', record: survey });
+    await next(reader!);
+
+    expect(await auditLog.read()).toMatchObject([
+      { actor: 'analyst', action: 'records.watch', recordIds: ['s1'], outcome: 'success' },
+      { actor: 'analyst', action: 'records.decrypt', recordIds: ['s1'], outcome: 'success' },
+    ]);
+  });
+
+  it('should reject invalid filters and requests without a session', async () => {
+    expect((await GET(request('?sort=secret'))).status).toBe(400);
+
+    const response = await GET(new Request('http://localhost/api/updates'));
+    expect(response.status).toBe(401);
+    expect((await auditLog.read()).at(-1)).toMatchObject({ action: 'records.watch', outcome: 'denied' });
+  });
+});
@@ -0,0 +1,39 @@
+import { ApiError, errorResponse } from '@/lib/api';
+import { recordAuditFailure } from '@/lib/audit';
+import { readCookie, requireUser, SESSION_COOKIE } from '@/lib/auth';
+import { checkRateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rate-limit';
+import { parseRecordQuery } from '@/lib/records';
+import { relayRecordEvents } from '@/lib/records-service';
+import { SSE_HEADERS } from '@/lib/sse';
+
+// Live updates for the viewer's EventSource, decrypted on the server: relays
+// /api/encrypted-data/events (in-process, or from RECORDS_API_URL) as
+// `change` events holding a RecordUpdateEvent as JSON, cleared and masked as
+// the page is, plus `reset` events. Query: the viewer's filters (q, type,
+// sensitivity, from, to, sort, order), so each update says whether it
+// belongs in the current view. The browser sends Last-Event-ID by itself
+// when it reconnects.
+export async function GET(request: Request) {
+  const rateLimit = await checkRateLimit(request, 'updates');
+  if (rateLimit && !rateLimit.allowed) {
+    return rateLimitedResponse(rateLimit);
+  }
+
+  let actor: string | null = null;
+  try {
+    const user = await requireUser(request);
+    actor = user.username;
+    const token = readCookie(request.headers.get('cookie'), SESSION_COOKIE)!;
+    const query = parseRecordQuery(new URL(request.url).searchParams);
+
+    if (!query.ok) {
+      throw new ApiError(400, 'VALIDATION_FAILED', 'Invalid query', query.errors);
+    }
+
+    const body = await relayRecordEvents({ user, token }, query.value, request.headers.get('Last-Event-ID'));
+    return withRateLimitHeaders(new Response(body, { headers: SSE_HEADERS }), rateLimit);
+  } catch (error) {
+    await recordAuditFailure({ actor, action: 'records.watch', recordIds: [] }, error);
+    return withRateLimitHeaders(errorResponse(error, 'Failed to open live updates'), rateLimit);
+  }
+}
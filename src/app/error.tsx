@@ -1,18 +1,39 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useCallback, useEffect, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
 import { motion } from 'framer-motion';
+import useAutoRetry from '@/components/useAutoRetry';
+import { DECRYPTION_ERROR_GUIDANCE, getDecryptionErrorCode } from '@/lib/decryption-errors';
 
 interface ErrorProps {
   error: Error & { digest?: string };
   reset: () => void;
 }
 
+// Decryption errors carry a stable digest, so the guidance and retry behavior
+// below are specific to what failed even when production strips the message
 export default function Error({ error, reset }: ErrorProps) {
+  const router = useRouter();
+  const [isRetrying, startTransition] = useTransition();
+  const code = getDecryptionErrorCode(error);
+  const guidance = code ? DECRYPTION_ERROR_GUIDANCE[code] : null;
+  const retry = guidance?.retry ?? 'manual';
+
   useEffect(() => {
     console.error('Runtime error:', error);
   }, [error]);
 
+  // Server component errors need fresh server data, not just a re-render
+  const retryRender = useCallback(() => {
+    startTransition(() => {
+      router.refresh();
+      reset();
+    });
+  }, [router, reset]);
+
+  const secondsUntilRetry = useAutoRetry(retry === 'auto', retryRender);
+
   return (
     <main className="min-h-screen bg-gradient-to-b from-black via-gray-950 to-black">
       {/* Animated background orbs */}
@@ -60,7 +81,7 @@ export default function Error({ error, reset }: ErrorProps) {
               transition={{ delay: 0.1 }}
               className="text-4xl font-bold text-white mb-4"
             >
-              Something went wrong!
+              {guidance?.title ?? 'Something went wrong!'}
             </motion.h1>
 
             {/* Error Message */}
@@ -70,11 +91,18 @@ export default function Error({ error, reset }: ErrorProps) {
               transition={{ delay: 0.2 }}
               className="text-lg text-gray-400 mb-8"
             >
-              {error.message || 'An unexpected error occurred'}
+              {guidance?.description ?? (error.message || 'An unexpected error occurred')}
             </motion.p>
 
+            {code && (
+              <p className="mb-8 -mt-4 text-sm text-gray-500">
+                Error code: <span className="font-mono text-gray-400">{code}</span>
+                {secondsUntilRetry !== null && <> • Retrying in {secondsUntilRetry}s</>}
+              </p>
+            )}
+
             {/* Error Details (Dev Only) */}
-            {process.env.NODE_ENV === 'development' && error.digest && (
+            {process.env.NODE_ENV === 'development' && error.digest && !code && (
               <motion.div
                 initial={{ opacity: 0 }}
                 animate={{ opacity: 1 }}
@@ -92,19 +120,22 @@ export default function Error({ error, reset }: ErrorProps) {
               transition={{ delay: 0.4 }}
               className="flex flex-col sm:flex-row gap-4 justify-center"
             >
-              {/* Retry Button */}
-              <motion.button
-                whileHover={{ scale: 1.05 }}
-                whileTap={{ scale: 0.95 }}
-                onClick={reset}
-                className="px-8 py-4 rounded-xl font-semibold text-white transition-all duration-300"
-                style={{
-                  background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
-                  boxShadow: '0 10px 25px -5px rgba(59, 130, 246, 0.3)',
-                }}
-              >
-                Try Again
-              </motion.button>
+              {/* Retry Button: hidden when only a configuration fix can help */}
+              {retry !== 'none' && (
+                <motion.button
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={retryRender}
+                  disabled={isRetrying}
+                  className="px-8 py-4 rounded-xl font-semibold text-white transition-all duration-300 disabled:opacity-50"
+                  style={{
+                    background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
+                    boxShadow: '0 10px 25px -5px rgba(59, 130, 246, 0.3)',
+                  }}
+                >
+                  {isRetrying ? 'Retrying…' : 'Try Again'}
+                </motion.button>
+              )}
 
               {/* Home Button */}
               <motion.button
@@ -129,7 +160,9 @@ export default function Error({ error, reset }: ErrorProps) {
               transition={{ delay: 0.5 }}
               className="mt-8 text-sm text-gray-500"
             >
-              If this problem persists, please contact support.
+              {retry === 'none'
+                ? 'This needs a configuration or data fix on the server. Please contact your administrator.'
+                : 'If this problem persists, please contact support.'}
             </motion.p>
           </div>
         </motion.div>
@@ -1,34 +1,53 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
+import useAutoRetry from '@/components/useAutoRetry';
+import { DECRYPTION_ERROR_GUIDANCE, getDecryptionErrorCode } from '@/lib/decryption-errors';
 
 interface GlobalErrorProps {
   error: Error & { digest?: string };
   reset: () => void;
 }
 
-export default function GlobalError({ error, reset }: GlobalErrorProps) {
+// Replaces the root layout, so retrying reloads the whole page
+export default function GlobalError({ error }: GlobalErrorProps) {
+  const code = getDecryptionErrorCode(error);
+  const guidance = code ? DECRYPTION_ERROR_GUIDANCE[code] : null;
+  const retry = guidance?.retry ?? 'manual';
+
   useEffect(() => {
     console.error('Global error:', error);
   }, [error]);
 
+  const reload = useCallback(() => window.location.reload(), []);
+  const secondsUntilRetry = useAutoRetry(retry === 'auto', reload);
+
   return (
     <html>
       <body className="bg-black text-white">
         <div className="min-h-screen flex items-center justify-center p-4">
           <div className="max-w-md w-full text-center">
-            <h1 className="text-4xl font-bold text-white mb-4">⚠️ Critical Error</h1>
-            <p className="text-gray-400 mb-6">{error.message || 'An unexpected error occurred'}</p>
-            <button
-              onClick={reset}
-              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-            >
-              Try Again
-            </button>
+            <h1 className="text-4xl font-bold text-white mb-4">⚠️ {guidance?.title ?? 'Critical Error'}</h1>
+            <p className="text-gray-400 mb-6">
+              {guidance?.description ?? (error.message || 'An unexpected error occurred')}
+            </p>
+            {code && (
+              <p className="text-sm text-gray-500 mb-6">
+                Error code: <span className="font-mono">{code}</span>
+                {secondsUntilRetry !== null && <> • Retrying in {secondsUntilRetry}s</>}
+              </p>
+            )}
+            {retry !== 'none' && (
+              <button
+                onClick={reload}
+                className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                Try Again
+              </button>
+            )}
           </div>
         </div>
       </body>
     </html>
   );
 }
-
@@ -0,0 +1,25 @@
+import { redirect } from "next/navigation";
+import { getCurrentSession } from "@/lib/auth";
+import LoginForm from "@/components/LoginForm";
+
+export const dynamic = "force-dynamic";
+
+// Sign-in page; signed-in users go straight to the records
+export default async function LoginPage() {
+  if (await getCurrentSession()) {
+    redirect("/");
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-gray-950 to-black">
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute top-60 -left-40 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl animate-pulse delay-1000" />
+      </div>
+
+      <div className="relative z-10 min-h-screen flex items-center justify-center px-4">
+        <LoginForm />
+      </div>
+    </main>
+  );
+}
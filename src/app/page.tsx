@@ -1,92 +1,50 @@
-import { decrypt } from "@/lib/encryption";
+import { redirect } from "next/navigation";
+import { getCurrentSession } from "@/lib/auth";
+import { maskRecord } from "@/lib/records/masking";
+import {
+  DEFAULT_RECORD_QUERY,
+  parseRecordQuery,
+  type RecordQuery,
+} from "@/lib/records/query";
+import { getRecordPage } from "@/lib/records-service";
 import ClientRecordsViewer from "@/components/ClientRecordsViewer";
+import SessionBadge from "@/components/SessionBadge";
 import TypingAnimation from "@/components/TypingAnimation";
 
 // Force dynamic rendering - cannot be statically generated due to server-side encryption
 export const dynamic = "force-dynamic";
 
-interface RecordItem {
-  id: string;
-  title: string;
-  type: string;
-  sensitivity: string;
-  date: string;
-}
-
-interface DecryptedData {
-  timestamp: string;
-  records: RecordItem[];
-}
-
-// Fetches encrypted data from API route and decrypts it server-side
-// Simulates the exact flow: API encrypts → Server decrypts → Render
-async function getDecryptedData(): Promise<DecryptedData> {
-  const encryptionKey = process.env.ENCRYPTION_KEY;
-
-  if (!encryptionKey) {
-    throw new Error("ENCRYPTION_KEY environment variable is not set");
-  }
-
-  try {
-    // Build the API URL - use environment variable or construct from request headers
-    let baseUrl = "http://localhost:3000";
-
-    if (process.env.VERCEL_URL) {
-      baseUrl = `https://${process.env.VERCEL_URL}`;
-    } else if (process.env.NEXT_PUBLIC_BASE_URL) {
-      baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
-    }
-
-    console.log("Fetching from:", `${baseUrl}/api/encrypted-data`);
+type SearchParams = Record<string, string | string[] | undefined>;
 
-    // Fetch from internal API route (as per requirements)
-    // const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL}/api/encrypted-data`, {
-    //   cache: 'no-store',
-    //   headers: {
-    //     'Accept': 'application/json',
-    //   },
-    // });
-    const response = await fetch(
-      `${
-        process.env.NEXT_PUBLIC_BASE_URL
-          ? `${process.env.NEXT_PUBLIC_BASE_URL}/api/encrypted-data`
-          : "/api/encrypted-data"
-      }`,
-      {
-        cache: "no-store",
-        headers: {
-          Accept: "application/json",
-        },
-      }
-    );
-    console.log("API Response status:", response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("API Error:", response.status, errorText);
-      throw new Error(`Failed to fetch encrypted data: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const { encryptedData } = data;
-
-    if (!encryptedData) {
-      throw new Error("No encrypted data received from API");
+// Reads the viewer's state from the page URL; invalid parameters fall back to defaults
+function readRecordQuery(searchParams: SearchParams): RecordQuery {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(searchParams)) {
+    for (const item of [value ?? []].flat()) {
+      params.append(name, item);
     }
+  }
 
-    // Decrypt server-side (critical for security)
-    const decryptedJson = decrypt(encryptedData, encryptionKey);
+  const query = parseRecordQuery(params);
+  return query.ok ? query.value : DEFAULT_RECORD_QUERY;
+}
 
-    return JSON.parse(decryptedJson) as DecryptedData;
-  } catch (error) {
-    console.error("Error fetching or decrypting data:", error);
-    throw error;
+// Server component: loads the encrypted page through the records service and
+// decrypts it before rendering (in-process, or from RECORDS_API_URL)
+// The viewer's search/sort/page state arrives through searchParams. Masked
+// fields are emptied before the records reach the client component.
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect("/login");
   }
-}
 
-// Server component: fetches and decrypts data before rendering
-export default async function Home() {
-  const initialData = await getDecryptedData();
+  const query = readRecordQuery(await searchParams);
+  const initialData = await getRecordPage(query, session);
 
   return (
     <main className="min-h-screen bg-gradient-to-b from-black via-gray-950 to-black">
@@ -96,6 +54,10 @@ export default async function Home() {
       </div>
 
       <div className="relative z-10 container mx-auto px-4 sm:px-6 lg:px-8 py-12 sm:py-16">
+        <div className="mb-8 flex justify-end">
+          <SessionBadge user={session.user} />
+        </div>
+
         <div className="mb-12 text-center">
           <div className="inline-block mb-6">
             <TypingAnimation
@@ -110,16 +72,17 @@ export default async function Home() {
           <p className="text-lg sm:text-xl text-gray-400 max-w-2xl mx-auto">
             Server-side encrypted data • Built with Next.js & AES-256-GCM
           </p>
-          <div className="mt-6 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 text-sm text-gray-300">
-            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-            <span>
-              Last updated: {new Date(initialData.timestamp).toLocaleString()}
-            </span>
-          </div>
         </div>
 
         <div className="mx-auto max-w-7xl">
-          <ClientRecordsViewer initialRecords={initialData.records} />
+          <ClientRecordsViewer
+            initialRecords={initialData.records.map(maskRecord)}
+            total={initialData.total}
+            nextCursor={initialData.nextCursor}
+            query={query}
+            timestamp={initialData.timestamp}
+            eventId={initialData.eventId ?? null}
+          />
         </div>
       </div>
     </main>
@@ -0,0 +1,21 @@
+import Link from "next/link";
+
+// Rendered when /records/[id] names a record that doesn't exist
+export default function RecordNotFound() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-gray-950 to-black">
+      <div className="relative z-10 min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-md w-full rounded-2xl border border-white/10 bg-white/5 p-8 text-center">
+          <div className="mb-4 text-5xl" aria-hidden="true">🔍</div>
+          <h1 className="mb-2 text-2xl font-bold text-white">Record not found</h1>
+          <p className="mb-6 text-gray-400">
+            It may have been deleted, or the link is wrong.
+          </p>
+          <Link href="/" className="text-sm font-semibold text-blue-400 hover:text-blue-300">
+            Back to all records
+          </Link>
+        </div>
+      </div>
+    </main>
+  );
+}
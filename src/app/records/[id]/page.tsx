@@ -0,0 +1,81 @@
+import type { ReactNode } from "react";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { ApiError } from "@/lib/api";
+import { getCurrentSession } from "@/lib/auth";
+import { maskRecord } from "@/lib/records/masking";
+import type { RecordView } from "@/lib/records/schema";
+import { getRecord } from "@/lib/records-service";
+import RecordDetail from "@/components/RecordDetail";
+import SessionBadge from "@/components/SessionBadge";
+
+// Force dynamic rendering - the record is fetched and decrypted per request
+export const dynamic = "force-dynamic";
+
+function RecordPageShell({ children }: { children: ReactNode }) {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-black via-gray-950 to-black">
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute -top-40 -right-40 w-96 h-96 bg-blue-500/10 rounded-full blur-3xl animate-pulse" />
+        <div className="absolute top-60 -left-40 w-96 h-96 bg-purple-500/10 rounded-full blur-3xl animate-pulse delay-1000" />
+      </div>
+
+      <div className="relative z-10 container mx-auto max-w-3xl px-4 sm:px-6 lg:px-8 py-12 sm:py-16">
+        {children}
+      </div>
+    </main>
+  );
+}
+
+// Server component: loads one record through the records service and
+// decrypts it before rendering (in-process, or from RECORDS_API_URL).
+// Unknown IDs render not-found.tsx; records above the user's clearance get
+// an access-denied panel rather than an error page. Masked fields are emptied
+// here so their plaintext stays out of the RSC payload; fields sealed with a
+// tier key this server doesn't hold arrive empty and listed in sealedFields.
+export default async function RecordPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = await getCurrentSession();
+  if (!session) {
+    redirect("/login");
+  }
+
+  const { id } = await params;
+  let record: RecordView;
+  try {
+    record = await getRecord(id, session);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) {
+      notFound();
+    }
+    if (error instanceof ApiError && error.status === 403) {
+      return (
+        <RecordPageShell>
+          <div className="rounded-2xl border border-red-500/20 bg-red-500/5 p-8 text-center">
+            <div className="mb-4 text-5xl" aria-hidden="true">⛔</div>
+            <h1 className="mb-2 text-2xl font-bold text-white">Access denied</h1>
+            <p className="mb-6 text-gray-400">
+              This record is above the clearance of your {session.user.role} role.
+            </p>
+            <Link href="/" className="text-sm font-semibold text-blue-400 hover:text-blue-300">
+              Back to all records
+            </Link>
+          </div>
+        </RecordPageShell>
+      );
+    }
+    throw error;
+  }
+
+  return (
+    <RecordPageShell>
+      <div className="mb-8 flex justify-end">
+        <SessionBadge user={session.user} />
+      </div>
+      <RecordDetail record={maskRecord(record)} decryptedAt={new Date().toISOString()} />
+    </RecordPageShell>
+  );
+}
@@ -0,0 +1,32 @@
+'use server';
+
+import { ApiError } from '@/lib/api';
+import { getCurrentSession } from '@/lib/auth';
+import { MASKABLE_FIELDS, type MaskableField } from '@/lib/records/schema';
+import { revealRecordField } from '@/lib/records-service';
+
+export type RevealResult = { ok: true; value: string } | { ok: false; error: string };
+
+// Server action behind the Reveal control of masked fields. Arguments come
+// from the client, so they are checked before use; errors are turned into
+// short messages rather than thrown, which would show the error boundary.
+export async function revealField(recordId: unknown, field: unknown): Promise<RevealResult> {
+  if (typeof recordId !== 'string' || !MASKABLE_FIELDS.includes(field as MaskableField)) {
+    return { ok: false, error: 'Invalid reveal request' };
+  }
+
+  const session = await getCurrentSession();
+  if (!session) {
+    return { ok: false, error: 'Your session has expired. Sign in again.' };
+  }
+
+  try {
+    return { ok: true, value: await revealRecordField(recordId, field as MaskableField, session) };
+  } catch (error) {
+    if (error instanceof ApiError && (error.status === 403 || error.status === 404 || error.status === 422)) {
+      return { ok: false, error: error.message };
+    }
+    console.error('Failed to reveal field:', error);
+    return { ok: false, error: 'Could not reveal this field. Try again.' };
+  }
+}
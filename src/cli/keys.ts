@@ -0,0 +1,272 @@
+import { loadEnvConfig } from '@next/env';
+import { promises as fs } from 'fs';
+import { createInterface } from 'readline/promises';
+import { parseArgs } from 'util';
+import { decryptExport } from '../lib/export';
+import { loadTierKeyringsFromEnv } from '../lib/field-encryption';
+import { resolveKdf } from '../lib/kdf';
+import { createKeyProviderFromEnv, DEFAULT_KEY_FILE_PATH, readLocalKeyFile, writeLocalKeyFile } from '../lib/key-provider';
+import {
+  assessKeyStrength,
+  generateKey,
+  keyFingerprint,
+  keyringToEnv,
+  reencryptJson,
+  rewrapJson,
+  rotateKeyring,
+  updateEnvFile,
+} from '../lib/key-management';
+import { createKeyring, loadKeyringFromEnv, type Keyring } from '../lib/keyring';
+
+// Key management CLI: npm run keys -- <command> [options]
+// Reads keyrings from the environment and .env files the same way the app does.
+
+const USAGE = `Usage: npm run keys -- <command> [options]
+
+Commands:
+  generate                Print a new random 32-byte key
+  inspect                 List the keyring's keys with fingerprints and strength checks
+  rotate                  Add a new key and make it active
+  reencrypt <file.json>   Re-encrypt every envelope in a JSON file under the active key;
+                          fields of sealed records under their tier's active key
+  decrypt-export <file>   Decrypt an encrypted export from the viewer and print its JSON
+  kek-rotate              Add a new key-encryption key to ENCRYPTION_KEY_FILE and make it active
+  rewrap <file.json>      Re-wrap the data key of every v4 envelope in a JSON file under the active KEK
+
+Options:
+  --prefix <PREFIX>       Keyring variables to use (default ENCRYPTION, e.g. CONFIDENTIAL_ENCRYPTION)
+  --id <keyId>            ID for the new key (rotate, kek-rotate; default: current month)
+  --env-file <path>       Write the rotated keyring into this .env file (rotate)
+  --dry-run               Show what rotate, reencrypt, kek-rotate or rewrap would change without writing
+  --out <path>            Write the decrypted export here instead of stdout (decrypt-export)
+
+decrypt-export reads the passphrase from EXPORT_PASSPHRASE, or asks for it.
+`;
+
+interface Options {
+  prefix: string;
+  id?: string;
+  envFile?: string;
+  dryRun: boolean;
+  out?: string;
+}
+
+function requireKeyring(prefix: string): Keyring {
+  const keyring = loadKeyringFromEnv(process.env, prefix);
+  if (!keyring) {
+    throw new Error(`No keys configured. Set ${prefix}_KEY or ${prefix}_KEYS`);
+  }
+  return keyring;
+}
+
+function generate() {
+  const secret = generateKey();
+  console.log(secret);
+  console.error(`Fingerprint: ${keyFingerprint(secret)}`);
+}
+
+// Exits non-zero when any key fails the strength checks, so it can gate deploys
+function inspect({ prefix }: Options) {
+  const keyring = requireKeyring(prefix);
+  let weak = 0;
+
+  for (const [id, secret] of keyring.keys) {
+    const strength = assessKeyStrength(secret);
+    const active = id === keyring.activeKeyId ? ' (active)' : '';
+    const kdf = resolveKdf(secret, keyring.kdf.kdf);
+    console.log(`${id}${active}  ${keyFingerprint(secret)}  ${strength.kind}, ${kdf}, ~${strength.estimatedBits} bits`);
+    for (const problem of strength.problems) {
+      console.log(`  ! ${problem}`);
+    }
+    weak += strength.problems.length > 0 ? 1 : 0;
+  }
+
+  if (weak > 0) {
+    console.error(`${weak} key(s) failed the strength checks`);
+    process.exitCode = 1;
+  }
+}
+
+async function rotate({ prefix, id, envFile, dryRun }: Options) {
+  const keyring = rotateKeyring(requireKeyring(prefix), { keyId: id });
+  const secret = keyring.keys.get(keyring.activeKeyId)!;
+  console.error(`New active key ${keyring.activeKeyId} (${keyFingerprint(secret)})`);
+
+  if (!envFile || dryRun) {
+    for (const [name, value] of Object.entries(keyringToEnv(keyring, prefix))) {
+      console.log(`${name}=${value}`);
+    }
+    console.error('Old keys are kept; run reencrypt, then remove them once nothing uses them.');
+    return;
+  }
+
+  const contents = await fs.readFile(envFile, 'utf8').catch(error => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return '';
+    }
+    throw error;
+  });
+  await fs.writeFile(envFile, updateEnvFile(contents, keyring, prefix), 'utf8');
+  console.error(`Updated ${envFile}. Restart the server to pick up the new key.`);
+}
+
+async function reencrypt(file: string | undefined, { prefix, dryRun }: Options) {
+  if (!file) {
+    throw new Error('reencrypt needs a JSON file');
+  }
+  const keyring = requireKeyring(prefix);
+  const contents = await fs.readFile(file, 'utf8');
+  const { value, report } = reencryptJson(JSON.parse(contents), keyring, loadTierKeyringsFromEnv());
+
+  for (const path of report.reencrypted) {
+    console.log(`${dryRun ? 'would re-encrypt' : 're-encrypted'}  ${path}`);
+  }
+  for (const path of report.skipped) {
+    console.log(`skipped  ${path}`);
+  }
+  console.error(
+    `${report.reencrypted.length} envelope(s) ${dryRun ? 'to re-encrypt' : 're-encrypted'}, ` +
+    `${report.unchanged.length} already current, ${report.skipped.length} skipped (key not held)`
+  );
+  if (dryRun || report.reencrypted.length === 0) {
+    return;
+  }
+
+  // Keep the original until the caller has checked the result; write atomically
+  await fs.copyFile(file, `${file}.bak`);
+  const tempPath = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+  await fs.rename(tempPath, file);
+  console.error(`Wrote ${file} (original saved as ${file}.bak)`);
+}
+
+// The local key provider's file; created with a first key when missing
+async function kekRotate({ id, dryRun }: Options) {
+  const filePath = process.env.ENCRYPTION_KEY_FILE || DEFAULT_KEY_FILE_PATH;
+  const current = await readLocalKeyFile(filePath).catch(error => {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  });
+  const firstKeyId = id ?? new Date().toISOString().slice(0, 7);
+  const keyring = current ? rotateKeyring(current, { keyId: id }) : createKeyring({ [firstKeyId]: generateKey() }, firstKeyId);
+  const secret = keyring.keys.get(keyring.activeKeyId)!;
+  console.error(`New active KEK ${keyring.activeKeyId} (${keyFingerprint(secret)})`);
+
+  if (dryRun) {
+    return;
+  }
+  await writeLocalKeyFile(filePath, keyring);
+  console.error(`${current ? 'Updated' : 'Created'} ${filePath}. Run rewrap to move stored data keys to the new KEK.`);
+}
+
+async function rewrap(file: string | undefined, { dryRun }: Options) {
+  if (!file) {
+    throw new Error('rewrap needs a JSON file');
+  }
+  const provider = createKeyProviderFromEnv();
+  if (!provider) {
+    throw new Error('No key provider configured. Set ENCRYPTION_KEY_PROVIDER');
+  }
+  const contents = await fs.readFile(file, 'utf8');
+  const { value, report } = await rewrapJson(JSON.parse(contents), provider);
+
+  for (const path of report.rewrapped) {
+    console.log(`${dryRun ? 'would re-wrap' : 're-wrapped'}  ${path}`);
+  }
+  console.error(
+    `${report.rewrapped.length} data key(s) ${dryRun ? 'to re-wrap' : 're-wrapped'} under ${await provider.activeKeyId()}, ` +
+    `${report.unchanged.length} already current`
+  );
+  if (dryRun || report.rewrapped.length === 0) {
+    return;
+  }
+
+  await fs.copyFile(file, `${file}.bak`);
+  const tempPath = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(value, null, 2)}\n`, 'utf8');
+  await fs.rename(tempPath, file);
+  console.error(`Wrote ${file} (original saved as ${file}.bak)`);
+}
+
+async function readPassphrase(): Promise<string> {
+  if (process.env.EXPORT_PASSPHRASE) {
+    return process.env.EXPORT_PASSPHRASE;
+  }
+  const prompt = createInterface({ input: process.stdin, output: process.stderr, terminal: false });
+  try {
+    return await prompt.question('Export passphrase: ');
+  } finally {
+    prompt.close();
+  }
+}
+
+async function decryptExportFile(file: string | undefined, { out }: Options) {
+  if (!file) {
+    throw new Error('decrypt-export needs an encrypted export file');
+  }
+  const envelope = await fs.readFile(file, 'utf8');
+  const recordExport = decryptExport(envelope, await readPassphrase());
+  const json = `${JSON.stringify(recordExport, null, 2)}\n`;
+
+  if (!out) {
+    process.stdout.write(json);
+    return;
+  }
+  await fs.writeFile(out, json, { encoding: 'utf8', mode: 0o600 });
+  console.error(`Wrote ${recordExport.records.length} record(s) exported ${recordExport.exportedAt} to ${out}`);
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      'prefix': { type: 'string', default: 'ENCRYPTION' },
+      'id': { type: 'string' },
+      'env-file': { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'out': { type: 'string' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, file] = positionals;
+  const options: Options = {
+    prefix: values.prefix!,
+    id: values.id,
+    envFile: values['env-file'],
+    dryRun: values['dry-run']!,
+    out: values.out,
+  };
+
+  switch (values.help ? 'help' : command) {
+    case 'generate':
+      return generate();
+    case 'inspect':
+      return inspect(options);
+    case 'rotate':
+      return rotate(options);
+    case 'reencrypt':
+      return reencrypt(file, options);
+    case 'decrypt-export':
+      return decryptExportFile(file, options);
+    case 'kek-rotate':
+      return kekRotate(options);
+    case 'rewrap':
+      return rewrap(file, options);
+    case 'help':
+    case undefined:
+      console.log(USAGE);
+      return;
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production', { info: () => {}, error: console.error });
+
+main(process.argv.slice(2)).catch(error => {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+});
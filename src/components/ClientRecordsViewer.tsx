@@ -1,50 +1,132 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState, useTransition } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
+import ExportMenu from './ExportMenu';
+import FacetChips from './FacetChips';
 import RecordCard from './RecordCard';
-
-interface RecordItem {
-  id: string;
-  title: string;
-  type: string;
-  sensitivity: string;
-  date: string;
-}
+import useRecordUpdates, { type UpdatesStatus } from './useRecordUpdates';
+import { applyViewerUpdate, type LivePage } from '@/lib/records/live-updates';
+import { defaultOrderFor, toSearchParams, type RecordQuery, type SortField } from '@/lib/records/query';
+import type { RecordView } from '@/lib/records/schema';
+import { TAXONOMY } from '@/lib/records/taxonomy';
 
 interface ClientRecordsViewerProps {
-  initialRecords: RecordItem[];
+  initialRecords: RecordView[]; // Current page, already filtered and sorted server-side
+  total: number;                // Matching records across all pages
+  nextCursor: string | null;
+  query: RecordQuery;           // Query the page was rendered for
+  timestamp: string;            // When the page was decrypted on the server
+  eventId: string | null;       // Live updates feed position the page was read at
 }
 
-// Client component: handles search, sort, and displays cards
-export default function ClientRecordsViewer({ initialRecords }: ClientRecordsViewerProps) {
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'date' | 'type' | 'sensitivity'>('date');
-
-  const filteredAndSortedRecords = initialRecords
-    .filter(record => {
-      const query = searchQuery.toLowerCase();
-      return (
-        record.title.toLowerCase().includes(query) ||
-        record.type.toLowerCase().includes(query) ||
-        record.sensitivity.toLowerCase().includes(query)
-      );
-    })
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'date':
-          return new Date(b.date).getTime() - new Date(a.date).getTime();
-        case 'type':
-          return a.type.localeCompare(b.type);
-        case 'sensitivity':
-          return a.sensitivity.localeCompare(b.sensitivity);
-        default:
-          return 0;
-      }
+const SEARCH_DEBOUNCE_MS = 300;
+
+const STATUS_LABELS: Record<UpdatesStatus, string> = {
+  connecting: 'Connecting…',
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  stopped: 'Live updates stopped',
+};
+
+// Client component: handles search, facet filters, sort, and displays cards
+// Filtering and sorting happen on the server; every control reads its value
+// from the URL and writes changes back to it, so page.tsx re-renders with the
+// matching page and any filtered view can be bookmarked or shared. Only the
+// search text is held locally while it is debounced. Live updates from
+// /api/updates are merged into the page until the next render replaces it.
+export default function ClientRecordsViewer({ initialRecords, total, nextCursor, query, timestamp, eventId }: ClientRecordsViewerProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [isPending, startTransition] = useTransition();
+  const [searchQuery, setSearchQuery] = useState(query.q ?? '');
+  const [page, setPage] = useState<LivePage>({ records: initialRecords, total });
+  const [lastUpdated, setLastUpdated] = useState(timestamp);
+
+  // A new server render starts again from its records
+  const [renderedRecords, setRenderedRecords] = useState(initialRecords);
+  if (renderedRecords !== initialRecords) {
+    setRenderedRecords(initialRecords);
+    setPage({ records: initialRecords, total });
+    setLastUpdated(timestamp);
+  }
+
+  // Updates are filtered for the current view; paging doesn't apply
+  const updateParams = toSearchParams({ ...query, cursor: undefined, limit: undefined }).toString();
+  const status = useRecordUpdates(
+    updateParams,
+    eventId,
+    (update) => {
+      setPage(current => applyViewerUpdate(current, update, query));
+      setLastUpdated(update.timestamp);
+    },
+    // Changes were missed, so the page is fetched again
+    () => startTransition(() => router.refresh())
+  );
+  const hasFilters = Boolean(query.q || query.type || query.sensitivity || query.from || query.to);
+
+  // Changing any control starts again from the first page
+  const updateQuery = (changes: Partial<RecordQuery>) => {
+    const params = toSearchParams({ ...query, ...changes, cursor: undefined }).toString();
+    startTransition(() => {
+      router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
     });
+  };
+
+  // Adds or removes a facet value; an empty selection drops the filter
+  const toggleFacet = (facet: 'type' | 'sensitivity', value: string) => {
+    const current = query[facet] ?? [];
+    const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+    updateQuery({ [facet]: next.length > 0 ? next : undefined });
+  };
+
+  // A bound that would cross the other one moves it along, so the range stays valid
+  const updateDateRange = (bound: 'from' | 'to', value: string) => {
+    const changes: Partial<RecordQuery> = { [bound]: value || undefined };
+    if (value && bound === 'from' && query.to && value > query.to) changes.to = value;
+    if (value && bound === 'to' && query.from && value < query.from) changes.from = value;
+    updateQuery(changes);
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    updateQuery({ q: undefined, type: undefined, sensitivity: undefined, from: undefined, to: undefined });
+  };
+
+  // Applies the debounced search text against the latest render, so only a
+  // change of the text restarts the debounce
+  const applySearch = useRef<(q: string) => void>(() => {});
+  useEffect(() => {
+    applySearch.current = (q: string) => {
+      if (q !== (query.q ?? '')) {
+        updateQuery({ q: q || undefined });
+      }
+    };
+  });
+
+  useEffect(() => {
+    const timeout = setTimeout(() => applySearch.current(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const pageHref = (cursor?: string) => {
+    const params = toSearchParams({ ...query, cursor }).toString();
+    return params ? `${pathname}?${params}` : pathname;
+  };
 
   return (
     <div className="space-y-8">
+      <div className="flex justify-center">
+        <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 border border-white/10 text-sm text-gray-300">
+          <div className={`w-2 h-2 rounded-full ${status === 'live' ? 'bg-green-500 animate-pulse' : status === 'stopped' ? 'bg-gray-500' : 'bg-yellow-500'}`} />
+          <span>
+            {STATUS_LABELS[status]} • Last updated: {new Date(lastUpdated).toLocaleString()}
+          </span>
+        </div>
+      </div>
+
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -94,73 +176,155 @@ export default function ClientRecordsViewer({ initialRecords }: ClientRecordsVie
             </div>
           </div>
 
-          <div className="md:w-56">
+          <div className="md:w-72">
             <label htmlFor="sort" className="mb-3 block text-sm font-medium text-gray-300">
               Sort By
             </label>
-            <div className="relative">
-              <select
-                id="sort"
-                value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as 'date' | 'type' | 'sensitivity')}
-                className="w-full appearance-none rounded-xl border px-4 py-3.5 pl-4 pr-10 text-white shadow-lg transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <select
+                  id="sort"
+                  value={query.sort}
+                  onChange={(e) => {
+                    const sort = e.target.value as SortField;
+                    updateQuery({ sort, order: defaultOrderFor(sort) });
+                  }}
+                  className="w-full appearance-none rounded-xl border px-4 py-3.5 pl-4 pr-10 text-white shadow-lg transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                  style={{
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                    borderColor: 'rgba(255, 255, 255, 0.1)',
+                    backdropFilter: 'blur(10px)',
+                  }}
+                >
+                  <option value="date" className="bg-gray-900">Date</option>
+                  <option value="type" className="bg-gray-900">Type</option>
+                  <option value="sensitivity" className="bg-gray-900">Sensitivity</option>
+                  <option value="title" className="bg-gray-900">Title</option>
+                </select>
+                <svg 
+                  className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" 
+                  fill="none" 
+                  stroke="currentColor" 
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+              <motion.button
+                type="button"
+                onClick={() => updateQuery({ order: query.order === 'asc' ? 'desc' : 'asc' })}
+                whileTap={{ scale: 0.95 }}
+                aria-label={query.order === 'asc' ? 'Ascending; switch to descending' : 'Descending; switch to ascending'}
+                title={query.order === 'asc' ? 'Ascending' : 'Descending'}
+                className="flex w-14 items-center justify-center rounded-xl border text-gray-300 shadow-lg transition-colors duration-200 hover:text-white"
                 style={{
                   backgroundColor: 'rgba(255, 255, 255, 0.05)',
                   borderColor: 'rgba(255, 255, 255, 0.1)',
                   backdropFilter: 'blur(10px)',
                 }}
               >
-                <option value="date" className="bg-gray-900">Date</option>
-                <option value="type" className="bg-gray-900">Type</option>
-                <option value="sensitivity" className="bg-gray-900">Sensitivity</option>
-              </select>
-              <svg 
-                className="absolute right-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" 
-                fill="none" 
-                stroke="currentColor" 
-                viewBox="0 0 24 24"
-              >
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-              </svg>
+                <motion.svg
+                  animate={{ rotate: query.order === 'asc' ? 0 : 180 }}
+                  transition={{ duration: 0.2 }}
+                  className="w-5 h-5"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19V5m0 0l-6 6m6-6l6 6" />
+                </motion.svg>
+              </motion.button>
             </div>
           </div>
         </div>
 
-        <AnimatePresence mode="wait">
-          <motion.div
-            key={filteredAndSortedRecords.length}
-            initial={{ opacity: 0, x: -10 }}
-            animate={{ opacity: 1, x: 0 }}
-            exit={{ opacity: 0, x: 10 }}
-            transition={{ duration: 0.2 }}
-          >
-            <div className="flex items-center gap-2 text-sm">
-              <span className="text-gray-400">Showing</span>
-              <span className="px-2 py-0.5 rounded-md bg-blue-500/20 text-blue-400 font-semibold">
-                {filteredAndSortedRecords.length}
-              </span>
-              <span className="text-gray-400">of</span>
-              <span className="px-2 py-0.5 rounded-md bg-white/10 text-white font-semibold">
-                {initialRecords.length}
-              </span>
-              <span className="text-gray-400">records</span>
+        <div className="mb-6 grid gap-6 border-t border-white/10 pt-6 md:grid-cols-2 lg:grid-cols-3">
+          <FacetChips
+            label="Type"
+            options={TAXONOMY.types}
+            selected={query.type ?? []}
+            onToggle={(value) => toggleFacet('type', value)}
+          />
+          <FacetChips
+            label="Sensitivity"
+            options={TAXONOMY.sensitivity}
+            selected={query.sensitivity ?? []}
+            onToggle={(value) => toggleFacet('sensitivity', value)}
+          />
+          <div role="group" aria-label="Date range">
+            <p className="mb-3 text-sm font-medium text-gray-300">Date</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                aria-label="From date"
+                value={query.from ?? ''}
+                max={query.to}
+                onChange={(e) => updateDateRange('from', e.target.value)}
+                className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
+              <span className="text-gray-500">–</span>
+              <input
+                type="date"
+                aria-label="To date"
+                value={query.to ?? ''}
+                min={query.from}
+                onChange={(e) => updateDateRange('to', e.target.value)}
+                className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white [color-scheme:dark] focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+              />
             </div>
-          </motion.div>
-        </AnimatePresence>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={`${page.records.length}/${page.total}`}
+              initial={{ opacity: 0, x: -10 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 10 }}
+              transition={{ duration: 0.2 }}
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-400">Showing</span>
+                <span className="px-2 py-0.5 rounded-md bg-blue-500/20 text-blue-400 font-semibold">
+                  {page.records.length}
+                </span>
+                <span className="text-gray-400">of</span>
+                <span className="px-2 py-0.5 rounded-md bg-white/10 text-white font-semibold">
+                  {page.total}
+                </span>
+                <span className="text-gray-400">records</span>
+              </div>
+            </motion.div>
+          </AnimatePresence>
+
+          <div className="flex items-center gap-4 text-sm">
+            {hasFilters && (
+              <button
+                type="button"
+                onClick={clearFilters}
+                className="text-blue-400 transition-colors hover:text-blue-300"
+              >
+                Clear filters
+              </button>
+            )}
+            <ExportMenu query={query} />
+          </div>
+        </div>
       </motion.div>
 
         {/* Responsive card grid: 1 col mobile, 2 tablet, 3 desktop */}
         <AnimatePresence mode="wait">
-        {filteredAndSortedRecords.length > 0 ? (
+        {page.records.length > 0 ? (
           <motion.div
             initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
+            animate={{ opacity: isPending ? 0.6 : 1 }}
             exit={{ opacity: 0 }}
             transition={{ duration: 0.3 }}
             className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-3"
           >
             <AnimatePresence mode="popLayout">
-              {filteredAndSortedRecords.map((record, index) => (
+              {page.records.map((record, index) => (
                 <RecordCard key={record.id} record={record} index={index} />
               ))}
             </AnimatePresence>
@@ -192,6 +356,31 @@ export default function ClientRecordsViewer({ initialRecords }: ClientRecordsVie
           </motion.div>
         )}
       </AnimatePresence>
+
+      {(query.cursor || nextCursor) && (
+        <div className="flex items-center justify-between gap-4 text-sm">
+          {query.cursor ? (
+            <Link
+              href={pageHref()}
+              scroll={false}
+              className="rounded-xl border border-white/10 bg-white/5 px-5 py-2.5 font-medium text-gray-300 transition-colors hover:bg-white/10"
+            >
+              ← First page
+            </Link>
+          ) : (
+            <span />
+          )}
+          {nextCursor && (
+            <Link
+              href={pageHref(nextCursor)}
+              scroll={false}
+              className="rounded-xl border border-white/10 bg-white/5 px-5 py-2.5 font-medium text-gray-300 transition-colors hover:bg-white/10"
+            >
+              Next page →
+            </Link>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,152 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ENCRYPTED_EXPORT_LEVELS, MIN_EXPORT_PASSPHRASE_LENGTH, type ExportFormat } from '@/lib/export-formats';
+import { toSearchParams, type RecordQuery } from '@/lib/records/query';
+
+interface ExportMenuProps {
+  query: RecordQuery; // Filters of the current view; every matching record is exported
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  encrypted: 'Encrypted (passphrase)',
+};
+
+function filenameFrom(response: Response, fallback: string): string {
+  const match = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '');
+  return match?.[1] ?? fallback;
+}
+
+// Saves a response body through a temporary object URL
+async function download(response: Response, fallbackName: string) {
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filenameFrom(response, fallbackName);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export button with a small form for the format and, for encrypted exports,
+// the passphrase. Posts to /api/export with the view's filters.
+export default function ExportMenu({ query }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [passphrase, setPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      const params = toSearchParams({ ...query, cursor: undefined }).toString();
+      const response = await fetch(params ? `/api/export?${params}` : '/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(format === 'encrypted' ? { format, passphrase } : { format }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError([body?.error ?? `Export failed (${response.status})`, ...(body?.details ?? [])].join(': '));
+        return;
+      }
+
+      await download(response, `records-export.${format === 'encrypted' ? 'json.enc' : format}`);
+      setPassphrase('');
+      setIsOpen(false);
+    } catch {
+      setError('Export failed. Check your connection and try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const passphraseTooShort = format === 'encrypted' && [...passphrase].length < MIN_EXPORT_PASSPHRASE_LENGTH;
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="rounded-xl border border-white/10 bg-white/5 px-4 py-2 text-sm font-medium text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+      >
+        Export ↓
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.form
+            onSubmit={submit}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 z-20 mt-2 w-72 space-y-4 rounded-2xl border border-white/10 bg-gray-950/95 p-4 shadow-2xl backdrop-blur-xl"
+          >
+            <fieldset className="space-y-2">
+              <legend className="mb-2 text-sm font-medium text-gray-300">Format</legend>
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm text-gray-300">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    value={option}
+                    checked={format === option}
+                    onChange={() => setFormat(option)}
+                  />
+                  {FORMAT_LABELS[option]}
+                </label>
+              ))}
+            </fieldset>
+
+            {format === 'encrypted' && (
+              <div>
+                <label htmlFor="export-passphrase" className="mb-2 block text-sm font-medium text-gray-300">
+                  Passphrase
+                </label>
+                <input
+                  id="export-passphrase"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="w-full rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  At least {MIN_EXPORT_PASSPHRASE_LENGTH} characters. Decrypt with <code>npm run keys -- decrypt-export</code>.
+                </p>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">Exports every record matching the current filters that you are cleared for.</p>
+
+            {format !== 'encrypted' && (
+              <p className="text-xs text-gray-500">
+                Masked fields are left empty.
+                {ENCRYPTED_EXPORT_LEVELS.length > 0 && ` ${ENCRYPTED_EXPORT_LEVELS.join(', ')} records can only be exported encrypted.`}
+              </p>
+            )}
+
+            {error && <p role="alert" className="text-xs text-red-400">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={isExporting || passphraseTooShort}
+              className="w-full rounded-xl px-4 py-2 text-sm font-semibold text-white transition-opacity disabled:cursor-not-allowed disabled:opacity-40"
+              style={{ background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)' }}
+            >
+              {isExporting ? 'Exporting…' : 'Download'}
+            </button>
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
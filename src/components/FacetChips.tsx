@@ -0,0 +1,41 @@
+'use client';
+
+import { motion } from 'framer-motion';
+
+interface FacetChipsProps {
+  label: string;
+  options: { id: string; label: string }[];
+  selected: string[]; // Selected option ids
+  onToggle: (value: string) => void;
+}
+
+// A row of toggleable filter chips; any selected value matches (OR)
+export default function FacetChips({ label, options, selected, onToggle }: FacetChipsProps) {
+  return (
+    <div role="group" aria-label={label}>
+      <p className="mb-3 text-sm font-medium text-gray-300">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {options.map((option) => {
+          const isSelected = selected.includes(option.id);
+          return (
+            <motion.button
+              key={option.id}
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => onToggle(option.id)}
+              whileTap={{ scale: 0.95 }}
+              className={`rounded-full border px-3 py-1.5 text-sm transition-colors duration-200 ${
+                isSelected
+                  ? 'border-blue-500/50 bg-blue-500/20 text-blue-300'
+                  : 'border-white/10 bg-white/5 text-gray-400 hover:bg-white/10 hover:text-gray-200'
+              }`}
+            >
+              {isSelected && <span aria-hidden="true" className="mr-1">✓</span>}
+              {option.label}
+            </motion.button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
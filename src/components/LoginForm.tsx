@@ -0,0 +1,90 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useTransition, type FormEvent } from 'react';
+import { motion } from 'framer-motion';
+
+// Username/password form that signs in through /api/auth/login
+export default function LoginForm() {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError(body?.error ?? 'Sign in failed');
+        return;
+      }
+      router.push('/');
+      router.refresh();
+    });
+  };
+
+  const inputClassName =
+    'w-full rounded-xl border border-white/10 bg-white/5 px-4 py-3 text-white placeholder-gray-500 outline-none transition-colors focus:border-blue-500/50';
+
+  return (
+    <motion.form
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.5 }}
+      onSubmit={handleSubmit}
+      className="w-full max-w-md space-y-5 rounded-3xl border p-10"
+      style={{
+        backgroundColor: 'rgba(255, 255, 255, 0.03)',
+        backdropFilter: 'blur(20px)',
+        borderColor: 'rgba(255, 255, 255, 0.1)',
+      }}
+    >
+      <h1 className="text-center text-3xl font-bold text-white">Sign in</h1>
+      <p className="text-center text-sm text-gray-400">Records are shown up to your role&apos;s clearance</p>
+
+      <input
+        type="text"
+        autoComplete="username"
+        placeholder="Username"
+        value={username}
+        onChange={(event) => setUsername(event.target.value)}
+        className={inputClassName}
+        required
+      />
+      <input
+        type="password"
+        autoComplete="current-password"
+        placeholder="Password"
+        value={password}
+        onChange={(event) => setPassword(event.target.value)}
+        className={inputClassName}
+        required
+      />
+
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="w-full rounded-xl px-6 py-3 font-semibold text-white transition-opacity disabled:opacity-50"
+        style={{ background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)' }}
+      >
+        {isPending ? 'Signing in…' : 'Sign in'}
+      </button>
+    </motion.form>
+  );
+}
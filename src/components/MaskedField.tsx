@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { revealField } from '@/app/records/actions';
+import type { MaskableField } from '@/lib/records/schema';
+import { REVEAL_TIMEOUT_SECONDS } from '@/lib/records/masking';
+
+interface MaskedFieldProps {
+  recordId: string;
+  field: MaskableField;
+  label: string; // Field name for the button's accessible label
+}
+
+const MASK = '••••••••••';
+
+// A masked field with a Reveal button. Revealing asks the server for the
+// plaintext through a server action; it is shown for REVEAL_TIMEOUT_SECONDS
+// and then masked again, and is never kept beyond that.
+export default function MaskedField({ recordId, field, label }: MaskedFieldProps) {
+  const [value, setValue] = useState<string | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isRevealing, startTransition] = useTransition();
+
+  // Counts down while the value is shown; the last tick drops it
+  useEffect(() => {
+    if (value === null) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      if (secondsLeft <= 1) {
+        setValue(null);
+      }
+      setSecondsLeft(secondsLeft - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [value, secondsLeft]);
+
+  const reveal = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await revealField(recordId, field);
+      if (result.ok) {
+        setValue(result.value);
+        setSecondsLeft(REVEAL_TIMEOUT_SECONDS);
+      } else {
+        setError(result.error);
+      }
+    });
+  };
+
+  const hide = () => {
+    setValue(null);
+    setSecondsLeft(0);
+  };
+
+  if (value !== null) {
+    return (
+      <span className="inline-flex flex-wrap items-center gap-2">
+        <span>{value}</span>
+        <button
+          type="button"
+          onClick={hide}
+          className="rounded-lg border border-white/10 bg-white/5 px-2 py-0.5 text-xs font-medium text-gray-400 transition-colors hover:text-white"
+        >
+          Hide ({secondsLeft}s)
+        </button>
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-2">
+      <span aria-label={`${label} masked`} className="tracking-widest text-gray-500">
+        {MASK}
+      </span>
+      <button
+        type="button"
+        onClick={reveal}
+        disabled={isRevealing}
+        aria-label={`Reveal ${label}`}
+        className="rounded-lg border border-white/10 bg-white/5 px-2 py-0.5 text-xs font-medium text-gray-300 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-wait disabled:opacity-50"
+      >
+        {isRevealing ? 'Revealing…' : 'Reveal'}
+      </button>
+      {error && (
+        <span role="alert" className="w-full text-xs font-normal text-red-400">
+          {error}
+        </span>
+      )}
+    </span>
+  );
+}
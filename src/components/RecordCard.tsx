@@ -1,62 +1,28 @@
 'use client';
 
+import Link from 'next/link';
 import { motion } from 'framer-motion';
-
-interface RecordItem {
-  id: string;
-  title: string;
-  type: string;
-  sensitivity: string;
-  date: string;
-}
+import type { RecordView } from '@/lib/records/schema';
+import MaskedField from './MaskedField';
+import { colorsFor, iconFor, recordHref, recordLayoutId, sensitivityLabel, typeLabel } from './recordTheme';
 
 interface RecordCardProps {
-  record: RecordItem;
+  record: RecordView;
   index: number; // Used for staggered animation timing
 }
 
-// Color scheme for different sensitivity levels
-const sensitivityColors: Record<string, { bg: string; text: string; badge: string; glow: string }> = {
-  'Confidential': {
-    bg: 'from-yellow-500/10 to-orange-500/5',
-    text: 'text-yellow-400',
-    badge: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
-    glow: 'shadow-yellow-500/20',
-  },
-  'Private': {
-    bg: 'from-orange-500/10 to-red-500/5',
-    text: 'text-orange-400',
-    badge: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
-    glow: 'shadow-orange-500/20',
-  },
-  'Highly Confidential': {
-    bg: 'from-red-500/10 to-pink-500/5',
-    text: 'text-red-400',
-    badge: 'bg-red-500/20 text-red-400 border-red-500/30',
-    glow: 'shadow-red-500/20',
-  },
-};
-
-// Emoji icons for different record types
-const typeIcons: Record<string, string> = {
-  'Survey': '📋',
-  'Record': '📄',
-  'Report': '📊',
-};
-
-// Record card with glassmorphism and animations
+// Record card with glassmorphism and animations. Cards the user is cleared
+// for link to /records/[id]; the card, icon and title share layoutIds with
+// that page so they animate into place.
 export default function RecordCard({ record, index }: RecordCardProps) {
-  const colors = sensitivityColors[record.sensitivity] || {
-    bg: 'from-gray-500/10 to-gray-500/5',
-    text: 'text-gray-400',
-    badge: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
-    glow: 'shadow-gray-500/20',
-  };
-
-  const icon = typeIcons[record.type] || '📋';
+  const colors = colorsFor(record.sensitivity);
+  const icon = iconFor(record.type);
+  const isTitleSealed = record.sealedFields?.includes('title') ?? false;
+  const isTitleMasked = record.maskedFields?.includes('title') ?? false;
 
   return (
     <motion.div
+      layout
       initial={{ opacity: 0, y: 50, x: -100, scale: 0.8, rotate: -10 }}
       animate={{ 
         opacity: 1, 
@@ -80,7 +46,8 @@ export default function RecordCard({ record, index }: RecordCardProps) {
       }}
       className="group"
     >
-      <div
+      <motion.div
+        layoutId={record.redacted ? undefined : recordLayoutId(record.id, 'card')}
         className="relative h-full overflow-hidden rounded-2xl border p-6 shadow-lg transition-all duration-300 group-hover:shadow-2xl"
         style={{
           borderColor: 'rgba(255, 255, 255, 0.1)',
@@ -95,7 +62,8 @@ export default function RecordCard({ record, index }: RecordCardProps) {
         <div className="relative z-10">
           <div className="mb-4 flex items-start justify-between">
             <div className="flex items-center gap-2">
-              <div 
+              <motion.div
+                layoutId={record.redacted ? undefined : recordLayoutId(record.id, 'icon')}
                 className="flex h-12 w-12 items-center justify-center rounded-xl text-2xl"
                 style={{ 
                   backgroundColor: 'rgba(255, 255, 255, 0.05)',
@@ -103,19 +71,34 @@ export default function RecordCard({ record, index }: RecordCardProps) {
                 }}
               >
                 {icon}
-              </div>
+              </motion.div>
               <div>
                 <p className={`text-xs font-semibold uppercase tracking-wider ${colors.text}`}>
-                  {record.sensitivity}
+                  {sensitivityLabel(record.sensitivity)}
                 </p>
-                <p className="text-xs text-gray-500">{record.type}</p>
+                <p className="text-xs text-gray-500">{typeLabel(record.type)}</p>
               </div>
             </div>
           </div>
 
-          <h3 className="mb-3 text-xl font-bold text-white group-hover:text-blue-400 transition-colors">
-            {record.title}
-          </h3>
+          {record.redacted ? (
+            <h3 className="mb-3 flex items-center gap-2 text-xl font-bold italic text-gray-500">
+              <span aria-hidden="true">⛔</span>
+              Redacted (above your clearance)
+            </h3>
+          ) : isTitleSealed ? (
+            <h3 className="mb-3 flex items-center gap-2 text-xl font-bold italic text-gray-500">
+              <span aria-hidden="true">🔒</span>
+              Sealed ({sensitivityLabel(record.sensitivity)} key required)
+            </h3>
+          ) : (
+            <motion.h3
+              layoutId={recordLayoutId(record.id, 'title')}
+              className="mb-3 text-xl font-bold text-white group-hover:text-blue-400 transition-colors"
+            >
+              {isTitleMasked ? <MaskedField recordId={record.id} field="title" label="title" /> : record.title}
+            </motion.h3>
+          )}
 
           <div className="mb-6 flex items-center gap-2 text-sm text-gray-400">
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -130,34 +113,44 @@ export default function RecordCard({ record, index }: RecordCardProps) {
             </span>
           </div>
 
-          <motion.button
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-            className="w-full rounded-xl px-6 py-3 font-semibold text-white transition-all duration-300"
-            style={{
-              background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
-              boxShadow: '0 10px 25px -5px rgba(59, 130, 246, 0.3)',
-            }}
-            onMouseEnter={(e) => {
-              e.currentTarget.style.boxShadow = '0 15px 35px -5px rgba(59, 130, 246, 0.4)';
-            }}
-            onMouseLeave={(e) => {
-              e.currentTarget.style.boxShadow = '0 10px 25px -5px rgba(59, 130, 246, 0.3)';
-            }}
-          >
-            <span className="flex items-center justify-center gap-2">
+          {record.redacted ? (
+            <button
+              disabled
+              className="w-full rounded-xl px-6 py-3 font-semibold text-white cursor-not-allowed opacity-40"
+              style={{ background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)' }}
+            >
               View Details
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-              </svg>
-            </span>
-          </motion.button>
+            </button>
+          ) : (
+            <Link href={recordHref(record.id)} className="block">
+              <motion.span
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                className="flex w-full items-center justify-center gap-2 rounded-xl px-6 py-3 font-semibold text-white transition-all duration-300"
+                style={{
+                  background: 'linear-gradient(135deg, #3b82f6 0%, #06b6d4 100%)',
+                  boxShadow: '0 10px 25px -5px rgba(59, 130, 246, 0.3)',
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.boxShadow = '0 15px 35px -5px rgba(59, 130, 246, 0.4)';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.boxShadow = '0 10px 25px -5px rgba(59, 130, 246, 0.3)';
+                }}
+              >
+                View Details
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              </motion.span>
+            </Link>
+          )}
         </div>
 
         <div className="absolute top-0 right-0 h-24 w-24 overflow-hidden">
           <div className={`absolute -right-12 -top-12 h-24 w-24 rounded-full bg-gradient-to-br ${colors.bg} opacity-30 blur-2xl`} />
         </div>
-      </div>
+      </motion.div>
     </motion.div>
   );
 }
@@ -0,0 +1,121 @@
+'use client';
+
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import type { RecordView } from '@/lib/records/schema';
+import { getSensitivityLevel } from '@/lib/records/taxonomy';
+import MaskedField from './MaskedField';
+import { colorsFor, iconFor, recordLayoutId, sensitivityLabel, typeLabel } from './recordTheme';
+
+interface RecordDetailProps {
+  record: RecordView; // Masked and sealed fields arrive empty and are listed in maskedFields / sealedFields
+  decryptedAt: string; // ISO timestamp of the server-side decryption
+}
+
+// Full view of a single record. The card, icon and title share layoutIds with
+// the RecordCard it was opened from, so the card grows into this panel.
+export default function RecordDetail({ record, decryptedAt }: RecordDetailProps) {
+  const colors = colorsFor(record.sensitivity);
+  const handling = getSensitivityLevel(record.sensitivity)?.handling ?? [];
+  const fields: [string, string][] = [
+    ['Record ID', record.id],
+    ['Type', typeLabel(record.type)],
+    ['Sensitivity', sensitivityLabel(record.sensitivity)],
+    [
+      'Date',
+      new Date(record.date).toLocaleDateString('en-US', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+      }),
+    ],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Link href="/" className="inline-flex items-center gap-2 text-sm text-gray-400 transition-colors hover:text-white">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+        </svg>
+        All records
+      </Link>
+
+      <motion.article
+        layoutId={recordLayoutId(record.id, 'card')}
+        className={`relative overflow-hidden rounded-2xl border p-8 shadow-2xl ${colors.glow}`}
+        style={{
+          borderColor: 'rgba(255, 255, 255, 0.1)',
+          backdropFilter: 'blur(20px)',
+          background: 'linear-gradient(135deg, rgba(255, 255, 255, 0.05), rgba(255, 255, 255, 0.02))',
+        }}
+      >
+        <div className={`absolute -right-24 -top-24 h-48 w-48 rounded-full bg-gradient-to-br ${colors.bg} opacity-40 blur-3xl`} />
+
+        <div className="relative z-10">
+          <div className="mb-6 flex items-center gap-4">
+            <motion.div
+              layoutId={recordLayoutId(record.id, 'icon')}
+              className="flex h-16 w-16 items-center justify-center rounded-2xl text-3xl"
+              style={{ backgroundColor: 'rgba(255, 255, 255, 0.05)', backdropFilter: 'blur(10px)' }}
+            >
+              {iconFor(record.type)}
+            </motion.div>
+            <span className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-wider ${colors.badge}`}>
+              {sensitivityLabel(record.sensitivity)}
+            </span>
+          </div>
+
+          {record.sealedFields?.includes('title') ? (
+            <h1 className="mb-8 flex items-center gap-3 text-3xl sm:text-4xl font-bold italic text-gray-500">
+              <span aria-hidden="true">🔒</span>
+              Sealed ({sensitivityLabel(record.sensitivity)} key required)
+            </h1>
+          ) : (
+            <motion.h1
+              layoutId={recordLayoutId(record.id, 'title')}
+              className="mb-8 text-3xl sm:text-4xl font-bold text-white"
+            >
+              {record.maskedFields?.includes('title') ? (
+                <MaskedField recordId={record.id} field="title" label="title" />
+              ) : (
+                record.title
+              )}
+            </motion.h1>
+          )}
+
+          <motion.dl
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2, duration: 0.4 }}
+            className="grid gap-4 sm:grid-cols-2"
+          >
+            {fields.map(([label, value]) => (
+              <div key={label} className="rounded-xl border border-white/10 bg-white/5 p-4">
+                <dt className="text-xs uppercase tracking-wider text-gray-500">{label}</dt>
+                <dd className="mt-1 break-all font-medium text-gray-200">{value}</dd>
+              </div>
+            ))}
+          </motion.dl>
+
+          {handling.length > 0 && (
+            <section className={`mt-6 rounded-xl border p-4 ${colors.badge}`}>
+              <h2 className="mb-2 text-xs font-semibold uppercase tracking-wider">Handling</h2>
+              <ul className="list-disc space-y-1 pl-5 text-sm">
+                {handling.map((rule) => (
+                  <li key={rule}>{rule}</li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <p className="mt-8 flex items-center gap-2 text-xs text-gray-500">
+            <span aria-hidden="true">🔓</span>
+            Decrypted on the server at {new Date(decryptedAt).toLocaleString()}
+          </p>
+        </div>
+      </motion.article>
+    </div>
+  );
+}
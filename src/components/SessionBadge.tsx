@@ -0,0 +1,40 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTransition } from 'react';
+
+interface SessionBadgeProps {
+  user: { username: string; role: string };
+}
+
+// Shows the signed-in user and role, with a sign-out button
+export default function SessionBadge({ user }: SessionBadgeProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const signOut = () => {
+    startTransition(async () => {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/login');
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="inline-flex items-center gap-3 rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-gray-300">
+      <span>
+        Signed in as <span className="font-semibold text-white">{user.username}</span>
+        <span className="ml-2 rounded-full border border-blue-500/30 bg-blue-500/10 px-2 py-0.5 text-xs uppercase tracking-wider text-blue-300">
+          {user.role}
+        </span>
+      </span>
+      <button
+        onClick={signOut}
+        disabled={isPending}
+        className="text-gray-400 transition-colors hover:text-white disabled:opacity-50"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
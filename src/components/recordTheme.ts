@@ -0,0 +1,36 @@
+import {
+  getRecordType,
+  getSensitivityLevel,
+  UNKNOWN_SENSITIVITY_COLORS,
+  UNKNOWN_TYPE_ICON,
+  type SensitivityColors,
+} from '@/lib/records/taxonomy';
+
+// Presentation helpers shared by the record card and the record detail page.
+// Colors, icons and labels come from the record taxonomy.
+
+export function colorsFor(sensitivity: string): SensitivityColors {
+  return getSensitivityLevel(sensitivity)?.colors ?? UNKNOWN_SENSITIVITY_COLORS;
+}
+
+export function iconFor(type: string): string {
+  return getRecordType(type)?.icon ?? UNKNOWN_TYPE_ICON;
+}
+
+export function sensitivityLabel(sensitivity: string): string {
+  return getSensitivityLevel(sensitivity)?.label ?? sensitivity;
+}
+
+export function typeLabel(type: string): string {
+  return getRecordType(type)?.label ?? type;
+}
+
+// layoutIds linking a card to its detail page, so framer-motion animates the
+// card into the page when navigating between them
+export function recordLayoutId(id: string, part: 'card' | 'icon' | 'title'): string {
+  return `record-${part}-${id}`;
+}
+
+export function recordHref(id: string): string {
+  return `/records/${encodeURIComponent(id)}`;
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+const MAX_AUTO_RETRIES = 3;
+const BASE_DELAY_SECONDS = 5;
+
+// Retries survive the error boundary remounting, so they are counted per page load
+let attempts = 0;
+
+// Counts down and calls retry, doubling the delay each time, up to
+// MAX_AUTO_RETRIES per page load. Returns the seconds left, or null when idle.
+export default function useAutoRetry(enabled: boolean, retry: () => void): number | null {
+  const [secondsLeft, setSecondsLeft] = useState(() => BASE_DELAY_SECONDS * 2 ** attempts);
+
+  useEffect(() => {
+    if (!enabled || attempts >= MAX_AUTO_RETRIES) {
+      return;
+    }
+
+    let remaining = BASE_DELAY_SECONDS * 2 ** attempts;
+    const timer = setInterval(() => {
+      remaining -= 1;
+      setSecondsLeft(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        attempts += 1;
+        retry();
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [enabled, retry]);
+
+  return enabled && attempts < MAX_AUTO_RETRIES ? secondsLeft : null;
+}
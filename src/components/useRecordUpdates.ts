@@ -0,0 +1,106 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ViewerRecordUpdate } from '@/lib/records/schema';
+import { createServerSentEventParser, SSE_CONTENT_TYPE } from '@/lib/sse';
+
+export type UpdatesStatus = 'connecting' | 'live' | 'reconnecting' | 'stopped';
+
+// Reconnection delay after a stream ends, doubled after each failed attempt
+// up to the maximum. A 429's Retry-After is waited out in full.
+const RETRY_MS = 3000;
+const MAX_RETRY_MS = 60_000;
+
+function retryAfterMs(response: Response): number {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+// Subscribes to /api/updates with the viewer's query string, starting from
+// lastEventId: the feed position the page was rendered at, so changes made
+// between the render and the connection are replayed. The stream is read with
+// fetch rather than EventSource, so that first Last-Event-ID can be sent and
+// refusals told apart: a 401 or other client error stops the updates, a 429
+// waits for Retry-After, and other failures back off. Reconnections send the
+// last event ID seen. When the server can't replay (a `reset` event), changes
+// were lost and onResync runs. Returns the connection status.
+export default function useRecordUpdates(
+  params: string,
+  lastEventId: string | null,
+  onUpdate: (update: ViewerRecordUpdate) => void,
+  onResync: () => void
+): UpdatesStatus {
+  const [status, setStatus] = useState<UpdatesStatus>('connecting');
+  // The latest render's values, so a re-render doesn't reconnect
+  const latest = useRef({ lastEventId, onUpdate, onResync });
+  useEffect(() => {
+    latest.current = { lastEventId, onUpdate, onResync };
+  });
+
+  useEffect(() => {
+    const abort = new AbortController();
+    let eventId = latest.current.lastEventId;
+    let failures = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const reconnect = (minimumMs = 0) => {
+      setStatus('reconnecting');
+      const backoffMs = Math.min(RETRY_MS * 2 ** failures++, MAX_RETRY_MS);
+      reconnectTimer = setTimeout(connect, Math.max(minimumMs, backoffMs));
+    };
+
+    const read = async (body: ReadableStream<Uint8Array>) => {
+      const reader = body.pipeThrough(createServerSentEventParser()).getReader();
+      for (let next = await reader.read(); !next.done; next = await reader.read()) {
+        const { id, event, data } = next.value;
+        if (id) {
+          eventId = id;
+        }
+        if (event === 'change') {
+          latest.current.onUpdate(JSON.parse(data));
+        } else if (event === 'reset') {
+          latest.current.onResync();
+        }
+      }
+    };
+
+    const connect = async () => {
+      try {
+        const response = await fetch(params ? `/api/updates?${params}` : '/api/updates', {
+          cache: 'no-store',
+          headers: { Accept: SSE_CONTENT_TYPE, ...(eventId && { 'Last-Event-ID': eventId }) },
+          signal: abort.signal,
+        });
+        if (!response.ok || !response.body) {
+          await response.body?.cancel();
+          if (response.status === 429) {
+            reconnect(retryAfterMs(response));
+          } else if (response.status >= 400 && response.status < 500) {
+            // Signed out, or a query the server rejects; retrying won't help
+            setStatus('stopped');
+          } else {
+            reconnect();
+          }
+          return;
+        }
+
+        setStatus('live');
+        failures = 0;
+        await read(response.body);
+      } catch {
+        // The connection dropped; reconnect unless we are unmounting
+      }
+      if (!abort.signal.aborted) {
+        reconnect();
+      }
+    };
+
+    connect();
+    return () => {
+      clearTimeout(reconnectTimer);
+      abort.abort();
+    };
+  }, [params]);
+
+  return status;
+}
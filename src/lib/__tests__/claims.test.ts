@@ -0,0 +1,76 @@
+import { encrypt, decrypt } from '../encryption';
+import { ClaimValidationError, createMemoryReplayGuard, issueClaims, verifyClaims } from '../claims';
+
+describe('Payload claims', () => {
+  const testKey = 'test-encryption-key-for-unit-tests';
+  const testData = JSON.stringify({ id: '123', title: 'Test Record' });
+  const expectations = { route: '/api/encrypted-data', audience: 'records-viewer' };
+
+  function sealed(ttlSeconds = 60) {
+    const claims = issueClaims({ ...expectations, ttlSeconds });
+    return encrypt(testData, testKey, { claims });
+  }
+
+  function codeOf(action: () => unknown): string | undefined {
+    try {
+      action();
+    } catch (error) {
+      return error instanceof ClaimValidationError ? error.code : undefined;
+    }
+    return undefined;
+  }
+
+  it('should decrypt payloads whose claims match', () => {
+    expect(decrypt(sealed(), testKey, { expect: expectations })).toBe(testData);
+  });
+
+  it('should still decrypt without expectations', () => {
+    expect(decrypt(sealed(), testKey)).toBe(testData);
+  });
+
+  it('should reject payloads issued for another audience', () => {
+    const action = () => decrypt(sealed(), testKey, { expect: { ...expectations, audience: 'admin-tools' } });
+    expect(codeOf(action)).toBe('CLAIM_MISMATCH');
+  });
+
+  it('should reject payloads issued for another route', () => {
+    const action = () => decrypt(sealed(), testKey, { expect: { ...expectations, route: '/api/other' } });
+    expect(codeOf(action)).toBe('CLAIM_MISMATCH');
+  });
+
+  it('should reject expired payloads', () => {
+    const payload = sealed(60);
+    const now = Math.floor(Date.now() / 1000) + 3600;
+
+    expect(codeOf(() => decrypt(payload, testKey, { expect: { ...expectations, now } }))).toBe('PAYLOAD_EXPIRED');
+  });
+
+  it('should reject replayed payloads', () => {
+    const replayGuard = createMemoryReplayGuard();
+    const payload = sealed();
+
+    expect(decrypt(payload, testKey, { expect: { ...expectations, replayGuard } })).toBe(testData);
+    expect(codeOf(() => decrypt(payload, testKey, { expect: { ...expectations, replayGuard } }))).toBe('PAYLOAD_REPLAYED');
+  });
+
+  it('should reject payloads without claims when claims are expected', () => {
+    const payload = encrypt(testData, testKey);
+    expect(codeOf(() => decrypt(payload, testKey, { expect: expectations }))).toBe('CLAIMS_MISSING');
+  });
+
+  it('should detect tampering with the claims', () => {
+    const parts = sealed().split('.');
+    const header = JSON.parse(Buffer.from(parts[3], 'base64url').toString('utf8'));
+    header.ctx.exp += 3600;
+    parts[3] = Buffer.from(JSON.stringify(header)).toString('base64url');
+
+    const action = () => decrypt(parts.join('.'), testKey, { expect: expectations });
+    expect(action).toThrow();
+    expect(codeOf(action)).toBeUndefined();
+  });
+
+  it('should reject payloads issued in the future', () => {
+    const iat = Math.floor(Date.now() / 1000) + 3600;
+    expect(codeOf(() => verifyClaims({ iat, exp: iat + 60 }, {}))).toBe('PAYLOAD_NOT_YET_VALID');
+  });
+});
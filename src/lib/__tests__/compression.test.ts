@@ -0,0 +1,50 @@
+import zlib from 'zlib';
+import { compress, decompress, loadCompressionConfigFromEnv, MAX_DECOMPRESSED_BYTES } from '../compression';
+import { MalformedEnvelopeError } from '../decryption-errors';
+
+describe('compress', () => {
+  const plaintext = Buffer.from('record '.repeat(500));
+
+  it('should leave plaintexts alone when compression is off', () => {
+    expect(compress(plaintext, { algorithm: 'none', threshold: 0 })).toEqual({ data: plaintext });
+  });
+
+  it('should round-trip through decompress', () => {
+    const { data, algorithm } = compress(plaintext, { algorithm: 'deflate', threshold: 0 });
+
+    expect(algorithm).toBe('deflate');
+    expect(decompress(data, 'deflate')).toEqual(plaintext);
+  });
+});
+
+describe('decompress', () => {
+  it('should reject unknown algorithms', () => {
+    expect(() => decompress(Buffer.alloc(0), 'lzma')).toThrow(MalformedEnvelopeError);
+  });
+
+  it('should reject data that is not compressed', () => {
+    expect(() => decompress(Buffer.from('plain'), 'gzip')).toThrow('could not be decompressed with gzip');
+  });
+
+  it('should refuse to inflate past the size limit', () => {
+    const bomb = zlib.gzipSync(Buffer.alloc(MAX_DECOMPRESSED_BYTES + 1));
+    expect(() => decompress(bomb, 'gzip')).toThrow(MalformedEnvelopeError);
+  });
+});
+
+describe('loadCompressionConfigFromEnv', () => {
+  it('should default to no compression', () => {
+    expect(loadCompressionConfigFromEnv({})).toEqual({ algorithm: 'none', threshold: 1024 });
+  });
+
+  it('should read the algorithm and threshold', () => {
+    expect(loadCompressionConfigFromEnv({ ENCRYPTION_COMPRESSION: 'br', ENCRYPTION_COMPRESSION_THRESHOLD: '4096' }))
+      .toEqual({ algorithm: 'br', threshold: 4096 });
+  });
+
+  it('should reject unknown algorithms and bad thresholds', () => {
+    expect(() => loadCompressionConfigFromEnv({ ENCRYPTION_COMPRESSION: 'zstd' })).toThrow('ENCRYPTION_COMPRESSION');
+    expect(() => loadCompressionConfigFromEnv({ ENCRYPTION_COMPRESSION: 'br', NEXT_RUNTIME: 'edge' })).toThrow('edge runtime');
+    expect(() => loadCompressionConfigFromEnv({ ENCRYPTION_COMPRESSION_THRESHOLD: '-1' })).toThrow('ENCRYPTION_COMPRESSION_THRESHOLD');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { decryptPayload, encryptPayload } from '../api';
+import { ClaimValidationError, issueClaims } from '../claims';
+import { decryptWithDataKey, encryptWithDataKey, isDataKeyEnvelope, rewrapDataKey } from '../data-key-encryption';
+import { AuthenticationFailedError, MissingKeyError } from '../decryption-errors';
+import { decrypt, encrypt } from '../encryption';
+import { parseEnvelope, type EnvelopeV4 } from '../envelope';
+import { rewrapJson, rotateKeyring } from '../key-management';
+import { createLocalKeyProvider, readLocalKeyFile, setKeyProvider, writeLocalKeyFile, type KeyProvider } from '../key-provider';
+import { createKeyring } from '../keyring';
+
+const keyring = createKeyring({ default: crypto.randomBytes(32).toString('base64') }, 'default');
+const testData = JSON.stringify({ id: '123', title: 'Tëst Récord 🔐', sensitive: 'This is secret data' });
+
+function dataKeyOf(encrypted: string): EnvelopeV4['dataKey'] {
+  return (parseEnvelope(encrypted) as EnvelopeV4).dataKey;
+}
+
+// Relabels a payload's data key as wrapped by another key provider
+function fromProvider(encrypted: string, kp: string): string {
+  const parts = encrypted.split('.');
+  parts[1] = Buffer.from(JSON.stringify({ ...dataKeyOf(encrypted), kp })).toString('base64url');
+  return parts.join('.');
+}
+
+describe('envelope encryption with data keys', () => {
+  let dir: string;
+  let filePath: string;
+  let provider: KeyProvider;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'data-key-'));
+    filePath = path.join(dir, 'kek.json');
+    await writeLocalKeyFile(filePath, createKeyring({ first: crypto.randomBytes(32).toString('base64') }, 'first'));
+    provider = createLocalKeyProvider(filePath);
+  });
+
+  afterEach(async () => {
+    setKeyProvider(null);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function rotateKek(keyId: string) {
+    await writeLocalKeyFile(filePath, rotateKeyring(await readLocalKeyFile(filePath), { keyId }));
+  }
+
+  it('should round-trip through a wrapped data key', async () => {
+    const encrypted = await encryptWithDataKey(testData, provider);
+
+    expect(isDataKeyEnvelope(encrypted)).toBe(true);
+    expect(dataKeyOf(encrypted)).toMatchObject({ kp: 'local', kid: 'first' });
+    await expect(decryptWithDataKey(encrypted, provider)).resolves.toBe(testData);
+  });
+
+  it('should seal every payload under a fresh data key', async () => {
+    const first = await encryptWithDataKey(testData, provider);
+    const second = await encryptWithDataKey(testData, provider);
+
+    expect(dataKeyOf(first).wk).not.toBe(dataKeyOf(second).wk);
+  });
+
+  it('should check claims and keep compression', async () => {
+    const claims = issueClaims({ route: '/api/encrypted-data', audience: 'records-viewer', ttlSeconds: 60 });
+    const largeData = 'record '.repeat(500);
+    const encrypted = await encryptWithDataKey(largeData, provider, { claims, compression: { algorithm: 'gzip', threshold: 0 } });
+
+    expect(parseEnvelope(encrypted)).toMatchObject({ header: { zip: 'gzip', ctx: claims } });
+    await expect(decryptWithDataKey(encrypted, provider, { expect: { audience: 'records-viewer' } })).resolves.toBe(largeData);
+    await expect(decryptWithDataKey(encrypted, provider, { expect: { audience: 'other' } })).rejects.toThrow(ClaimValidationError);
+  });
+
+  it('should reject a data key swapped in from another payload', async () => {
+    const [target, other] = await Promise.all([encryptWithDataKey(testData, provider), encryptWithDataKey(testData, provider)]);
+    const parts = target.split('.');
+    parts[1] = other.split('.')[1];
+
+    await expect(decryptWithDataKey(parts.join('.'), provider)).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should refuse data keys from another provider', async () => {
+    const encrypted = fromProvider(await encryptWithDataKey(testData, provider), 'kms');
+
+    await expect(decryptWithDataKey(encrypted, provider)).rejects.toThrow(MissingKeyError);
+  });
+
+  it('should not be opened by keyring decryption', async () => {
+    const encrypted = await encryptWithDataKey(testData, provider);
+
+    expect(() => decrypt(encrypted, keyring)).toThrow(MissingKeyError);
+  });
+
+  describe('KEK rotation', () => {
+    it('should re-wrap the data key and keep the ciphertext', async () => {
+      const encrypted = await encryptWithDataKey(testData, provider);
+      await rotateKek('second');
+
+      const rewrapped = await rewrapDataKey(encrypted, provider);
+
+      expect(rewrapped).not.toBeNull();
+      expect(dataKeyOf(rewrapped!).kid).toBe('second');
+      expect(rewrapped!.split('.').slice(2)).toEqual(encrypted.split('.').slice(2));
+      await expect(decryptWithDataKey(rewrapped!, provider)).resolves.toBe(testData);
+      await expect(rewrapDataKey(rewrapped!, provider)).resolves.toBeNull();
+    });
+
+    it('should re-wrap every v4 envelope in a JSON value and leave the rest alone', async () => {
+      const stored = { records: [await encryptWithDataKey(testData, provider)], keyring: encrypt(testData, keyring), time: '10:30:00' };
+      await rotateKek('second');
+
+      const { value, report } = await rewrapJson(stored, provider);
+
+      expect(report).toEqual({ rewrapped: ['records[0]'], unchanged: [] });
+      expect(dataKeyOf((value as typeof stored).records[0]).kid).toBe('second');
+      expect(value).toMatchObject({ keyring: stored.keyring, time: '10:30:00' });
+    });
+
+    it('should name the envelope that fails to re-wrap', async () => {
+      const foreign = fromProvider(await encryptWithDataKey(testData, provider), 'kms');
+
+      await expect(rewrapJson({ records: [foreign] }, provider)).rejects.toThrow(/^records\[0\]: /);
+    });
+  });
+
+  describe('API payloads', () => {
+    const binding = { route: '/api/encrypted-data', audience: 'records-viewer' };
+
+    it('should seal with the configured key provider', async () => {
+      setKeyProvider(provider);
+      const encrypted = await encryptPayload({ ok: true }, keyring, binding);
+
+      expect(isDataKeyEnvelope(encrypted)).toBe(true);
+      await expect(decryptPayload(encrypted, keyring, { expect: { audience: 'records-viewer' } })).resolves.toBe('{"ok":true}');
+    });
+
+    it('should still open keyring envelopes with a key provider configured', async () => {
+      const encrypted = await encryptPayload({ ok: true }, keyring, binding);
+      setKeyProvider(provider);
+
+      expect(isDataKeyEnvelope(encrypted)).toBe(false);
+      await expect(decryptPayload(encrypted, keyring)).resolves.toBe('{"ok":true}');
+    });
+
+    it('should report a missing key provider', async () => {
+      const encrypted = await encryptWithDataKey(testData, provider);
+
+      await expect(decryptPayload(encrypted, keyring)).rejects.toThrow(MissingKeyError);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import {
+  AuthenticationFailedError,
+  DECRYPTION_ERROR_CODES,
+  DECRYPTION_ERROR_GUIDANCE,
+  decryptionErrorDigest,
+  getDecryptionErrorCode,
+  MalformedEnvelopeError,
+  UnknownKeyIdError,
+} from '../decryption-errors';
+import { decrypt, encrypt } from '../encryption';
+import { createKeyring } from '../keyring';
+import { SchemaValidationError } from '../records/schema';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+
+function thrownBy(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the function to throw');
+}
+
+describe('decryption errors', () => {
+  it('should classify unparseable envelopes as malformed', () => {
+    const error = thrownBy(() => decrypt('not-an-envelope', testKey));
+
+    expect(error).toBeInstanceOf(MalformedEnvelopeError);
+    expect(error).toMatchObject({ code: 'MALFORMED_ENVELOPE', digest: 'DECRYPTION_ERROR;MALFORMED_ENVELOPE' });
+  });
+
+  it('should classify unsupported algorithms and hostile KDF parameters as malformed', () => {
+    const parts = encrypt('data', testKey).split('.');
+    expect(thrownBy(() => decrypt([parts[0], parts[1], 'A128CBC', ...parts.slice(3)].join('.'), testKey))).toBeInstanceOf(
+      MalformedEnvelopeError
+    );
+
+    const header = { kdf: 'scrypt', salt: Buffer.alloc(16).toString('base64'), N: 2 ** 30, r: 8, p: 1 };
+    parts[3] = Buffer.from(JSON.stringify(header)).toString('base64url');
+    expect(thrownBy(() => decrypt(parts.join('.'), testKey))).toBeInstanceOf(MalformedEnvelopeError);
+  });
+
+  it('should classify tampered payloads and wrong secrets as authentication failures', () => {
+    const encrypted = encrypt('data', testKey);
+    const parts = encrypted.split('.');
+    parts[6] = Buffer.from('other').toString('base64');
+
+    expect(thrownBy(() => decrypt(parts.join('.'), testKey))).toBeInstanceOf(AuthenticationFailedError);
+    expect(thrownBy(() => decrypt(encrypted, 'wrong-key'))).toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+  });
+
+  it('should classify key IDs missing from the keyring', () => {
+    const encrypted = encrypt('data', createKeyring({ other: testKey }, 'other'));
+    const error = thrownBy(() => decrypt(encrypted, testKey));
+
+    expect(error).toBeInstanceOf(UnknownKeyIdError);
+    expect(error).toMatchObject({ code: 'UNKNOWN_KEY_ID', keyId: 'other' });
+  });
+
+  it('should give schema errors a code and digest', () => {
+    expect(new SchemaValidationError('Payload', ['x'])).toMatchObject({
+      code: 'SCHEMA_INVALID',
+      digest: 'DECRYPTION_ERROR;SCHEMA_INVALID',
+    });
+  });
+
+  it('should read codes back from digests', () => {
+    expect(getDecryptionErrorCode({ digest: decryptionErrorDigest('UPSTREAM_FETCH_FAILED') })).toBe('UPSTREAM_FETCH_FAILED');
+    expect(getDecryptionErrorCode({ digest: 'DECRYPTION_ERROR;SOMETHING_ELSE' })).toBeNull();
+    expect(getDecryptionErrorCode({ digest: '1234567890' })).toBeNull();
+    expect(getDecryptionErrorCode({})).toBeNull();
+  });
+
+  it('should have guidance for every code', () => {
+    for (const code of DECRYPTION_ERROR_CODES) {
+      expect(DECRYPTION_ERROR_GUIDANCE[code].title).toBeTruthy();
+    }
+  });
+});
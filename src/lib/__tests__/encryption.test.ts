@@ -1,4 +1,22 @@
+import crypto from 'crypto';
 import { encrypt, decrypt } from '../encryption';
+import { parseEnvelope } from '../envelope';
+import { createKeyring } from '../keyring';
+
+// Produces a payload in the pre-envelope iv:tag:data format
+function encryptLegacy(text: string, secretKey: string): string {
+  const key = crypto.scryptSync(secretKey, 'salt', 32);
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return `${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${encrypted.toString('base64')}`;
+}
+
+// Produces a payload in the v2 envelope format (fixed-salt scrypt, no header)
+function encryptV2(text: string, secretKey: string, keyId = 'default'): string {
+  const [iv, tag, data] = encryptLegacy(text, secretKey).split(':');
+  return ['v2', keyId, 'A256GCM', iv, tag, data].join('.');
+}
 
 describe('Encryption Utilities', () => {
   const testKey = 'test-encryption-key-for-unit-tests';
@@ -15,9 +33,10 @@ describe('Encryption Utilities', () => {
       expect(encrypted).toBeTruthy();
       expect(typeof encrypted).toBe('string');
       
-      // Should be in format: iv:tag:encryptedData
-      const parts = encrypted.split(':');
-      expect(parts).toHaveLength(3);
+      // Should be in format: v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>
+      const parts = encrypted.split('.');
+      expect(parts).toHaveLength(7);
+      expect(parts.slice(0, 3)).toEqual(['v3', 'default', 'A256GCM']);
     });
 
     it('should produce different encrypted output each time', () => {
@@ -66,10 +85,10 @@ describe('Encryption Utilities', () => {
 
     it('should throw error with tampered data', () => {
       const encrypted = encrypt(testData, testKey);
-      const parts = encrypted.split(':');
+      const parts = encrypted.split('.');
       // Tamper with encrypted data
-      parts[2] = 'tampered-data';
-      const tampered = parts.join(':');
+      parts[6] = 'tampered-data';
+      const tampered = parts.join('.');
       
       expect(() => decrypt(tampered, testKey)).toThrow();
     });
@@ -112,5 +131,93 @@ describe('Encryption Utilities', () => {
       expect(result.metadata.version).toBe('1.0');
     });
   });
-});
 
+  describe('key rotation', () => {
+    const keyring = createKeyring({ old: 'old-secret', current: 'current-secret' }, 'current');
+
+    it('should seal new payloads with the active key ID', () => {
+      const encrypted = encrypt(testData, keyring);
+      expect(encrypted.split('.')[1]).toBe('current');
+    });
+
+    it('should decrypt payloads sealed with a retired key', () => {
+      const oldKeyring = createKeyring({ old: 'old-secret' }, 'old');
+      const encrypted = encrypt(testData, oldKeyring);
+
+      expect(decrypt(encrypted, keyring)).toBe(testData);
+    });
+
+    it('should throw error for an unknown key ID', () => {
+      const encrypted = encrypt(testData, createKeyring({ other: 'old-secret' }, 'other'));
+
+      expect(() => decrypt(encrypted, keyring)).toThrow('Unknown encryption key ID "other"');
+    });
+
+    it('should throw error for an unsupported algorithm', () => {
+      const parts = encrypt(testData, keyring).split('.');
+      parts[2] = 'A128CBC';
+
+      expect(() => decrypt(parts.join('.'), keyring)).toThrow('Unsupported encryption algorithm');
+    });
+  });
+
+  describe('compression', () => {
+    const largeData = JSON.stringify(Array.from({ length: 200 }, (_, i) => ({ id: `r${i}`, title: 'Quarterly Report' })));
+
+    it.each(['gzip', 'deflate', 'br'] as const)('should compress with %s and record it in the header', algorithm => {
+      const compression = { algorithm, threshold: 1024 };
+      const encrypted = encrypt(largeData, testKey, { compression });
+      const uncompressed = encrypt(largeData, testKey);
+
+      expect(parseEnvelope(encrypted)).toMatchObject({ header: { zip: algorithm } });
+      expect(encrypted.length).toBeLessThan(uncompressed.length / 4);
+      expect(decrypt(encrypted, testKey)).toBe(largeData);
+    });
+
+    it('should skip plaintexts below the threshold', () => {
+      const encrypted = encrypt(testData, testKey, { compression: { algorithm: 'gzip', threshold: 1024 } });
+
+      expect(parseEnvelope(encrypted)).not.toHaveProperty('header.zip');
+      expect(decrypt(encrypted, testKey)).toBe(testData);
+    });
+
+    it('should skip plaintexts that do not get smaller', () => {
+      // gzip's own header and trailer outweigh any saving on a short plaintext
+      const encrypted = encrypt('short', testKey, { compression: { algorithm: 'gzip', threshold: 0 } });
+
+      expect(parseEnvelope(encrypted)).not.toHaveProperty('header.zip');
+    });
+
+    it('should authenticate the compression marker', () => {
+      const parts = encrypt(largeData, testKey, { compression: { algorithm: 'gzip', threshold: 0 } }).split('.');
+      const header = JSON.parse(Buffer.from(parts[3], 'base64url').toString('utf8'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, zip: 'br' })).toString('base64url');
+
+      expect(() => decrypt(parts.join('.'), testKey)).toThrow('Unable to authenticate');
+    });
+  });
+
+  describe('v2 payloads', () => {
+    it('should decrypt v2 envelopes by key ID', () => {
+      const keyring = createKeyring({ old: testKey, current: 'current-secret' }, 'current');
+
+      expect(decrypt(encryptV2(testData, testKey, 'old'), keyring)).toBe(testData);
+    });
+  });
+
+  describe('legacy v1 payloads', () => {
+    it('should decrypt iv:tag:data payloads', () => {
+      expect(decrypt(encryptLegacy(testData, testKey), testKey)).toBe(testData);
+    });
+
+    it('should try every key in the keyring', () => {
+      const keyring = createKeyring({ default: testKey, next: 'next-secret' }, 'next');
+
+      expect(decrypt(encryptLegacy(testData, testKey), keyring)).toBe(testData);
+    });
+
+    it('should throw error when no key matches', () => {
+      expect(() => decrypt(encryptLegacy(testData, testKey), 'wrong-key')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { encrypt } from '../encryption';
+import { buildExportFile, decryptExport, encryptedOnlyLevels, encryptExport, toCsv } from '../export';
+import { DEFAULT_RECORD_QUERY, type RecordItem } from '../records';
+
+const passphrase = 'correct horse battery staple';
+const records: RecordItem[] = [
+  { id: '1', title: 'Line\nbreak', type: 'Survey', sensitivity: 'Private', date: '2024-01-15' },
+  { id: '2', title: '+1 formula', type: 'Record', sensitivity: 'Confidential', date: '2024-01-16' },
+];
+
+describe('record exports', () => {
+  it('should quote CSV cells and neutralize formulas', () => {
+    expect(toCsv(records)).toBe(
+      'id,title,type,sensitivity,date\r\n' +
+      '1,"Line\nbreak",Survey,Private,2024-01-15\r\n' +
+      "2,'+1 formula,Record,Confidential,2024-01-16\r\n"
+    );
+  });
+
+  it('should describe the filters without paging', () => {
+    const file = buildExportFile(records, { ...DEFAULT_RECORD_QUERY, q: 'line', cursor: 'o14', limit: 5 }, 'json', {
+      now: new Date('2024-02-01T10:00:00Z'),
+    });
+
+    expect(file.filename).toBe('records-2024-02-01.json');
+    expect(JSON.parse(file.body)).toMatchObject({ exportedAt: '2024-02-01T10:00:00.000Z', query: 'q=line' });
+  });
+
+  it('should empty masked fields in plaintext formats only', () => {
+    const json = JSON.parse(buildExportFile(records, DEFAULT_RECORD_QUERY, 'json').body);
+    const csv = buildExportFile(records, DEFAULT_RECORD_QUERY, 'csv').body;
+    const encrypted = buildExportFile(records, DEFAULT_RECORD_QUERY, 'encrypted', { passphrase }).body;
+
+    expect(json.records).toEqual([records[0], { ...records[1], title: '', maskedFields: ['title'] }]);
+    expect(csv).not.toContain('formula');
+    expect(decryptExport(encrypted, passphrase).records).toEqual(records);
+  });
+
+  it('should only export levels that forbid plaintext encrypted', () => {
+    const restricted = [...records, { id: '3', title: 'Minutes', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-17' }];
+
+    expect(encryptedOnlyLevels(records)).toEqual([]);
+    expect(encryptedOnlyLevels(restricted)).toEqual(['Highly Confidential']);
+    expect(() => buildExportFile(restricted, DEFAULT_RECORD_QUERY, 'csv')).toThrow('Highly Confidential records can only be exported encrypted');
+    expect(() => buildExportFile(restricted, DEFAULT_RECORD_QUERY, 'json')).toThrow('can only be exported encrypted');
+    expect(decryptExport(buildExportFile(restricted, DEFAULT_RECORD_QUERY, 'encrypted', { passphrase }).body, passphrase).records).toEqual(restricted);
+  });
+
+  it('should round-trip an encrypted export with the passphrase alone', () => {
+    const json = JSON.stringify({ exportedAt: '2024-02-01T10:00:00.000Z', query: '', records });
+    const envelope = encryptExport(json, passphrase);
+
+    expect(decryptExport(`${envelope}\n`, passphrase).records).toEqual(records);
+  });
+
+  it('should refuse short passphrases', () => {
+    expect(() => encryptExport('{}', 'too short')).toThrow('at least 12 characters');
+  });
+
+  it('should reject envelopes that were not issued as exports', () => {
+    const envelope = encrypt(JSON.stringify({ exportedAt: '', query: '', records: [] }), passphrase);
+    expect(() => decryptExport(envelope, passphrase)).toThrow('not bound');
+  });
+
+  it('should validate the exported records', () => {
+    const envelope = encryptExport(JSON.stringify({ exportedAt: '', query: '', records: [{ id: 1 }] }), passphrase);
+    expect(() => decryptExport(envelope, passphrase)).toThrow('Exported record 0');
+  });
+});
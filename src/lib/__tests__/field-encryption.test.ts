@@ -0,0 +1,86 @@
+import {
+  isFieldEncryptionEnabled,
+  loadTierKeyringsFromEnv,
+  sealRecord,
+  tierEnvPrefix,
+  unsealRecord,
+} from '../field-encryption';
+import { keyringFromSecret } from '../keyring';
+import type { RecordItem } from '../records/types';
+
+describe('Field-level encryption', () => {
+  const allTiers = {
+    Private: keyringFromSecret('private-tier-secret'),
+    Confidential: keyringFromSecret('confidential-tier-secret'),
+    'Highly Confidential': keyringFromSecret('highly-confidential-tier-secret'),
+  };
+  const confidential: RecordItem = { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' };
+  const highlyConfidential: RecordItem = { id: '3', title: 'Medical Record #101', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-17' };
+
+  it('should move sealed fields out of the record', () => {
+    const sealed = sealRecord(confidential, allTiers);
+
+    expect(sealed.title).toBeUndefined();
+    expect(sealed.sealed?.title).toMatch(/^v3\./);
+    expect(sealed).toMatchObject({ id: '1', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' });
+  });
+
+  it('should open fields with the matching tier key', () => {
+    expect(unsealRecord(sealRecord(confidential, allTiers), allTiers)).toEqual(confidential);
+  });
+
+  it('should leave higher-tier fields sealed in a lower-tier context', () => {
+    const lowerTiers = { Private: allTiers.Private, Confidential: allTiers.Confidential };
+    const view = unsealRecord(sealRecord(highlyConfidential, allTiers), lowerTiers);
+
+    expect(view).toEqual({ ...highlyConfidential, title: '', sealedFields: ['title'] });
+  });
+
+  it('should leave fields sealed with a key ID this context does not hold', () => {
+    const rotated = { ...allTiers, Confidential: keyringFromSecret('new-secret', 'next') };
+    const view = unsealRecord(sealRecord(confidential, allTiers), rotated);
+
+    expect(view.sealedFields).toEqual(['title']);
+  });
+
+  it('should reject a sealed field moved to another record', () => {
+    const other = sealRecord({ ...confidential, id: '2' }, allTiers);
+    const swapped = { ...sealRecord(confidential, allTiers), sealed: other.sealed };
+
+    expect(() => unsealRecord(swapped, allTiers)).toThrow('subject');
+  });
+
+  it('should withhold fields it holds no tier key for', () => {
+    const sealed = sealRecord(highlyConfidential, { Private: allTiers.Private });
+
+    expect(sealed).not.toHaveProperty('title');
+    expect(sealed).not.toHaveProperty('sealed');
+    expect(unsealRecord(sealed, allTiers)).toEqual({ ...highlyConfidential, title: '', sealedFields: ['title'] });
+  });
+
+  it('should pass unsealed records through unchanged', () => {
+    expect(unsealRecord(confidential, {})).toEqual(confidential);
+  });
+
+  describe('loadTierKeyringsFromEnv', () => {
+    it('should load one keyring per configured tier', () => {
+      const keyrings = loadTierKeyringsFromEnv({
+        PRIVATE_ENCRYPTION_KEY: 'a',
+        HIGHLY_CONFIDENTIAL_ENCRYPTION_KEYS: 'k1:b,k2:c',
+        HIGHLY_CONFIDENTIAL_ENCRYPTION_ACTIVE_KEY_ID: 'k2',
+      });
+
+      expect(Object.keys(keyrings)).toEqual(['Private', 'Highly Confidential']);
+      expect(keyrings['Highly Confidential']?.activeKeyId).toBe('k2');
+      expect(isFieldEncryptionEnabled(keyrings)).toBe(true);
+    });
+
+    it('should disable field encryption when no tier key is configured', () => {
+      expect(isFieldEncryptionEnabled(loadTierKeyringsFromEnv({ ENCRYPTION_KEY: 'x' }))).toBe(false);
+    });
+
+    it('should derive env prefixes from sensitivity labels', () => {
+      expect(tierEnvPrefix('Highly Confidential')).toBe('HIGHLY_CONFIDENTIAL_ENCRYPTION');
+    });
+  });
+});
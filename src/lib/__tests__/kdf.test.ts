@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { encrypt, decrypt } from '../encryption';
+import { clearKeyCache, loadKdfConfigFromEnv, resolveKdf, validateScryptParams } from '../kdf';
+import { createKeyring } from '../keyring';
+
+// Decodes the base64url JSON header segment of a v3 envelope
+function readHeader(encrypted: string) {
+  return JSON.parse(Buffer.from(encrypted.split('.')[3], 'base64url').toString('utf8'));
+}
+
+describe('Key derivation', () => {
+  const rawKey = crypto.randomBytes(32).toString('base64');
+  const testData = 'This is secret data';
+
+  afterEach(() => {
+    clearKeyCache();
+    jest.restoreAllMocks();
+  });
+
+  describe('resolveKdf', () => {
+    it('should pick HKDF for base64 32-byte keys', () => {
+      expect(resolveKdf(rawKey, 'auto')).toBe('hkdf');
+    });
+
+    it('should pick scrypt for passphrases', () => {
+      expect(resolveKdf('correct horse battery staple', 'auto')).toBe('scrypt');
+    });
+
+    it('should honour an explicit preference', () => {
+      expect(resolveKdf(rawKey, 'scrypt')).toBe('scrypt');
+    });
+  });
+
+  describe('envelope header', () => {
+    it('should carry a random salt per payload', () => {
+      const first = readHeader(encrypt(testData, rawKey));
+      const second = readHeader(encrypt(testData, rawKey));
+
+      expect(first.kdf).toBe('hkdf');
+      expect(Buffer.from(first.salt, 'base64')).toHaveLength(16);
+      expect(first.salt).not.toBe(second.salt);
+    });
+
+    it('should record scrypt cost parameters', () => {
+      const keyring = createKeyring({ k1: 'passphrase' }, 'k1', { kdf: 'scrypt', scrypt: { N: 1024, r: 8, p: 1 } });
+      const encrypted = encrypt(testData, keyring);
+
+      expect(readHeader(encrypted)).toMatchObject({ kdf: 'scrypt', N: 1024, r: 8, p: 1 });
+      expect(decrypt(encrypted, keyring)).toBe(testData);
+    });
+
+    it('should reject HKDF for keys that are not 32 random bytes', () => {
+      const keyring = createKeyring({ k1: 'passphrase' }, 'k1', { kdf: 'hkdf', scrypt: { N: 1024, r: 8, p: 1 } });
+
+      expect(() => encrypt(testData, keyring)).toThrow('HKDF requires a base64-encoded 32-byte key');
+    });
+
+    it('should reject tampered header parameters', () => {
+      const parts = encrypt(testData, 'passphrase').split('.');
+      const header = readHeader(parts.join('.'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, N: 2048 })).toString('base64url');
+
+      expect(() => decrypt(parts.join('.'), 'passphrase')).toThrow();
+    });
+
+    it('should refuse scrypt parameters above the cost limits', () => {
+      const parts = encrypt(testData, 'passphrase').split('.');
+      const header = readHeader(parts.join('.'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, N: 2 ** 24 })).toString('base64url');
+
+      expect(() => decrypt(parts.join('.'), 'passphrase')).toThrow('Invalid scrypt cost');
+    });
+
+    it('should only run scrypt with the parameters the keyring is configured for', () => {
+      const keyring = createKeyring({ k1: 'passphrase' }, 'k1', { kdf: 'scrypt', scrypt: { N: 1024, r: 8, p: 1 } });
+      const parts = encrypt(testData, keyring).split('.');
+      const header = readHeader(parts.join('.'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, N: 4096, p: 16 })).toString('base64url');
+      const scryptSpy = jest.spyOn(crypto, 'scryptSync');
+
+      expect(() => decrypt(parts.join('.'), keyring)).toThrow('are not configured for this keyring');
+      expect(scryptSpy).not.toHaveBeenCalled();
+    });
+
+    it('should accept listed earlier scrypt parameters', () => {
+      const previous = createKeyring({ k1: 'passphrase' }, 'k1', { kdf: 'scrypt', scrypt: { N: 1024, r: 8, p: 1 } });
+      const encrypted = encrypt(testData, previous);
+      const keyring = createKeyring({ k1: 'passphrase' }, 'k1', {
+        kdf: 'scrypt',
+        scrypt: { N: 2048, r: 8, p: 1 },
+        acceptScrypt: [{ N: 1024, r: 8, p: 1 }],
+      });
+
+      expect(decrypt(encrypted, keyring)).toBe(testData);
+    });
+  });
+
+  describe('derived-key cache', () => {
+    it('should run scrypt once per secret and parameter set', () => {
+      const scryptSpy = jest.spyOn(crypto, 'scryptSync');
+
+      const encrypted = [encrypt(testData, 'passphrase'), encrypt(testData, 'passphrase')];
+      encrypted.forEach(payload => expect(decrypt(payload, 'passphrase')).toBe(testData));
+
+      expect(scryptSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('loadKdfConfigFromEnv', () => {
+    it('should default to auto with standard scrypt costs', () => {
+      expect(loadKdfConfigFromEnv({})).toEqual({ kdf: 'auto', scrypt: { N: 16384, r: 8, p: 1 } });
+    });
+
+    it('should read tuned scrypt costs', () => {
+      const config = loadKdfConfigFromEnv({ ENCRYPTION_KDF: 'scrypt', ENCRYPTION_SCRYPT_N: '65536' });
+      expect(config).toEqual({ kdf: 'scrypt', scrypt: { N: 65536, r: 8, p: 1 } });
+    });
+
+    it('should read earlier scrypt costs to accept', () => {
+      const config = loadKdfConfigFromEnv({ ENCRYPTION_SCRYPT_N: '65536', ENCRYPTION_SCRYPT_ACCEPT: '32768:8:1, 16384:8:2' });
+      expect(config.acceptScrypt).toEqual([{ N: 32768, r: 8, p: 1 }, { N: 16384, r: 8, p: 2 }]);
+      expect(() => loadKdfConfigFromEnv({ ENCRYPTION_SCRYPT_ACCEPT: '32768:8' })).toThrow('ENCRYPTION_SCRYPT_ACCEPT');
+    });
+
+    it('should reject unknown KDF names and bad costs', () => {
+      expect(() => loadKdfConfigFromEnv({ ENCRYPTION_KDF: 'pbkdf2' })).toThrow('ENCRYPTION_KDF');
+      expect(() => validateScryptParams({ N: 1000, r: 8, p: 1 })).toThrow('Invalid scrypt cost');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { decrypt, encrypt } from '../encryption';
+import { parseEnvelope } from '../envelope';
+import { sealRecord, unsealRecord } from '../field-encryption';
+import {
+  assessKeyStrength,
+  generateKey,
+  isEnvelope,
+  keyFingerprint,
+  keyringToEnv,
+  nextKeyId,
+  reencryptJson,
+  rotateKeyring,
+  updateEnvFile,
+} from '../key-management';
+import { createKeyring, keyringFromSecret, loadKeyringFromEnv } from '../keyring';
+
+const rawKey = 'IQTpNXcj5QU+GtOahBkKHSJyGWHLE1tNUhyLi1JtbYw=';
+
+describe('assessKeyStrength', () => {
+  it('should accept generated keys', () => {
+    expect(assessKeyStrength(generateKey())).toEqual({ kind: 'raw', estimatedBits: 256, problems: [] });
+  });
+
+  it('should flag raw keys that are not random', () => {
+    const zeros = Buffer.alloc(32).toString('base64');
+    expect(assessKeyStrength(zeros).problems).toEqual([
+      'only 1 distinct bytes; expected random bytes',
+      'a byte repeats 32 times in a row',
+    ]);
+  });
+
+  it('should flag short or repetitive passphrases', () => {
+    expect(assessKeyStrength('hunter2').problems).toHaveLength(1);
+    expect(assessKeyStrength('aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa').problems).toHaveLength(3);
+    expect(assessKeyStrength('T4k9-Qm2x!Vw7z#Lp3r@Bn8y$Hs5c&Jd6').problems).toEqual([]);
+  });
+});
+
+describe('generateKey', () => {
+  it('should refuse output from a broken random source', () => {
+    expect(() => generateKey(size => Buffer.alloc(size, 7))).toThrow('failed entropy checks');
+  });
+});
+
+describe('keyFingerprint', () => {
+  it('should be stable and not reveal the key', () => {
+    expect(keyFingerprint(rawKey)).toMatch(/^[0-9a-f]{4}(:[0-9a-f]{4}){3}$/);
+    expect(keyFingerprint(rawKey)).toBe(keyFingerprint(rawKey));
+    expect(keyFingerprint(rawKey)).not.toBe(keyFingerprint(generateKey()));
+  });
+});
+
+describe('rotateKeyring', () => {
+  it('should add a key, make it active and keep the old ones', () => {
+    const keyring = rotateKeyring(keyringFromSecret('old-secret'), { keyId: '2026-10', secret: rawKey });
+
+    expect(keyring.activeKeyId).toBe('2026-10');
+    expect([...keyring.keys.keys()]).toEqual(['default', '2026-10']);
+  });
+
+  it('should not reuse a key ID', () => {
+    const keyring = keyringFromSecret('old-secret', '2026-10');
+    expect(nextKeyId(keyring, new Date('2026-10-19'))).toBe('2026-10-2');
+    expect(() => rotateKeyring(keyring, { keyId: '2026-10' })).toThrow('already in the keyring');
+  });
+});
+
+describe('updateEnvFile', () => {
+  it('should replace the keyring variables and keep everything else', () => {
+    const keyring = rotateKeyring(keyringFromSecret('old-secret'), { keyId: 'next', secret: rawKey });
+    const updated = updateEnvFile('# Keys\nENCRYPTION_KEY=old-secret\nRECORDS_STORE=json\n', keyring);
+
+    expect(updated).toBe(`# Keys\nRECORDS_STORE=json\nENCRYPTION_KEYS=default:old-secret,next:${rawKey}\nENCRYPTION_ACTIVE_KEY_ID=next\n`);
+  });
+
+  it('should produce variables that load back into the same keyring', () => {
+    const keyring = rotateKeyring(keyringFromSecret('old-secret'), { keyId: 'next', secret: rawKey });
+    const loaded = loadKeyringFromEnv(keyringToEnv(keyring, 'CONFIDENTIAL_ENCRYPTION'), 'CONFIDENTIAL_ENCRYPTION');
+
+    expect(loaded?.activeKeyId).toBe('next');
+    expect(loaded?.keys).toEqual(keyring.keys);
+  });
+});
+
+describe('isEnvelope', () => {
+  it('should only treat well-formed legacy strings as envelopes', () => {
+    expect(isEnvelope(encrypt('x', rawKey))).toBe(true);
+    expect(isEnvelope('10:30:00')).toBe(false);
+    expect(isEnvelope('plain text')).toBe(false);
+  });
+});
+
+describe('reencryptJson', () => {
+  const oldKeyring = keyringFromSecret('old-secret', 'old');
+  const keyring = createKeyring({ old: 'old-secret', new: rawKey }, 'new');
+
+  it('should move envelopes to the active key and keep their claims', () => {
+    const claims = { aud: 'field:Private', sub: 'r1/title' };
+    const stored = [{ id: 'r1', sealed: { title: encrypt('Secret', oldKeyring, { claims }) }, time: '10:30:00' }];
+
+    const { value, report } = reencryptJson(stored, keyring);
+    const title = (value as typeof stored)[0].sealed.title;
+
+    expect(report).toEqual({ reencrypted: ['[0].sealed.title'], unchanged: [], skipped: [] });
+    expect((value as typeof stored)[0].time).toBe('10:30:00');
+    expect(parseEnvelope(title)).toMatchObject({ keyId: 'new', header: { ctx: claims } });
+    expect(decrypt(title, keyring, { expect: { audience: 'field:Private', subject: 'r1/title', requireExpiry: false } })).toBe('Secret');
+  });
+
+  it('should keep the compression of re-encrypted envelopes', () => {
+    const stored = encrypt('record '.repeat(300), oldKeyring, { compression: { algorithm: 'br', threshold: 0 } });
+    const { value } = reencryptJson(stored, keyring);
+
+    expect(parseEnvelope(value as string)).toMatchObject({ keyId: 'new', header: { zip: 'br' } });
+  });
+
+  it('should leave envelopes under the active key alone', () => {
+    const current = encrypt('Secret', keyring);
+    expect(reencryptJson({ value: current }, keyring)).toEqual({ value: { value: current }, report: { reencrypted: [], unchanged: ['value'], skipped: [] } });
+  });
+
+  it('should move the fields of sealed records to their tier\'s active key', () => {
+    const oldTiers = { Private: keyringFromSecret('private-secret', 'old'), Confidential: keyringFromSecret('confidential-secret', 'old') };
+    const tiers = {
+      Private: createKeyring({ old: 'private-secret', new: rawKey }, 'new'),
+      Confidential: createKeyring({ old: 'confidential-secret', new: 'next-confidential-secret' }, 'new'),
+    };
+    const records = [
+      { id: 'r1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Private', date: '2024-01-15' },
+      { id: 'r2', title: 'Medical Record #102', type: 'Record', sensitivity: 'Confidential', date: '2024-01-16' },
+    ];
+
+    const { value, report } = reencryptJson(records.map(record => sealRecord(record, oldTiers)), keyring, tiers);
+    const sealed = value as ReturnType<typeof sealRecord>[];
+
+    expect(report.reencrypted).toEqual(['[0].sealed.title', '[1].sealed.title']);
+    expect(sealed.map(record => parseEnvelope(record.sealed!.title!))).toMatchObject([{ keyId: 'new' }, { keyId: 'new' }]);
+    expect(sealed.map(record => unsealRecord(record, tiers))).toEqual(records);
+  });
+
+  it('should skip and list envelopes under keys it does not hold', () => {
+    const record = { id: 'r3', title: 'Medical Record #103', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-17' };
+    const stored = {
+      records: [sealRecord(record, { 'Highly Confidential': keyringFromSecret('top-secret') })],
+      session: encrypt('Secret', keyringFromSecret('another-secret', 'retired')),
+    };
+
+    const { value, report } = reencryptJson(stored, keyring);
+
+    expect(value).toEqual(stored);
+    expect(report).toEqual({ reencrypted: [], unchanged: [], skipped: ['records[0].sealed.title', 'session'] });
+  });
+
+  it('should name the envelope that fails to decrypt', () => {
+    const foreign = encrypt('Secret', keyringFromSecret('another-secret', 'old'));
+    expect(() => reencryptJson({ records: [foreign] }, keyring)).toThrow(/^records\[0\]: /);
+  });
+});
@@ -0,0 +1,60 @@
+import { createKeyring, getKeySecret, loadKeyringFromEnv } from '../keyring';
+
+describe('Keyring', () => {
+  describe('createKeyring', () => {
+    it('should reject key IDs containing the envelope separator', () => {
+      expect(() => createKeyring({ 'key.1': 'secret' }, 'key.1')).toThrow('Invalid key ID');
+    });
+
+    it('should reject an active key ID that is not in the keyring', () => {
+      expect(() => createKeyring({ a: 'secret' }, 'b')).toThrow('Active key ID "b" is not in the keyring');
+    });
+
+    it('should not take inherited object properties for keys', () => {
+      expect(() => createKeyring({ a: 'secret' }, 'constructor')).toThrow('Active key ID "constructor" is not in the keyring');
+      expect(() => createKeyring({ a: 'secret' }, '__proto__')).toThrow('is not in the keyring');
+    });
+  });
+
+  describe('loadKeyringFromEnv', () => {
+    it('should return null when no key is configured', () => {
+      expect(loadKeyringFromEnv({})).toBeNull();
+    });
+
+    it('should wrap ENCRYPTION_KEY as the default key', () => {
+      const keyring = loadKeyringFromEnv({ ENCRYPTION_KEY: 'secret' });
+
+      expect(keyring?.activeKeyId).toBe('default');
+      expect(getKeySecret(keyring!, 'default')).toBe('secret');
+    });
+
+    it('should load several keys and the active key ID', () => {
+      const keyring = loadKeyringFromEnv({
+        ENCRYPTION_KEYS: '2024-01:first:with:colons, 2025-01:second',
+        ENCRYPTION_ACTIVE_KEY_ID: '2025-01',
+        ENCRYPTION_KEY: 'legacy',
+      });
+
+      expect(keyring?.activeKeyId).toBe('2025-01');
+      expect(getKeySecret(keyring!, '2024-01')).toBe('first:with:colons');
+      expect(getKeySecret(keyring!, 'default')).toBe('legacy');
+    });
+
+    it('should require an active key ID when several keys are configured', () => {
+      expect(() => loadKeyringFromEnv({ ENCRYPTION_KEYS: 'a:1,b:2' }))
+        .toThrow('ENCRYPTION_ACTIVE_KEY_ID must be set');
+    });
+
+    it('should reject malformed entries', () => {
+      expect(() => loadKeyringFromEnv({ ENCRYPTION_KEYS: 'no-separator' }))
+        .toThrow('Invalid ENCRYPTION_KEYS entry');
+    });
+
+    it('should keep key IDs that name object properties', () => {
+      const keyring = loadKeyringFromEnv({ ENCRYPTION_KEYS: '__proto__:secret,constructor:other', ENCRYPTION_ACTIVE_KEY_ID: '__proto__' });
+
+      expect([...keyring!.keys.keys()]).toEqual(['__proto__', 'constructor']);
+      expect(getKeySecret(keyring!, '__proto__')).toBe('secret');
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * @jest-environment node
+ */
+import { createMemoryAuditLog, setAuditLog, type AuditLog } from '../audit';
+import type { User } from '../auth';
+import { decrypt } from '../encryption';
+import { keyringFromSecret } from '../keyring';
+import {
+  createMemoryRecordRepository,
+  DEFAULT_RECORD_QUERY,
+  getRecordEventLog,
+  SchemaValidationError,
+  setRecordEventLog,
+  setRecordRepository,
+  type RecordItem,
+} from '../records';
+import { ApiError, encryptPayload } from '../api';
+import {
+  decryptRecord,
+  decryptRecordPage,
+  getExportRecords,
+  getRecord,
+  getRecordPage,
+  loadEncryptedRecord,
+  loadEncryptedRecordPage,
+  revealRecordField,
+  streamEncryptedRecords,
+} from '../records-service';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+const keyring = keyringFromSecret(testKey);
+const viewer: User = { username: 'vera', role: 'viewer' };
+const session = { user: viewer, token: 'session-token' };
+const fixtures: RecordItem[] = [
+  { id: 'f1', title: 'Fixture Record', type: 'Record', sensitivity: 'Private', date: '2024-03-01' },
+  { id: 'f2', title: 'Fixture Survey', type: 'Survey', sensitivity: 'Confidential', date: '2024-03-02' },
+];
+
+describe('records service', () => {
+  const originalEnv = process.env;
+  const env = { ENCRYPTION_KEY: testKey };
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...env };
+    auditLog = createMemoryAuditLog();
+    setAuditLog(auditLog);
+    setRecordRepository(createMemoryRecordRepository(fixtures));
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    setAuditLog(null);
+    setRecordRepository(null);
+    setRecordEventLog(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should load and decrypt a page in-process without any HTTP request', async () => {
+    const fetchSpy = jest.spyOn(global, 'fetch');
+    const page = await getRecordPage(DEFAULT_RECORD_QUERY, session, env);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(page.total).toBe(2);
+    expect(page.records).toEqual([
+      { id: 'f2', title: '', type: 'Survey', sensitivity: 'Confidential', date: '2024-03-02', redacted: true },
+      fixtures[0],
+    ]);
+  });
+
+  it('should carry the live updates feed position the page was read at', async () => {
+    getRecordEventLog().publish({ type: 'created', record: fixtures[0] });
+    const eventId = getRecordEventLog().lastEventId();
+
+    await expect(getRecordPage(DEFAULT_RECORD_QUERY, session, env)).resolves.toMatchObject({ eventId });
+  });
+
+  it('should audit both sides of the exchange', async () => {
+    await getRecordPage(DEFAULT_RECORD_QUERY, session, env);
+
+    expect(await auditLog.read()).toMatchObject([
+      { actor: 'vera', action: 'records.list', recordIds: ['f1'], outcome: 'success' },
+      { actor: 'vera', action: 'records.decrypt', recordIds: ['f1'], outcome: 'success' },
+    ]);
+  });
+
+  it('should list a mixed-tier page when only some tier keys are held', async () => {
+    process.env = { ...process.env, PRIVATE_ENCRYPTION_KEY: 'private-tier' };
+    const page = await getRecordPage(DEFAULT_RECORD_QUERY, { ...session, user: { ...viewer, role: 'admin' } }, env);
+
+    expect(page.records).toEqual([{ ...fixtures[1], title: '', sealedFields: ['title'] }, fixtures[0]]);
+  });
+
+  it('should exchange an encrypted envelope that can only be used once', async () => {
+    const encryptedData = await loadEncryptedRecordPage(DEFAULT_RECORD_QUERY, viewer, keyring);
+
+    expect(encryptedData).toMatch(/^v3\./);
+    await decryptRecordPage(encryptedData, viewer, keyring);
+    await expect(decryptRecordPage(encryptedData, viewer, keyring)).rejects.toThrow('already been used');
+  });
+
+  it('should reject decrypted payloads that do not match the record schema', async () => {
+    const payload = { timestamp: new Date().toISOString(), total: 1, nextCursor: null, records: [{ ...fixtures[0], date: 'soon' }] };
+    const encryptedData = await encryptPayload(payload, keyring, { route: '/api/encrypted-data', audience: 'records-viewer' });
+
+    await expect(decryptRecordPage(encryptedData, viewer, keyring)).rejects.toThrow(
+      new SchemaValidationError('Decrypted record page', ['records[0].date must be a valid YYYY-MM-DD date'])
+    );
+  });
+
+  it('should refuse to encrypt invalid records from the store', async () => {
+    setRecordRepository(createMemoryRecordRepository([{ ...fixtures[0], sensitivity: 'Top Secret' }]));
+    await expect(loadEncryptedRecordPage(DEFAULT_RECORD_QUERY, { ...viewer, role: 'admin' }, keyring)).rejects.toThrow(
+      SchemaValidationError
+    );
+     expect(await auditLog.read()).toEqual([]);
+  });
+
+  it('should fetch from RECORDS_API_URL in remote mode, forwarding the session', async () => {
+    const encryptedData = await loadEncryptedRecordPage({ ...DEFAULT_RECORD_QUERY, q: 'record' }, viewer, keyring);
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(Response.json({ encryptedData }));
+
+    const page = await getRecordPage(
+      { ...DEFAULT_RECORD_QUERY, q: 'record' },
+      session,
+      { ...env, RECORDS_API_URL: 'https://api.example.com' }
+    );
+
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(String(url)).toBe('https://api.example.com/api/encrypted-data?q=record');
+    expect((init?.headers as Record<string, string>).Cookie).toBe('records_session=session-token');
+    expect(page.records).toEqual([fixtures[0]]);
+  });
+
+  it('should export from the record stream of RECORDS_API_URL in remote mode, leaving out redacted records', async () => {
+    const query = { ...DEFAULT_RECORD_QUERY, q: 'fixture' };
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(streamEncryptedRecords(query, viewer, keyring)));
+
+    const records = await getExportRecords({ ...query, cursor: 'ignored' }, session, { ...env, RECORDS_API_URL: 'https://api.example.com' });
+
+    expect(records).toEqual([fixtures[0]]);
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(String(url)).toBe('https://api.example.com/api/encrypted-data/stream?q=fixture');
+    expect((init?.headers as Record<string, string>).Cookie).toBe('records_session=session-token');
+    expect(await auditLog.read()).toMatchObject([
+      { action: 'records.stream', recordIds: ['f1'] },
+      { action: 'records.decrypt', recordIds: ['f1'] },
+    ]);
+  });
+
+  it('should refuse a remote export holding fields sealed with a tier key this server does not hold', async () => {
+    const query = { ...DEFAULT_RECORD_QUERY, q: 'fixture' };
+    process.env = { ...process.env, PRIVATE_ENCRYPTION_KEY: 'private-tier' };
+    const body = await new Response(streamEncryptedRecords(query, viewer, keyring)).text();
+    process.env = { ...originalEnv, ...env };
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body));
+
+    const exporting = getExportRecords(query, session, { ...env, RECORDS_API_URL: 'https://api.example.com' });
+
+    await expect(exporting).rejects.toMatchObject({ status: 422, details: [expect.stringContaining('Records f1 have fields sealed')] });
+    expect((await auditLog.read()).at(-1)).toMatchObject({ action: 'records.decrypt', outcome: 'error', detail: 'VALIDATION_FAILED' });
+  });
+
+  it('should keep the path prefix of RECORDS_API_URL', async () => {
+    const encryptedData = await loadEncryptedRecordPage(DEFAULT_RECORD_QUERY, viewer, keyring);
+    const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValue(Response.json({ encryptedData }));
+
+    await getRecordPage(DEFAULT_RECORD_QUERY, session, { ...env, RECORDS_API_URL: 'https://api.example.com/v1/' });
+
+    expect(String(fetchSpy.mock.calls[0][0])).toBe('https://api.example.com/v1/api/encrypted-data');
+  });
+
+  it('should audit and rethrow remote failures', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response('nope', { status: 502 }));
+
+    await expect(
+      getRecordPage(DEFAULT_RECORD_QUERY, session, { ...env, RECORDS_API_URL: 'https://api.example.com' })
+    ).rejects.toThrow('502');
+    expect(await auditLog.read()).toMatchObject([
+      { action: 'records.decrypt', outcome: 'error', detail: 'UPSTREAM_FETCH_FAILED' },
+    ]);
+  });
+
+  describe('single records', () => {
+    it('should load and decrypt a record in-process, auditing both sides', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      await expect(getRecord('f1', session, env)).resolves.toEqual(fixtures[0]);
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(await auditLog.read()).toMatchObject([
+        { actor: 'vera', action: 'records.read', recordIds: ['f1'], outcome: 'success' },
+        { actor: 'vera', action: 'records.decrypt', recordIds: ['f1'], outcome: 'success' },
+      ]);
+    });
+
+    it('should throw 404 for unknown records and 403 above clearance', async () => {
+      await expect(getRecord('missing', session, env)).rejects.toMatchObject({ status: 404, code: 'NOT_FOUND' });
+      await expect(getRecord('f2', session, env)).rejects.toMatchObject({ status: 403, code: 'FORBIDDEN' });
+      expect(await auditLog.read()).toMatchObject([
+        { action: 'records.decrypt', recordIds: ['missing'], outcome: 'error', detail: 'NOT_FOUND' },
+        { action: 'records.decrypt', recordIds: ['f2'], outcome: 'denied' },
+      ]);
+    });
+
+    it('should reject an envelope holding a different record', async () => {
+      const encryptedData = await loadEncryptedRecord('f1', viewer, keyring);
+      await expect(decryptRecord('f3', encryptedData, viewer, keyring)).rejects.toThrow(SchemaValidationError);
+    });
+
+    it('should seal fields with tier keys and open them where the key is held', async () => {
+      process.env = { ...process.env, PRIVATE_ENCRYPTION_KEY: 'private-tier' };
+      const encryptedData = await loadEncryptedRecord('f1', viewer, keyring);
+      const { record } = JSON.parse(decrypt(encryptedData, keyring));
+
+      expect(record).not.toHaveProperty('title');
+      expect(record.sealed.title).toMatch(/^v3\./);
+      await expect(decryptRecord('f1', encryptedData, viewer, keyring)).resolves.toEqual(fixtures[0]);
+
+      const resealed = await loadEncryptedRecord('f1', viewer, keyring);
+      process.env = { ...originalEnv, ...env };
+      await expect(decryptRecord('f1', resealed, viewer, keyring)).resolves.toEqual({
+        ...fixtures[0],
+        title: '',
+        sealedFields: ['title'],
+      });
+    });
+
+    it('should fetch /api/records/[id] in remote mode and map 404 and 403', async () => {
+      const encryptedData = await loadEncryptedRecord('f1', viewer, keyring);
+      const remoteEnv = { ...env, RECORDS_API_URL: 'https://api.example.com' };
+      const fetchSpy = jest.spyOn(global, 'fetch').mockResolvedValueOnce(Response.json({ encryptedData }));
+
+      await expect(getRecord('f1', session, remoteEnv)).resolves.toEqual(fixtures[0]);
+      expect(String(fetchSpy.mock.calls[0][0])).toBe('https://api.example.com/api/records/f1');
+
+      fetchSpy.mockResolvedValueOnce(Response.json({ error: 'Record "x" not found', code: 'NOT_FOUND' }, { status: 404 }));
+      await expect(getRecord('x', session, remoteEnv)).rejects.toEqual(new ApiError(404, 'NOT_FOUND', 'Record "x" not found'));
+
+      fetchSpy.mockResolvedValueOnce(new Response('denied', { status: 403 }));
+      await expect(getRecord('f2', session, remoteEnv)).rejects.toMatchObject({ status: 403, code: 'FORBIDDEN' });
+    });
+  });
+
+  describe('revealing masked fields', () => {
+    const analystSession = { user: { username: 'ana', role: 'analyst' } as User, token: 'session-token' };
+
+    it('should reveal a masked field and audit it with the field name', async () => {
+      await expect(revealRecordField('f2', 'title', analystSession, env)).resolves.toBe('Fixture Survey');
+      expect(await auditLog.read()).toMatchObject([
+        { action: 'records.read', recordIds: ['f2'] },
+        { action: 'records.decrypt', recordIds: ['f2'] },
+        { actor: 'ana', action: 'records.reveal', recordIds: ['f2'], outcome: 'success', detail: 'title' },
+      ]);
+    });
+
+    it('should refuse fields the record does not mask', async () => {
+      await expect(revealRecordField('f1', 'title', analystSession, env)).rejects.toMatchObject({
+        status: 422,
+        code: 'VALIDATION_FAILED',
+      });
+      expect((await auditLog.read()).at(-1)).toMatchObject({
+        action: 'records.reveal',
+        recordIds: ['f1'],
+        outcome: 'error',
+        detail: 'VALIDATION_FAILED',
+      });
+    });
+
+    it('should not reveal records above clearance', async () => {
+      await expect(revealRecordField('f2', 'title', session, env)).rejects.toMatchObject({ status: 403 });
+      expect((await auditLog.read()).map(entry => entry.action)).not.toContain('records.reveal');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import { scrypt } from '../scrypt';
+
+const encoder = new TextEncoder();
+
+describe('scrypt', () => {
+  it('should match the RFC 7914 test vector', async () => {
+    const key = await scrypt(encoder.encode('password'), encoder.encode('NaCl'), 64, { N: 1024, r: 8, p: 16 });
+
+    expect(Buffer.from(key).toString('hex')).toBe(
+      'fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162' +
+        '2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640'
+    );
+  });
+
+  it.each([
+    { N: 2, r: 1, p: 1 },
+    { N: 64, r: 3, p: 2 },
+    { N: 16384, r: 8, p: 1 },
+  ])('should match Node for N=$N, r=$r, p=$p', async (params) => {
+    const password = crypto.randomBytes(20);
+    const salt = crypto.randomBytes(16);
+
+    const key = await scrypt(password, salt, 32, params);
+
+    expect(Buffer.from(key)).toEqual(crypto.scryptSync(password, salt, 32, params));
+  });
+
+  it('should accept a UTF-8 passphrase as Node does', async () => {
+    const passphrase = 'pässwörd 🔑';
+    const params = { N: 16, r: 8, p: 1 };
+
+    const key = await scrypt(encoder.encode(passphrase), encoder.encode('salt'), 32, params);
+
+    expect(Buffer.from(key)).toEqual(crypto.scryptSync(passphrase, 'salt', 32, params));
+  });
+});
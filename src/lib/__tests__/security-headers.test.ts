@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { buildContentSecurityPolicy, isNoStorePath, loadCorsConfig } from '../security-headers';
+
+describe('loadCorsConfig', () => {
+  it('should read the origin allowlist', () => {
+    const config = loadCorsConfig({ CORS_ALLOWED_ORIGINS: 'https://a.example.com, http://localhost:3001' });
+
+    expect([...config.allowedOrigins]).toEqual(['https://a.example.com', 'http://localhost:3001']);
+    expect(config.allowCredentials).toBe(true);
+  });
+
+  it('should allow no origins by default', () => {
+    expect(loadCorsConfig({}).allowedOrigins.size).toBe(0);
+  });
+
+  it('should reject wildcards and malformed origins', () => {
+    expect(() => loadCorsConfig({ CORS_ALLOWED_ORIGINS: '*' })).toThrow('wildcards');
+    expect(() => loadCorsConfig({ CORS_ALLOWED_ORIGINS: 'https://a.example.com/path' })).toThrow('Invalid origin');
+    expect(() => loadCorsConfig({ CORS_ALLOW_CREDENTIALS: 'yes' })).toThrow('true or false');
+  });
+});
+
+describe('buildContentSecurityPolicy', () => {
+  it('should only allow eval in development', () => {
+    expect(buildContentSecurityPolicy('abc')).not.toContain('unsafe-eval');
+    expect(buildContentSecurityPolicy('abc', { development: true })).toContain("'unsafe-eval'");
+  });
+});
+
+describe('isNoStorePath', () => {
+  it('should match encrypted API routes, record pages and their children only', () => {
+    expect(isNoStorePath('/api/audit')).toBe(true);
+    expect(isNoStorePath('/api/records/1')).toBe(true);
+    expect(isNoStorePath('/records/1')).toBe(true);
+    expect(isNoStorePath('/api/recordsx')).toBe(false);
+    expect(isNoStorePath('/')).toBe(false);
+  });
+});
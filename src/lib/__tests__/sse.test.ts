@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+import { createEventStream, createServerSentEventParser, formatServerSentEvent, type ServerSentEvent } from '../sse';
+
+async function parse(chunks: string[]): Promise<ServerSentEvent[]> {
+  const encoder = new TextEncoder();
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+
+  const events: ServerSentEvent[] = [];
+  const reader = source.pipeThrough(createServerSentEventParser()).getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    events.push(next.value);
+  }
+  return events;
+}
+
+describe('server-sent events', () => {
+  it('should format events with multi-line data', () => {
+    expect(formatServerSentEvent({ id: '7', event: 'change', data: 'a\nb' })).toBe('id: 7\nevent: change\ndata: a\ndata: b\n\n');
+    expect(formatServerSentEvent({ retry: 3000 })).toBe('retry: 3000\n\n');
+  });
+
+  it('should not let ids or event names break the framing', () => {
+    expect(formatServerSentEvent({ id: '1\ndata: x', event: 'a\rb', data: 'y' })).toBe('id: 1data: x\nevent: ab\ndata: y\n\n');
+  });
+
+  it('should parse what it formats', async () => {
+    const text = formatServerSentEvent({ id: 'e-1', event: 'change', data: 'one\ntwo' }) + formatServerSentEvent({ event: 'reset', data: 'gone' });
+    expect(await parse([text])).toEqual([
+      { id: 'e-1', event: 'change', data: 'one\ntwo' },
+      { id: 'e-1', event: 'reset', data: 'gone' },
+    ]);
+  });
+
+  it('should handle events split across chunks, CRLF line ends and comments', async () => {
+    expect(await parse([': heartbeat\r', '\n\r\nid: 1\r', '\ndata:x', 'yz\r\n\r\n'])).toEqual([{ id: '1', data: 'xyz' }]);
+  });
+
+  it('should drop events without data and an unterminated last event', async () => {
+    expect(await parse(['event: empty\n\ndata: partial\n'])).toEqual([]);
+  });
+
+  it('should send what the source sends and run its cleanup once', async () => {
+    const cleanup = jest.fn();
+    const body = createEventStream((send, close) => {
+      send({ event: 'change', data: 'x' });
+      close();
+      return cleanup;
+    });
+
+    expect(await new Response(body).text()).toBe('event: change\ndata: x\n\n');
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should close instead of buffering without bound for a slow consumer', async () => {
+    const cleanup = jest.fn();
+    const body = createEventStream(send => {
+      for (let id = 1; id <= 5; id++) {
+        send({ id: String(id), data: 'x'.repeat(20) });
+      }
+      return cleanup;
+    }, { maxBufferedBytes: 64 });
+
+    const events = await parse([await new Response(body).text()]);
+    expect(events.map(event => event.id)).toEqual(['1', '2']);
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clean up when the consumer goes away', async () => {
+    const cleanup = jest.fn();
+    const reader = createEventStream(send => {
+      send({ data: 'first' });
+      return cleanup;
+    }).getReader();
+
+    await reader.read();
+    await reader.cancel();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+import { issueClaims } from '../claims';
+import type { SecretKey } from '../encryption';
+import { createKeyring } from '../keyring';
+import { createDecryptStream, createEncryptStream } from '../stream-encryption';
+
+const testKey = 'test-encryption-key-for-unit-tests';
+
+// Feeds the pieces through a transform and collects the output
+async function pipe(pieces: Uint8Array[], transform: TransformStream<Uint8Array, Uint8Array>): Promise<Buffer> {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(piece));
+      controller.close();
+    },
+  });
+  const reader = source.pipeThrough(transform).getReader();
+  const output: Uint8Array[] = [];
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    output.push(next.value);
+  }
+  return Buffer.concat(output);
+}
+
+function encryptToLines(plaintext: Buffer, options: Parameters<typeof createEncryptStream>[1] = {}) {
+  return pipe([plaintext], createEncryptStream(testKey, { chunkSize: 16, ...options })).then(output =>
+    output.toString('utf8').trimEnd().split('\n')
+  );
+}
+
+function decryptLines(lines: string[], options: Parameters<typeof createDecryptStream>[1] = {}, secretKey: SecretKey = testKey) {
+  return pipe([Buffer.from(lines.map(line => `${line}\n`).join(''))], createDecryptStream(secretKey, options));
+}
+
+describe('stream encryption', () => {
+  const plaintext = Buffer.from('0123456789abcdef'.repeat(4) + 'tail');
+
+  it('should seal a header line and one line per chunk, the last marked final', async () => {
+    const lines = await encryptToLines(plaintext);
+
+    expect(lines[0]).toMatch(/^s1\.default\.A256GCM-STREAM\./);
+    expect(lines.slice(1).map(line => line.slice(0, 2))).toEqual(['c.', 'c.', 'c.', 'c.', 'f.']);
+  });
+
+  it('should round-trip however the ciphertext is split', async () => {
+    const encrypted = await pipe([plaintext], createEncryptStream(testKey, { chunkSize: 16 }));
+    const pieces = Array.from({ length: Math.ceil(encrypted.length / 7) }, (_, i) => encrypted.subarray(i * 7, i * 7 + 7));
+
+    expect(await pipe(pieces, createDecryptStream(testKey))).toEqual(plaintext);
+  });
+
+  it('should round-trip an empty stream', async () => {
+    const lines = await encryptToLines(Buffer.alloc(0));
+
+    expect(lines).toHaveLength(2);
+    expect(await decryptLines(lines)).toEqual(Buffer.alloc(0));
+  });
+
+  it('should decrypt with a retired key from the keyring', async () => {
+    const lines = await encryptToLines(plaintext);
+    const keyring = createKeyring({ default: testKey, next: 'next-secret' }, 'next');
+
+    expect(await decryptLines(lines, {}, keyring)).toEqual(plaintext);
+  });
+
+  it('should reject a stream that ends before its final chunk', async () => {
+    const lines = await encryptToLines(plaintext);
+
+    await expect(decryptLines(lines.slice(0, -1))).rejects.toMatchObject({ code: 'STREAM_TRUNCATED' });
+  });
+
+  it('should reject a non-final chunk relabelled as final', async () => {
+    const lines = await encryptToLines(plaintext);
+    const truncated = [...lines.slice(0, 2), `f.${lines[2].slice(2)}`];
+
+    await expect(decryptLines(truncated)).rejects.toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+  });
+
+  it('should reject reordered chunks', async () => {
+    const lines = await encryptToLines(plaintext);
+    const reordered = [lines[0], lines[2], lines[1], ...lines.slice(3)];
+
+    await expect(decryptLines(reordered)).rejects.toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+  });
+
+  it('should reject data after the final chunk', async () => {
+    const lines = await encryptToLines(plaintext);
+
+    await expect(decryptLines([...lines, lines.at(-1)!])).rejects.toMatchObject({ code: 'MALFORMED_ENVELOPE' });
+  });
+
+  it('should reject a stream sealed with another key', async () => {
+    const lines = await encryptToLines(plaintext);
+
+    await expect(decryptLines(lines, {}, 'wrong-key')).rejects.toMatchObject({ code: 'AUTHENTICATION_FAILED' });
+  });
+
+  it('should check claims before releasing any plaintext', async () => {
+    const claims = issueClaims({ route: '/api/export', audience: 'exporter', ttlSeconds: 60 });
+    const lines = await encryptToLines(plaintext, { claims });
+
+    expect(await decryptLines(lines, { expect: { route: '/api/export', audience: 'exporter' } })).toEqual(plaintext);
+    await expect(decryptLines(lines, { expect: { audience: 'someone-else' } })).rejects.toMatchObject({ code: 'CLAIM_MISMATCH' });
+  });
+
+  it('should reject malformed header and chunk lines', async () => {
+    const lines = await encryptToLines(plaintext);
+
+    await expect(decryptLines(['v3.default.A256GCM.e30', ...lines.slice(1)])).rejects.toMatchObject({ code: 'MALFORMED_ENVELOPE' });
+    await expect(decryptLines([lines[0], 'x.AAAA'])).rejects.toMatchObject({ code: 'MALFORMED_ENVELOPE' });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * @jest-environment node
+ */
+import nodeCrypto from 'crypto';
+import { ClaimValidationError, issueClaims } from '../claims';
+import { loadCompressionConfigFromEnv } from '../compression-config';
+import { AuthenticationFailedError, MalformedEnvelopeError, MissingKeyError, UnknownKeyIdError } from '../decryption-errors';
+import * as node from '../encryption';
+import { detectRuntime, loadEncryption } from '../encryption-runtime';
+import { parseEnvelope } from '../envelope';
+import { clearKeyCache } from '../kdf';
+import { createKeyring } from '../keyring';
+import * as web from '../web-encryption';
+
+// Cross-implementation tests: whatever one implementation seals, the other
+// must open, and given the same random bytes both must seal the same string
+
+const rawKey = nodeCrypto.randomBytes(32).toString('base64');
+const passphrase = 'test-encryption-key-for-unit-tests';
+const fastScrypt = createKeyring({ fast: passphrase }, 'fast', { kdf: 'scrypt', scrypt: { N: 1024, r: 8, p: 1 } });
+const testData = JSON.stringify({ id: '123', title: 'Tëst Récord 🔐', sensitive: 'This is secret data' });
+const largeData = JSON.stringify(Array.from({ length: 200 }, (_, i) => ({ id: `r${i}`, title: 'Quarterly Report' })));
+
+// Produces a payload in the pre-envelope iv:tag:data format
+function encryptLegacy(text: string, secretKey: string): string {
+  const key = nodeCrypto.scryptSync(secretKey, 'salt', 32);
+  const iv = nodeCrypto.randomBytes(16);
+  const cipher = nodeCrypto.createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return `${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${encrypted.toString('base64')}`;
+}
+
+// Makes both implementations draw the same sequence of "random" bytes
+function useDeterministicRandom() {
+  let nodeCounter = 0;
+  let webCounter = 0;
+  jest.spyOn(nodeCrypto, 'randomBytes').mockImplementation(((size: number) =>
+    Buffer.alloc(size, ++nodeCounter)) as typeof nodeCrypto.randomBytes);
+  jest.spyOn(crypto, 'getRandomValues').mockImplementation(array => {
+    (array as Uint8Array).fill(++webCounter);
+    return array;
+  });
+}
+
+describe('Web Crypto encryption', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    clearKeyCache();
+    web.clearKeyCache();
+  });
+
+  describe.each([
+    ['a raw key (HKDF)', rawKey],
+    ['a passphrase (scrypt)', passphrase],
+    ['a keyring with custom scrypt parameters', fastScrypt],
+  ])('with %s', (_, secretKey) => {
+    it('should decrypt what Node encrypted', async () => {
+      await expect(web.decrypt(node.encrypt(testData, secretKey), secretKey)).resolves.toBe(testData);
+    });
+
+    it('should encrypt what Node decrypts', async () => {
+      expect(node.decrypt(await web.encrypt(testData, secretKey), secretKey)).toBe(testData);
+    });
+
+    it('should seal the same envelope as Node from the same random bytes', async () => {
+      useDeterministicRandom();
+      const claims = { route: '/api/encrypted-data', aud: 'records-viewer', iat: 1000, exp: 1060, nonce: 'abc' };
+
+      const fromNode = node.encrypt(testData, secretKey, { claims });
+      const fromWeb = await web.encrypt(testData, secretKey, { claims });
+
+      expect(fromWeb).toBe(fromNode);
+    });
+  });
+
+  it('should round-trip empty plaintexts across implementations', async () => {
+    await expect(web.decrypt(node.encrypt('', rawKey), rawKey)).resolves.toBe('');
+    expect(node.decrypt(await web.encrypt('', rawKey), rawKey)).toBe('');
+  });
+
+  describe('compression', () => {
+    it.each(['gzip', 'deflate'] as const)('should exchange %s-compressed payloads with Node', async algorithm => {
+      const compression = { algorithm, threshold: 1024 };
+
+      const fromWeb = await web.encrypt(largeData, rawKey, { compression });
+      expect(parseEnvelope(fromWeb)).toMatchObject({ header: { zip: algorithm } });
+      expect(node.decrypt(fromWeb, rawKey)).toBe(largeData);
+      await expect(web.decrypt(node.encrypt(largeData, rawKey, { compression }), rawKey)).resolves.toBe(largeData);
+    });
+
+    it('should seal uncompressed when Brotli is configured', async () => {
+      const encrypted = await web.encrypt(largeData, rawKey, { compression: { algorithm: 'br', threshold: 0 } });
+
+      expect(parseEnvelope(encrypted)).not.toHaveProperty('header.zip');
+      expect(node.decrypt(encrypted, rawKey)).toBe(largeData);
+    });
+
+    it('should refuse Brotli-compressed payloads', async () => {
+      const encrypted = node.encrypt(largeData, rawKey, { compression: { algorithm: 'br', threshold: 0 } });
+
+      await expect(web.decrypt(encrypted, rawKey)).rejects.toThrow(MalformedEnvelopeError);
+    });
+  });
+
+  describe('claims', () => {
+    const claims = issueClaims({ route: '/api/encrypted-data', audience: 'records-viewer', ttlSeconds: 60 });
+
+    it('should check claims sealed by Node', async () => {
+      const encrypted = node.encrypt(testData, rawKey, { claims });
+
+      await expect(web.decrypt(encrypted, rawKey, { expect: { audience: 'records-viewer' } })).resolves.toBe(testData);
+      await expect(web.decrypt(encrypted, rawKey, { expect: { audience: 'other' } })).rejects.toThrow(ClaimValidationError);
+    });
+
+    it('should reject payloads without claims when claims are expected', async () => {
+      await expect(web.decrypt(encryptLegacy(testData, passphrase), passphrase, { expect: {} })).rejects.toThrow(
+        ClaimValidationError
+      );
+    });
+  });
+
+  describe('failures', () => {
+    it('should report a tampered header as an authentication failure', async () => {
+      const parts = node.encrypt(testData, rawKey).split('.');
+      const header = JSON.parse(Buffer.from(parts[3], 'base64url').toString('utf8'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, zip: 'gzip' })).toString('base64url');
+
+      await expect(web.decrypt(parts.join('.'), rawKey)).rejects.toThrow(AuthenticationFailedError);
+    });
+
+    it('should report a wrong key as an authentication failure', async () => {
+      const otherKey = nodeCrypto.randomBytes(32).toString('base64');
+
+      await expect(web.decrypt(node.encrypt(testData, rawKey), otherKey)).rejects.toThrow(AuthenticationFailedError);
+    });
+
+    it('should report unknown key IDs', async () => {
+      const encrypted = node.encrypt(testData, createKeyring({ retired: rawKey }, 'retired'));
+
+      await expect(web.decrypt(encrypted, rawKey)).rejects.toThrow(UnknownKeyIdError);
+    });
+
+    it('should refuse scrypt parameters the keyring is not configured for', async () => {
+      const parts = node.encrypt(testData, fastScrypt).split('.');
+      const header = JSON.parse(Buffer.from(parts[3], 'base64url').toString('utf8'));
+      parts[3] = Buffer.from(JSON.stringify({ ...header, N: 4096, p: 16 })).toString('base64url');
+
+      const decrypting = web.decrypt(parts.join('.'), fastScrypt);
+
+      await expect(decrypting).rejects.toThrow(MalformedEnvelopeError);
+      await expect(decrypting).rejects.toThrow('scrypt parameters N=4096, r=8, p=16 are not configured for this keyring');
+    });
+
+    it('should reject malformed envelopes', async () => {
+      await expect(web.decrypt('not-an-envelope', rawKey)).rejects.toThrow(MalformedEnvelopeError);
+    });
+
+    it('should refuse payloads sealed with a wrapped data key', async () => {
+      const parts = node.encrypt(testData, rawKey).split('.');
+      const dataKey = Buffer.from(JSON.stringify({ kp: 'local', kid: 'first', wk: 'AAAA' })).toString('base64url');
+      const encrypted = ['v4', dataKey, ...parts.slice(2)].join('.');
+
+      await expect(web.decrypt(encrypted, rawKey)).rejects.toThrow(MissingKeyError);
+    });
+  });
+
+  describe('older envelopes', () => {
+    it('should decrypt v2 envelopes by key ID', async () => {
+      const [iv, tag, data] = encryptLegacy(testData, passphrase).split(':');
+      const keyring = createKeyring({ old: passphrase, current: rawKey }, 'current');
+
+      await expect(web.decrypt(['v2', 'old', 'A256GCM', iv, tag, data].join('.'), keyring)).resolves.toBe(testData);
+    });
+
+    it('should try every key for legacy iv:tag:data payloads', async () => {
+      const keyring = createKeyring({ default: passphrase, next: rawKey }, 'next');
+
+      await expect(web.decrypt(encryptLegacy(testData, passphrase), keyring)).resolves.toBe(testData);
+    });
+  });
+});
+
+describe('loadEncryption', () => {
+  it('should detect the edge runtime from NEXT_RUNTIME', () => {
+    expect(detectRuntime({ NEXT_RUNTIME: 'edge' })).toBe('edge');
+    expect(detectRuntime({ NEXT_RUNTIME: 'nodejs' })).toBe('nodejs');
+    expect(detectRuntime({})).toBe('nodejs');
+  });
+
+  it.each(['nodejs', 'edge'] as const)('should load an implementation for %s', async runtime => {
+    const implementation = await loadEncryption(runtime);
+
+    expect(implementation.runtime).toBe(runtime);
+    await expect(implementation.decrypt(await implementation.encrypt(testData, rawKey), rawKey)).resolves.toBe(testData);
+  });
+
+  it('should load implementations that read each other', async () => {
+    const [nodeImplementation, edgeImplementation] = await Promise.all([loadEncryption('nodejs'), loadEncryption('edge')]);
+
+    await expect(edgeImplementation.decrypt(await nodeImplementation.encrypt(testData, passphrase), passphrase)).resolves.toBe(
+      testData
+    );
+  });
+
+  it('should read each other with the compression each runtime may configure', async () => {
+    const [nodeImplementation, edgeImplementation] = await Promise.all([loadEncryption('nodejs'), loadEncryption('edge')]);
+    const largeData = 'record '.repeat(500);
+    const env = { ENCRYPTION_COMPRESSION: 'gzip', ENCRYPTION_COMPRESSION_THRESHOLD: '0' };
+
+    const fromNode = await nodeImplementation.encrypt(largeData, rawKey, { compression: loadCompressionConfigFromEnv(env) });
+    const fromEdge = await edgeImplementation.encrypt(largeData, rawKey, {
+      compression: loadCompressionConfigFromEnv({ ...env, NEXT_RUNTIME: 'edge' }),
+    });
+
+    await expect(edgeImplementation.decrypt(fromNode, rawKey)).resolves.toBe(largeData);
+    await expect(nodeImplementation.decrypt(fromEdge, rawKey)).resolves.toBe(largeData);
+    expect(() => loadCompressionConfigFromEnv({ ENCRYPTION_COMPRESSION: 'br', NEXT_RUNTIME: 'edge' })).toThrow(
+      'ENCRYPTION_COMPRESSION=br is not available on the edge runtime'
+    );
+  });
+});
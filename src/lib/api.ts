@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server';
+import { createMemoryReplayGuard, ENCRYPTED_DATA_TTL_SECONDS, issueClaims } from './claims';
+import { loadCompressionConfigFromEnv } from './compression';
+import { decryptWithDataKey, encryptWithDataKey, isDataKeyEnvelope } from './data-key-encryption';
+import { MissingKeyError } from './decryption-errors';
+import { decrypt, encrypt, type DecryptOptions } from './encryption';
+import { getKeyProvider } from './key-provider';
+import { loadKeyringFromEnv, type Keyring } from './keyring';
+
+// Helpers shared by API routes that exchange encrypted JSON bodies:
+//   request/response body: { "encryptedData": "v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>" }
+//   error body:            { "error": "<message>", "code": "<ApiErrorCode>", "details"?: [...] }
+
+export type ApiErrorCode =
+  | 'KEY_NOT_CONFIGURED'
+  | 'INVALID_BODY'
+  | 'DECRYPTION_FAILED'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  details?: string[];
+}
+
+// Thrown inside route handlers and turned into a typed JSON error response
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: string[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Converts anything thrown by a handler into an error response; unexpected
+// errors are logged and reported as a generic 500
+export function errorResponse(error: unknown, fallbackMessage: string): NextResponse<ApiErrorBody> {
+  if (error instanceof ApiError) {
+    const body: ApiErrorBody = { error: error.message, code: error.code };
+    if (error.details) {
+      body.details = error.details;
+    }
+    return NextResponse.json(body, { status: error.status });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json({ error: fallbackMessage, code: 'INTERNAL_ERROR' }, { status: 500 });
+}
+
+export function requireKeyring(): Keyring {
+  const keyring = loadKeyringFromEnv();
+  if (!keyring) {
+    throw new ApiError(500, 'KEY_NOT_CONFIGURED', 'Encryption key not configured');
+  }
+  return keyring;
+}
+
+// Nonces of request bodies already accepted, so a captured write can't be replayed
+const requestReplayGuard = createMemoryReplayGuard();
+
+// Reads a { encryptedData } body and returns the decrypted JSON value. The
+// body must be bound to the route and audience and not have been used before.
+export async function readEncryptedJson(
+  request: Request,
+  keyring: Keyring,
+  { route, audience }: { route: string; audience: string }
+): Promise<unknown> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, 'INVALID_BODY', 'Request body must be JSON');
+  }
+
+  const encryptedData = (body as { encryptedData?: unknown } | null)?.encryptedData;
+  if (typeof encryptedData !== 'string' || !encryptedData) {
+    throw new ApiError(400, 'INVALID_BODY', 'Request body must contain encryptedData');
+  }
+
+  let plaintext: string;
+  try {
+    plaintext = await decryptPayload(encryptedData, keyring, {
+      expect: { route, audience, replayGuard: requestReplayGuard },
+    });
+  } catch {
+    throw new ApiError(400, 'DECRYPTION_FAILED', 'Request body could not be decrypted');
+  }
+
+  try {
+    return JSON.parse(plaintext);
+  } catch {
+    throw new ApiError(400, 'INVALID_BODY', 'Decrypted body must be JSON');
+  }
+}
+
+// Encrypts a JSON value into an envelope bound to a route and audience,
+// compressed first per ENCRYPTION_COMPRESSION. With a key provider configured
+// (ENCRYPTION_KEY_PROVIDER) it is sealed under a fresh wrapped data key,
+// otherwise with the keyring.
+export async function encryptPayload(
+  data: unknown,
+  keyring: Keyring,
+  { route, audience }: { route: string; audience: string }
+): Promise<string> {
+  const claims = issueClaims({ route, audience, ttlSeconds: ENCRYPTED_DATA_TTL_SECONDS });
+  const options = { claims, compression: loadCompressionConfigFromEnv() };
+  const provider = getKeyProvider();
+  return provider ? encryptWithDataKey(JSON.stringify(data), provider, options) : encrypt(JSON.stringify(data), keyring, options);
+}
+
+// Opens an envelope from encryptPayload: payloads sealed under a wrapped data
+// key through the key provider, all others with the keyring
+export async function decryptPayload(encryptedData: string, keyring: Keyring, options: DecryptOptions = {}): Promise<string> {
+  if (!isDataKeyEnvelope(encryptedData)) {
+    return decrypt(encryptedData, keyring, options);
+  }
+  const provider = getKeyProvider();
+  if (!provider) {
+    throw new MissingKeyError('Payload is sealed with a wrapped data key, but no key provider is configured (ENCRYPTION_KEY_PROVIDER)');
+  }
+  return decryptWithDataKey(encryptedData, provider, options);
+}
+
+// Encrypts a JSON value into a { encryptedData } response bound to a route and audience
+export async function encryptedJson(
+  data: unknown,
+  keyring: Keyring,
+  { route, audience, status = 200 }: { route: string; audience: string; status?: number }
+): Promise<NextResponse<{ encryptedData: string }>> {
+  return NextResponse.json({ encryptedData: await encryptPayload(data, keyring, { route, audience }) }, { status });
+}
@@ -0,0 +1,172 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { createKeyring, keyringFromSecret } from '../../keyring';
+import { chainAuditEntry, GENESIS_HASH, signAuditHead, verifyAuditChain } from '../chain';
+import { createFileAuditLog } from '../file';
+import { createMemoryAuditLog } from '../memory';
+import type { AuditEntry, AuditEvent, AuditHead } from '../types';
+
+const keyring = keyringFromSecret(crypto.randomBytes(32).toString('base64'));
+
+function event(actor: string, recordIds: string[] = ['1']): AuditEvent {
+  return { actor, action: 'records.read', recordIds, outcome: 'success' };
+}
+
+function buildChain(length: number): AuditEntry[] {
+  const entries: AuditEntry[] = [];
+  for (let i = 0; i < length; i++) {
+    entries.push(chainAuditEntry(event(`user-${i}`), entries.at(-1) ?? null, keyring));
+  }
+  return entries;
+}
+
+function headOf(entries: AuditEntry[]): AuditHead | null {
+  return entries.length > 0 ? signAuditHead(entries[entries.length - 1], keyring) : null;
+}
+
+describe('audit chain', () => {
+  it('should link each entry to the previous one', () => {
+    const [first, second] = buildChain(2);
+
+    expect(first.seq).toBe(1);
+    expect(first.prevHash).toBe(GENESIS_HASH);
+    expect(second.seq).toBe(2);
+    expect(second.prevHash).toBe(first.hash);
+  });
+
+  it('should verify an intact chain', () => {
+    const entries = buildChain(3);
+    expect(verifyAuditChain(entries, keyring, headOf(entries))).toEqual({ ok: true, entries: 3, headHash: entries[2].hash });
+    expect(verifyAuditChain([], keyring, null)).toEqual({ ok: true, entries: 0, headHash: GENESIS_HASH });
+  });
+
+  it('should detect edited entries', () => {
+    const entries = buildChain(3);
+    const head = headOf(entries);
+    entries[1] = { ...entries[1], recordIds: ['other'] };
+
+    expect(verifyAuditChain(entries, keyring, head)).toMatchObject({ ok: false, index: 1, reason: 'Entry contents do not match its hash' });
+  });
+
+  it('should detect removed entries', () => {
+    const entries = buildChain(3);
+    expect(verifyAuditChain([entries[0], entries[2]], keyring, headOf(entries))).toMatchObject({ ok: false, index: 1 });
+  });
+
+  it('should detect an entry rehashed after editing', () => {
+    const entries = buildChain(3);
+    const head = headOf(entries);
+    entries[1] = chainAuditEntry({ ...entries[1], actor: 'someone-else' }, entries[0], keyring);
+
+    expect(verifyAuditChain(entries, keyring, head)).toMatchObject({ ok: false, index: 2, reason: 'Entry does not follow the previous entry' });
+  });
+
+  it('should detect a chain recomputed without the key', () => {
+    const entries = buildChain(2);
+    const forger = keyringFromSecret(crypto.randomBytes(32).toString('base64'), keyring.activeKeyId);
+    const forged = [entries[0], chainAuditEntry({ ...entries[1], actor: 'someone-else' }, entries[0], forger)];
+
+    expect(verifyAuditChain(forged, keyring, signAuditHead(forged[1], forger))).toMatchObject({
+      ok: false,
+      index: 1,
+      reason: 'Entry contents do not match its hash',
+    });
+  });
+
+  it('should detect entries cut off the end', () => {
+    const entries = buildChain(3);
+
+    expect(verifyAuditChain(entries.slice(0, 2), keyring, headOf(entries))).toMatchObject({
+      ok: false,
+      index: 2,
+      reason: 'Log ends at entry 2, but entry 3 was written',
+    });
+    expect(verifyAuditChain(entries.slice(0, 2), keyring, { ...headOf(entries)!, seq: 2, hash: entries[1].hash })).toMatchObject({
+      ok: false,
+      reason: 'Recorded head does not match its MAC',
+    });
+    expect(verifyAuditChain(entries, keyring, null)).toMatchObject({ ok: false, reason: 'No head is recorded for the log' });
+  });
+
+  it('should accept an entry appended after the head was recorded', () => {
+    const entries = buildChain(3);
+    expect(verifyAuditChain(entries, keyring, headOf(entries.slice(0, 2))).ok).toBe(true);
+  });
+
+  it('should verify entries chained under a retired key', () => {
+    const entries = buildChain(2);
+    const rotated = createKeyring({ ...Object.fromEntries(keyring.keys), next: crypto.randomBytes(32).toString('base64') }, 'next');
+    entries.push(chainAuditEntry(event('user-2'), entries[1], rotated));
+
+    expect(entries[2].keyId).toBe('next');
+    expect(verifyAuditChain(entries, rotated, signAuditHead(entries[2], rotated)).ok).toBe(true);
+    expect(verifyAuditChain(entries, keyring, signAuditHead(entries[1], keyring))).toMatchObject({ ok: false, index: 2 });
+  });
+});
+
+describe('audit logs', () => {
+  it('should append to an in-memory chain', async () => {
+    const log = createMemoryAuditLog(keyring);
+    await log.append(event('ann'));
+    await log.append(event('ada'));
+
+    const entries = await log.read();
+    expect(entries.map(entry => entry.actor)).toEqual(['ann', 'ada']);
+    expect(verifyAuditChain(entries, keyring, await log.head()).ok).toBe(true);
+  });
+
+  describe('file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should append JSON lines and continue the chain across instances', async () => {
+      const filePath = path.join(dir, 'nested', 'audit.log');
+      await createFileAuditLog(filePath, keyring).append(event('ann'));
+
+      const log = createFileAuditLog(filePath, keyring);
+      await Promise.all([log.append(event('ada')), log.append(event('vera'))]);
+
+      const entries = await log.read();
+      expect(entries.map(entry => entry.seq)).toEqual([1, 2, 3]);
+      expect(await log.head()).toMatchObject({ seq: 3, hash: entries[2].hash });
+      expect(verifyAuditChain(entries, keyring, await log.head()).ok).toBe(true);
+      expect((await fs.readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(3);
+    });
+
+    it('should detect a line edited on disk', async () => {
+      const filePath = path.join(dir, 'audit.log');
+      const log = createFileAuditLog(filePath, keyring);
+      await log.append(event('ann', ['1']));
+      await log.append(event('ada', ['2']));
+
+      const contents = await fs.readFile(filePath, 'utf8');
+      await fs.writeFile(filePath, contents.replace('"ann"', '"eve"'));
+
+      expect(verifyAuditChain(await log.read(), keyring, await log.head())).toMatchObject({ ok: false, index: 0 });
+    });
+
+    it('should detect lines removed from the end of the file', async () => {
+      const filePath = path.join(dir, 'audit.log');
+      const log = createFileAuditLog(filePath, keyring);
+      await log.append(event('ann', ['1']));
+      await log.append(event('ada', ['2']));
+
+      const [first] = (await fs.readFile(filePath, 'utf8')).split('\n');
+      await fs.writeFile(filePath, `${first}\n`);
+
+      expect(verifyAuditChain(await log.read(), keyring, await log.head())).toMatchObject({ ok: false, index: 1 });
+    });
+  });
+});
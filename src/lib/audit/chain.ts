@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { DEFAULT_SCRYPT_PARAMS, derivePayloadKey, resolveKdf } from '../kdf';
+import { UnknownKeyIdError } from '../decryption-errors';
+import type { Keyring } from '../keyring';
+import type { AuditEntry, AuditEvent, AuditHead, AuditVerification } from './types';
+
+// prevHash of the first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Domain separation for the chain key derived from a keyring secret
+const AUDIT_KEY_SALT = Buffer.from('next-encrypted-ssr/audit-chain', 'utf8');
+const AUDIT_KEY_INFO = 'audit-chain';
+
+// HMAC key for entries chained under keyId, or null if the keyring doesn't
+// hold it. Derived from the encryption secret, so rewriting the log and
+// recomputing the chain takes the key, not just write access to the file.
+// Fixed scrypt costs keep it stable when ENCRYPTION_SCRYPT_* changes.
+function auditKey(keyring: Keyring, keyId: string): Buffer | null {
+  const secret = keyring.keys.get(keyId);
+  if (!secret) {
+    return null;
+  }
+  return derivePayloadKey(secret, resolveKdf(secret, 'auto'), AUDIT_KEY_SALT, AUDIT_KEY_INFO, DEFAULT_SCRYPT_PARAMS);
+}
+
+function requireAuditKey(keyring: Keyring, keyId: string): Buffer {
+  const key = auditKey(keyring, keyId);
+  if (!key) {
+    throw new UnknownKeyIdError(keyId);
+  }
+  return key;
+}
+
+function hmac(key: Buffer, fields: unknown[]): string {
+  return crypto.createHmac('sha256', key).update(JSON.stringify(fields)).digest('hex');
+}
+
+function entryFields(entry: Omit<AuditEntry, 'hash'>): unknown[] {
+  return [
+    entry.seq,
+    entry.timestamp,
+    entry.actor,
+    entry.action,
+    entry.recordIds,
+    entry.outcome,
+    entry.detail ?? null,
+    entry.prevHash,
+    entry.keyId,
+  ];
+}
+
+// HMAC-SHA256 over the fields in a fixed order, so the hash doesn't depend on
+// how the entry was serialized. Keyed with the keyring key named by entry.keyId.
+export function hashAuditEntry(entry: Omit<AuditEntry, 'hash'>, keyring: Keyring): string {
+  return hmac(requireAuditKey(keyring, entry.keyId), entryFields(entry));
+}
+
+// Builds the entry that follows `previous` (or starts the chain), keyed with
+// the keyring's active key
+export function chainAuditEntry(
+  event: AuditEvent,
+  previous: AuditEntry | null,
+  keyring: Keyring,
+  now: Date = new Date()
+): AuditEntry {
+  const entry: Omit<AuditEntry, 'hash'> = {
+    seq: previous ? previous.seq + 1 : 1,
+    timestamp: now.toISOString(),
+    actor: event.actor,
+    action: event.action,
+    recordIds: [...event.recordIds],
+    outcome: event.outcome,
+    prevHash: previous ? previous.hash : GENESIS_HASH,
+    keyId: keyring.activeKeyId,
+  };
+  if (event.detail !== undefined) {
+    entry.detail = event.detail;
+  }
+  return { ...entry, hash: hashAuditEntry(entry, keyring) };
+}
+
+// The head record kept next to the log: the newest entry's number and hash,
+// with a MAC of its own so it can't be rewritten to match a truncated log
+export function signAuditHead(entry: AuditEntry, keyring: Keyring): AuditHead {
+  const head = { seq: entry.seq, hash: entry.hash, keyId: entry.keyId };
+  return { ...head, mac: hmac(requireAuditKey(keyring, head.keyId), ['head', head.seq, head.hash]) };
+}
+
+function checkHead(entries: AuditEntry[], keyring: Keyring, head: AuditHead | null): AuditVerification | null {
+  if (!head) {
+    return entries.length === 0 ? null : { ok: false, index: entries.length, reason: 'No head is recorded for the log' };
+  }
+
+  const key = auditKey(keyring, head.keyId);
+  if (!key || hmac(key, ['head', head.seq, head.hash]) !== head.mac) {
+    return { ok: false, index: entries.length, reason: 'Recorded head does not match its MAC' };
+  }
+  // Entries past the head are an append whose head update didn't land
+  if (entries.length < head.seq) {
+    return { ok: false, index: entries.length, reason: `Log ends at entry ${entries.length}, but entry ${head.seq} was written` };
+  }
+  if (entries[head.seq - 1].hash !== head.hash) {
+    return { ok: false, index: head.seq - 1, reason: 'Entry does not match the recorded head' };
+  }
+  return null;
+}
+
+// Walks the chain and reports the first entry that was edited, removed or
+// reordered, then checks the log against its recorded head, so cutting off
+// the newest entries is caught as well
+export function verifyAuditChain(entries: AuditEntry[], keyring: Keyring, head: AuditHead | null): AuditVerification {
+  let prevHash = GENESIS_HASH;
+
+  for (const [index, entry] of entries.entries()) {
+    if (entry.seq !== index + 1) {
+      return { ok: false, index, reason: `Expected entry ${index + 1}, found ${entry.seq}` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { ok: false, index, reason: 'Entry does not follow the previous entry' };
+    }
+
+    const { hash, ...rest } = entry;
+    const key = auditKey(keyring, entry.keyId);
+    if (!key) {
+      return { ok: false, index, reason: `Entry is keyed with unknown key ID "${entry.keyId}"` };
+    }
+    if (hmac(key, entryFields(rest)) !== hash) {
+      return { ok: false, index, reason: 'Entry contents do not match its hash' };
+    }
+    prevHash = hash;
+  }
+
+  return checkHead(entries, keyring, head) ?? { ok: true, entries: entries.length, headHash: prevHash };
+}
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Keyring } from '../keyring';
+import { chainAuditEntry, signAuditHead } from './chain';
+import type { AuditEntry, AuditHead, AuditLog } from './types';
+
+// Appends entries as JSON lines, keyed with the keyring's active key. The last
+// entry is read from the file once, then tracked in memory, so each file must
+// have a single writer process. Appends are serialized so concurrent requests
+// can't fork the chain. After each append the head is written to
+// <filePath>.head, so a log cut short no longer matches it.
+export function createFileAuditLog(filePath: string, keyring: Keyring): AuditLog {
+  const headPath = `${filePath}.head`;
+  let last: Promise<AuditEntry | null> | null = null;
+  let pendingAppend: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<AuditEntry[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map((line, index) => {
+        try {
+          return JSON.parse(line) as AuditEntry;
+        } catch {
+          throw new Error(`Audit log ${filePath} has a malformed entry on line ${index + 1}`);
+        }
+      });
+  }
+
+  // Through a temp file and rename, so a crash never leaves half a head
+  async function writeHead(head: AuditHead): Promise<void> {
+    const tempPath = `${headPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, `${JSON.stringify(head)}\n`, 'utf8');
+    await fs.rename(tempPath, headPath);
+  }
+
+  return {
+    append(event) {
+      const next = pendingAppend.then(async () => {
+        if (!last) {
+          last = readAll().then(entries => entries.at(-1) ?? null);
+        }
+
+        const entry = chainAuditEntry(event, await last, keyring);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+        last = Promise.resolve(entry);
+        await writeHead(signAuditHead(entry, keyring));
+        return entry;
+      });
+      pendingAppend = next.catch(() => {
+        // Re-read the last entry next time; the failed append may or may not have landed
+        last = null;
+      });
+      return next;
+    },
+
+    read: readAll,
+
+    async head() {
+      try {
+        return JSON.parse(await fs.readFile(headPath, 'utf8')) as AuditHead;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { ApiError } from '../api';
+import { DecryptionError } from '../decryption-errors';
+import { loadKeyringFromEnv } from '../keyring';
+import { createFileAuditLog } from './file';
+import { createMemoryAuditLog } from './memory';
+import type { AuditEvent, AuditLog, AuditOutcome } from './types';
+
+export type { AuditEntry, AuditEvent, AuditHead, AuditLog, AuditOutcome, AuditVerification } from './types';
+export { chainAuditEntry, GENESIS_HASH, hashAuditEntry, signAuditHead, verifyAuditChain } from './chain';
+export { createFileAuditLog } from './file';
+export { createMemoryAuditLog } from './memory';
+
+const DEFAULT_AUDIT_PATH = 'data/audit.log';
+
+let auditLog: AuditLog | null = null;
+
+// Builds the audit log selected by environment variables:
+//   AUDIT_STORE=file (default) | memory
+//   AUDIT_LOG_PATH overrides the file location
+// The chain is keyed from the ENCRYPTION_KEY(S) keyring.
+export function createAuditLogFromEnv(env: Record<string, string | undefined> = process.env): AuditLog {
+  const store = env.AUDIT_STORE || 'file';
+  const keyring = loadKeyringFromEnv(env);
+
+  switch (store) {
+    case 'file':
+      if (!keyring) {
+        throw new Error('The audit log needs ENCRYPTION_KEY or ENCRYPTION_KEYS to key its hash chain');
+      }
+      return createFileAuditLog(env.AUDIT_LOG_PATH || DEFAULT_AUDIT_PATH, keyring);
+    case 'memory':
+      return createMemoryAuditLog(keyring ?? undefined);
+    default:
+      throw new Error(`Unknown AUDIT_STORE "${store}". Expected file or memory`);
+  }
+}
+
+// Process-wide audit log, created lazily from the environment
+export function getAuditLog(): AuditLog {
+  if (!auditLog) {
+    auditLog = createAuditLogFromEnv();
+  }
+  return auditLog;
+}
+
+// Replaces the process-wide audit log (e.g. in tests); null resets it
+export function setAuditLog(next: AuditLog | null): void {
+  auditLog = next;
+}
+
+// Records an event; throws if it can't be written, so callers fail closed
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  await getAuditLog().append(event);
+}
+
+// Records a failed operation. The operation has already failed, so a write
+// error here is logged rather than thrown over the original error.
+export async function recordAuditFailure(event: Omit<AuditEvent, 'outcome' | 'detail'>, error: unknown): Promise<void> {
+  const outcome: AuditOutcome = error instanceof ApiError && (error.status === 401 || error.status === 403) ? 'denied' : 'error';
+  const detail = error instanceof ApiError || error instanceof DecryptionError ? error.code : 'INTERNAL_ERROR';
+
+  try {
+    await recordAuditEvent({ ...event, outcome, detail });
+  } catch (auditError) {
+    console.error('Failed to write audit entry:', auditError);
+  }
+}
@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+import { keyringFromSecret, type Keyring } from '../keyring';
+import { chainAuditEntry, signAuditHead } from './chain';
+import type { AuditEntry, AuditHead, AuditLog } from './types';
+
+// Keeps the chain in memory; for tests and single-process demos. Without a
+// keyring the chain is keyed with a random key that lives as long as the log.
+export function createMemoryAuditLog(keyring: Keyring = keyringFromSecret(crypto.randomBytes(32).toString('base64'))): AuditLog {
+  const entries: AuditEntry[] = [];
+  let head: AuditHead | null = null;
+
+  return {
+    async append(event) {
+      const entry = chainAuditEntry(event, entries.at(-1) ?? null, keyring);
+      entries.push(entry);
+      head = signAuditHead(entry, keyring);
+      return entry;
+    },
+
+    async read() {
+      return entries.map(entry => ({ ...entry, recordIds: [...entry.recordIds] }));
+    },
+
+    async head() {
+      return head && { ...head };
+    },
+  };
+}
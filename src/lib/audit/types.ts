@@ -0,0 +1,42 @@
+export type AuditOutcome = 'success' | 'denied' | 'error';
+
+// What happened, as reported by a route or server component
+export interface AuditEvent {
+  actor: string | null;  // Username, or null when no session was presented
+  action: string;        // e.g. records.list, records.decrypt, auth.login
+  recordIds: string[];   // Records returned, decrypted or changed
+  outcome: AuditOutcome;
+  detail?: string;       // Error code or short reason for denied/error outcomes; the format for exports, the field for reveals
+}
+
+// An event as stored: numbered, timestamped and chained to its predecessor.
+// hash is an HMAC over every other field, including prevHash, keyed from the
+// keyring key named by keyId.
+export interface AuditEntry extends AuditEvent {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  keyId: string;
+  hash: string;
+}
+
+// The newest entry as last recorded, MACed with the same key, so a log cut
+// short no longer matches it
+export interface AuditHead {
+  seq: number;
+  hash: string;
+  keyId: string;
+  mac: string;
+}
+
+// Append-only log; implementations chain each entry to the previous one and
+// record the head after every append
+export interface AuditLog {
+  append(event: AuditEvent): Promise<AuditEntry>;
+  read(): Promise<AuditEntry[]>;
+  head(): Promise<AuditHead | null>; // null while the log is empty
+}
+
+export type AuditVerification =
+  | { ok: true; entries: number; headHash: string }
+  | { ok: false; index: number; reason: string };
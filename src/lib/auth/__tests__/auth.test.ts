@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { DEFAULT_RECORD_QUERY } from '../../records/query';
+import { keyringFromSecret } from '../../keyring';
+import { applyClearance, canAccess, loadAccessPolicyFromEnv, scopeQuery } from '../access';
+import { createSessionToken, readCookie, readSessionToken } from '../session';
+import { createUserStore, hashPassword, verifyPassword, type User } from '../users';
+
+const viewer: User = { username: 'vera', role: 'viewer' };
+const analyst: User = { username: 'ann', role: 'analyst' };
+const admin: User = { username: 'ada', role: 'admin' };
+
+describe('users', () => {
+  it('should hash and verify passwords', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$16384\$8\$1\$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('should verify credentials against the store', async () => {
+    const store = createUserStore([{ ...analyst, passwordHash: await hashPassword('secret') }]);
+
+    expect(await store.verifyCredentials('ann', 'secret')).toEqual(analyst);
+    expect(await store.verifyCredentials('ann', 'nope')).toBeNull();
+    expect(await store.verifyCredentials('nobody', 'secret')).toBeNull();
+  });
+});
+
+describe('sessions', () => {
+  const keyring = keyringFromSecret('session-test-key');
+
+  it('should round-trip a user through a session token', () => {
+    expect(readSessionToken(createSessionToken(admin, keyring), keyring)).toEqual(admin);
+  });
+
+  it('should reject expired, foreign or tampered tokens', () => {
+    expect(readSessionToken(createSessionToken(admin, keyring, -3600), keyring)).toBeNull();
+    expect(readSessionToken(createSessionToken(admin, keyringFromSecret('other-key')), keyring)).toBeNull();
+    expect(readSessionToken(createSessionToken(admin, keyring).slice(0, -4) + 'AAAA', keyring)).toBeNull();
+    expect(readSessionToken('not-a-token', keyring)).toBeNull();
+  });
+
+  it('should read cookies from a Cookie header', () => {
+    expect(readCookie('a=1; records_session=v3.x%2By; b=2', 'records_session')).toBe('v3.x+y');
+    expect(readCookie(null, 'records_session')).toBeUndefined();
+  });
+});
+
+describe('access', () => {
+  it('should map roles to sensitivity clearance', () => {
+    expect(canAccess(viewer, 'Private')).toBe(true);
+    expect(canAccess(viewer, 'Confidential')).toBe(false);
+    expect(canAccess(analyst, 'Confidential')).toBe(true);
+    expect(canAccess(analyst, 'Highly Confidential')).toBe(false);
+    expect(canAccess(admin, 'Highly Confidential')).toBe(true);
+    expect(canAccess(admin, 'Top Secret')).toBe(false);
+  });
+
+  it('should redact records above clearance', () => {
+    const records = [
+      { id: '1', title: 'Visible', type: 'Record', sensitivity: 'Private', date: '2024-01-01' },
+      { id: '2', title: 'Hidden', type: 'Report', sensitivity: 'Highly Confidential', date: '2024-01-02' },
+    ];
+
+    expect(applyClearance(records, analyst)).toEqual([
+      records[0],
+      { id: '2', title: '', type: 'Report', sensitivity: 'Highly Confidential', date: '2024-01-02', redacted: true },
+    ]);
+  });
+
+  it('should scope queries to the user\'s clearance', () => {
+    expect(scopeQuery(DEFAULT_RECORD_QUERY, viewer, 'redact')).toBe(DEFAULT_RECORD_QUERY);
+    expect(scopeQuery({ ...DEFAULT_RECORD_QUERY, q: 'x' }, viewer, 'redact').sensitivity).toEqual(['Private']);
+    expect(scopeQuery(DEFAULT_RECORD_QUERY, analyst, 'omit').sensitivity).toEqual(['Private', 'Confidential']);
+    expect(
+      scopeQuery({ ...DEFAULT_RECORD_QUERY, sensitivity: ['Highly Confidential'] }, analyst, 'omit').sensitivity
+    ).toEqual([]);
+  });
+
+  it('should load the access policy from the environment', () => {
+    expect(loadAccessPolicyFromEnv({})).toBe('redact');
+    expect(loadAccessPolicyFromEnv({ RECORDS_ABOVE_CLEARANCE: 'omit' })).toBe('omit');
+    expect(() => loadAccessPolicyFromEnv({ RECORDS_ABOVE_CLEARANCE: 'show' })).toThrow('redact or omit');
+  });
+});
@@ -0,0 +1,66 @@
+import { ApiError } from '../api';
+import type { RecordQuery } from '../records/query';
+import type { RecordItem } from '../records/types';
+import { SENSITIVITY_LEVELS, sensitivityRank } from '../records/taxonomy';
+import type { Role, User } from './users';
+
+// Highest sensitivity level each role may read
+export const ROLE_CLEARANCE: Record<Role, string> = {
+  viewer: 'Private',
+  analyst: 'Confidential',
+  admin: 'Highly Confidential',
+};
+
+// What happens to records above a user's clearance:
+//   redact: listed without their title (search only covers cleared records)
+//   omit:   left out of results and counts entirely
+export type AccessPolicy = 'redact' | 'omit';
+
+// A record as released to a user; redacted records carry no title
+export type ClearedRecord = RecordItem & { redacted?: true };
+
+export function canAccess(user: User, sensitivity: string): boolean {
+  return sensitivityRank(sensitivity) <= sensitivityRank(ROLE_CLEARANCE[user.role]);
+}
+
+// For route handlers acting on a single record
+export function requireClearance(user: User, sensitivity: string): void {
+  if (!canAccess(user, sensitivity)) {
+    throw new ApiError(403, 'FORBIDDEN', `Role "${user.role}" is not cleared for ${sensitivity} records`);
+  }
+}
+
+export function allowedSensitivities(user: User): string[] {
+  return SENSITIVITY_LEVELS.filter(level => canAccess(user, level));
+}
+
+export function loadAccessPolicyFromEnv(env: Record<string, string | undefined> = process.env): AccessPolicy {
+  const policy = env.RECORDS_ABOVE_CLEARANCE || 'redact';
+  if (policy !== 'redact' && policy !== 'omit') {
+    throw new Error('RECORDS_ABOVE_CLEARANCE must be redact or omit');
+  }
+  return policy;
+}
+
+// Narrows a query to the user's clearance where needed. Text search is always
+// narrowed, otherwise matches on redacted records would reveal their titles.
+export function scopeQuery(query: RecordQuery, user: User, policy: AccessPolicy): RecordQuery {
+  if (policy === 'redact' && !query.q) {
+    return query;
+  }
+
+  const allowed = allowedSensitivities(user);
+  return {
+    ...query,
+    sensitivity: query.sensitivity ? query.sensitivity.filter(level => allowed.includes(level)) : allowed,
+  };
+}
+
+export function redactRecord({ id, type, sensitivity, date }: RecordItem): ClearedRecord {
+  return { id, type, sensitivity, date, title: '', redacted: true };
+}
+
+// Redacts every record above the user's clearance; already redacted records pass through
+export function applyClearance<T extends ClearedRecord>(records: T[], user: User): (T | ClearedRecord)[] {
+  return records.map(record => (record.redacted || canAccess(user, record.sensitivity) ? record : redactRecord(record)));
+}
@@ -0,0 +1,35 @@
+export {
+  allowedSensitivities,
+  applyClearance,
+  canAccess,
+  loadAccessPolicyFromEnv,
+  redactRecord,
+  requireClearance,
+  ROLE_CLEARANCE,
+  scopeQuery,
+  type AccessPolicy,
+  type ClearedRecord,
+} from './access';
+export {
+  createSessionToken,
+  getCurrentSession,
+  getSessionUser,
+  loadSessionKeyring,
+  readCookie,
+  readSessionToken,
+  requireUser,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from './session';
+export {
+  createUserStore,
+  getUserStore,
+  hashPassword,
+  ROLES,
+  setUserStore,
+  verifyPassword,
+  type Role,
+  type User,
+  type UserRecord,
+  type UserStore,
+} from './users';
@@ -0,0 +1,95 @@
+import { cookies } from 'next/headers';
+import { ApiError } from '../api';
+import { issueClaims } from '../claims';
+import { decrypt, encrypt } from '../encryption';
+import { loadKeyringFromEnv, type Keyring } from '../keyring';
+import { getUserStore, isRole, type User } from './users';
+
+// Sessions are encrypted cookies: the user is sealed with our own envelope
+// format, bound to the session audience and given an expiry, so the cookie
+// can be neither read nor forged without the key.
+
+export const SESSION_COOKIE = 'records_session';
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+const SESSION_AUDIENCE = 'records-session';
+
+// SESSION_ENCRYPTION_KEY(S) if set, otherwise the main keyring
+export function loadSessionKeyring(env: Record<string, string | undefined> = process.env): Keyring | null {
+  return loadKeyringFromEnv(env, 'SESSION_ENCRYPTION') ?? loadKeyringFromEnv(env);
+}
+
+export function createSessionToken(user: User, keyring: Keyring, ttlSeconds: number = SESSION_TTL_SECONDS): string {
+  const claims = { ...issueClaims({ audience: SESSION_AUDIENCE, ttlSeconds }), sub: user.username };
+  return encrypt(JSON.stringify({ username: user.username, role: user.role }), keyring, { claims });
+}
+
+// Returns the user sealed in the token, or null if it is invalid or expired
+export function readSessionToken(token: string, keyring: Keyring): User | null {
+  try {
+    const user = JSON.parse(decrypt(token, keyring, { expect: { audience: SESSION_AUDIENCE } }));
+    return typeof user?.username === 'string' && isRole(user.role) ? { username: user.username, role: user.role } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function sessionCookieOptions(maxAge: number = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge,
+  };
+}
+
+export function readCookie(cookieHeader: string | null, name: string): string | undefined {
+  for (const part of (cookieHeader ?? '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator !== -1 && part.slice(0, separator).trim() === name) {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+// Resolves a session token to the user's current record, so role changes and
+// removed accounts take effect before the cookie expires
+async function resolveSession(token: string | undefined): Promise<User | null> {
+  const keyring = loadSessionKeyring();
+  const sessionUser = token && keyring ? readSessionToken(token, keyring) : null;
+  if (!sessionUser) {
+    return null;
+  }
+  return (await getUserStore()).get(sessionUser.username);
+}
+
+// Resolved sessions per request, so the rate limiter and the handler don't
+// both decrypt the cookie and hit the user store
+const requestSessions = new WeakMap<Request, Promise<User | null>>();
+
+// For route handlers: reads the session cookie from the request
+export function getSessionUser(request: Request): Promise<User | null> {
+  let session = requestSessions.get(request);
+  if (!session) {
+    session = resolveSession(readCookie(request.headers.get('cookie'), SESSION_COOKIE));
+    requestSessions.set(request, session);
+  }
+  return session;
+}
+
+// For route handlers that require a signed-in user
+export async function requireUser(request: Request): Promise<User> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    throw new ApiError(401, 'UNAUTHENTICATED', 'Sign in required');
+  }
+  return user;
+}
+
+// For server components: reads the session cookie of the current request
+export async function getCurrentSession(): Promise<{ user: User; token: string } | null> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = await resolveSession(token);
+  return user && token ? { user, token } : null;
+}
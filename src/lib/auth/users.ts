@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+
+export const ROLES = ['viewer', 'analyst', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+export interface User {
+  username: string;
+  role: Role;
+}
+
+// Stored form: passwordHash is scrypt$<N>$<r>$<p>$<salt>$<hash> (base64 salt and hash)
+export interface UserRecord extends User {
+  passwordHash: string;
+}
+
+export interface UserStore {
+  // Resolves to the user when the password matches, null otherwise
+  verifyCredentials(username: string, password: string): Promise<User | null>;
+  get(username: string): Promise<User | null>;
+}
+
+const HASH_PARAMS = { N: 16384, r: 8, p: 1 };
+const HASH_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+// Demo accounts used outside production when no user file is configured
+const DEMO_PASSWORD = 'demo-password';
+const DEMO_USERS: User[] = [
+  { username: 'viewer', role: 'viewer' },
+  { username: 'analyst', role: 'analyst' },
+  { username: 'admin', role: 'admin' },
+];
+
+function scrypt(password: string, salt: Buffer, params: typeof HASH_PARAMS): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, HASH_LENGTH, params, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, HASH_PARAMS);
+  const { N, r, p } = HASH_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function createUserStore(records: UserRecord[]): UserStore {
+  const users = new Map(records.map(record => [record.username, record]));
+  // Unknown usernames are checked against this hash so they take as long as known ones
+  const dummyHash = hashPassword(crypto.randomBytes(16).toString('base64'));
+
+  return {
+    async verifyCredentials(username, password) {
+      const record = users.get(username);
+      const matches = await verifyPassword(password, record?.passwordHash ?? (await dummyHash));
+      return record && matches ? { username: record.username, role: record.role } : null;
+    },
+
+    async get(username) {
+      const record = users.get(username);
+      return record ? { username: record.username, role: record.role } : null;
+    },
+  };
+}
+
+// Reads a JSON array of UserRecord objects
+export function loadUserRecords(filePath: string): UserRecord[] {
+  const records = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(records)) {
+    throw new Error(`User file ${filePath} must contain a JSON array`);
+  }
+
+  for (const record of records) {
+    if (typeof record?.username !== 'string' || typeof record.passwordHash !== 'string' || !isRole(record.role)) {
+      throw new Error(`User file ${filePath} has an invalid entry. Expected { username, role, passwordHash }`);
+    }
+  }
+  return records;
+}
+
+let userStore: Promise<UserStore> | null = null;
+
+// Users come from AUTH_USERS_FILE; without it, development falls back to the
+// demo accounts (viewer / analyst / admin, password "demo-password")
+export async function createUserStoreFromEnv(env: Record<string, string | undefined> = process.env): Promise<UserStore> {
+  if (env.AUTH_USERS_FILE) {
+    return createUserStore(loadUserRecords(env.AUTH_USERS_FILE));
+  }
+  if (env.NODE_ENV === 'production') {
+    throw new Error('AUTH_USERS_FILE must be set in production');
+  }
+
+  const demoHash = await hashPassword(DEMO_PASSWORD);
+  return createUserStore(DEMO_USERS.map(user => ({ ...user, passwordHash: demoHash })));
+}
+
+// Process-wide user store, created lazily from the environment
+export function getUserStore(): Promise<UserStore> {
+  if (!userStore) {
+    userStore = createUserStoreFromEnv();
+  }
+  return userStore;
+}
+
+// Replaces the process-wide user store (e.g. in tests); null resets it
+export function setUserStore(next: UserStore | null): void {
+  userStore = next ? Promise.resolve(next) : null;
+}
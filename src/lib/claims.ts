@@ -0,0 +1,149 @@
+import { bytesToBase64Url } from './encoding';
+
+// Claims bound to a payload through the authenticated envelope header.
+// Times are seconds since the epoch, as in JWT. Uses Web APIs only, so both
+// encryption implementations can check claims.
+export interface PayloadClaims {
+  route?: string;  // API route that issued the payload
+  aud?: string;    // Intended consumer
+  sub?: string;    // What the payload is about, e.g. a single record field
+  iat?: number;    // Issued at
+  exp?: number;    // Expires at
+  nonce?: string;  // Unique per payload, used for replay detection
+}
+
+// What a consumer expects of a payload before accepting it
+export interface ClaimExpectations {
+  route?: string;
+  audience?: string;
+  subject?: string;
+  requireExpiry?: boolean;       // Defaults to true; values sealed at rest may not expire
+  replayGuard?: ReplayGuard;
+  now?: number;                  // Override of the current time, in seconds
+  clockToleranceSeconds?: number;
+}
+
+export type ClaimErrorCode = 'CLAIMS_MISSING' | 'CLAIM_MISMATCH' | 'PAYLOAD_EXPIRED' | 'PAYLOAD_NOT_YET_VALID' | 'PAYLOAD_REPLAYED';
+
+// Thrown when a payload decrypts correctly but is not valid for this consumer
+export class ClaimValidationError extends Error {
+  constructor(public readonly code: ClaimErrorCode, message: string) {
+    super(message);
+    this.name = 'ClaimValidationError';
+  }
+}
+
+// Remembers nonces until their payload expires; returns false for a nonce seen before
+export interface ReplayGuard {
+  markSeen(nonce: string, expiresAt: number): boolean;
+}
+
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30;
+const NONCE_LENGTH = 16;
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+// Builds fresh claims for a payload: issued now, expiring after ttlSeconds, random nonce
+export function issueClaims({ route, audience, ttlSeconds }: {
+  route?: string;
+  audience?: string;
+  ttlSeconds: number;
+}): PayloadClaims {
+  const iat = nowInSeconds();
+  return {
+    route,
+    aud: audience,
+    iat,
+    exp: iat + ttlSeconds,
+    nonce: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(NONCE_LENGTH))),
+  };
+}
+
+// In-memory replay guard for a single server process
+export function createMemoryReplayGuard(): ReplayGuard {
+  const seen = new Map<string, number>();
+
+  return {
+    markSeen(nonce, expiresAt) {
+      const now = nowInSeconds();
+      for (const [seenNonce, seenExpiry] of seen) {
+        if (seenExpiry < now - DEFAULT_CLOCK_TOLERANCE_SECONDS) {
+          seen.delete(seenNonce);
+        }
+      }
+
+      if (seen.has(nonce)) {
+        return false;
+      }
+      seen.set(nonce, expiresAt);
+      return true;
+    },
+  };
+}
+
+// Checks authenticated claims against a consumer's expectations.
+// Only call this after the payload's tag has been verified.
+export function verifyClaims(claims: PayloadClaims | undefined, expectations: ClaimExpectations): void {
+  const requireExpiry = expectations.requireExpiry ?? true;
+  if (!claims || (requireExpiry && claims.exp === undefined)) {
+    throw new ClaimValidationError('CLAIMS_MISSING', 'Payload is not bound to a route, audience or expiry');
+  }
+
+  if (expectations.route !== undefined && claims.route !== expectations.route) {
+    throw new ClaimValidationError('CLAIM_MISMATCH', `Payload was issued for route "${claims.route}"`);
+  }
+  if (expectations.audience !== undefined && claims.aud !== expectations.audience) {
+    throw new ClaimValidationError('CLAIM_MISMATCH', `Payload was issued for audience "${claims.aud}"`);
+  }
+  if (expectations.subject !== undefined && claims.sub !== expectations.subject) {
+    throw new ClaimValidationError('CLAIM_MISMATCH', `Payload was issued for subject "${claims.sub}"`);
+  }
+
+  const now = expectations.now ?? nowInSeconds();
+  const tolerance = expectations.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS;
+
+  if (claims.exp !== undefined && claims.exp + tolerance < now) {
+    throw new ClaimValidationError('PAYLOAD_EXPIRED', 'Payload has expired');
+  }
+  if (claims.iat !== undefined && claims.iat - tolerance > now) {
+    throw new ClaimValidationError('PAYLOAD_NOT_YET_VALID', 'Payload was issued in the future');
+  }
+
+  if (expectations.replayGuard) {
+    if (!claims.nonce || claims.exp === undefined) {
+      throw new ClaimValidationError('CLAIMS_MISSING', 'Payload has no nonce and expiry for replay detection');
+    }
+    if (!expectations.replayGuard.markSeen(claims.nonce, claims.exp)) {
+      throw new ClaimValidationError('PAYLOAD_REPLAYED', 'Payload has already been used');
+    }
+  }
+}
+
+// Binding for the /api/encrypted-data → page.tsx exchange
+export const ENCRYPTED_DATA_ROUTE = '/api/encrypted-data';
+export const RECORDS_VIEWER_AUDIENCE = 'records-viewer';
+export const ENCRYPTED_DATA_TTL_SECONDS = 60;
+
+// Binding for the chunked stream from /api/encrypted-data/stream
+export const ENCRYPTED_DATA_STREAM_ROUTE = '/api/encrypted-data/stream';
+
+// Binding for each event of the live updates feed at /api/encrypted-data/events
+export const ENCRYPTED_DATA_EVENTS_ROUTE = '/api/encrypted-data/events';
+
+// Binding for responses from the /api/records CRUD routes
+export const RECORDS_API_ROUTE = '/api/records';
+export const RECORDS_API_AUDIENCE = 'records-api';
+
+// Binding for request bodies sent to the /api/records CRUD routes; a distinct
+// audience, so a response can't be sent back as a write
+export const RECORDS_API_REQUEST_AUDIENCE = 'records-api-request';
+
+// Binding for responses from /api/audit
+export const AUDIT_API_ROUTE = '/api/audit';
+export const AUDIT_API_AUDIENCE = 'audit-api';
+
+// Binding for passphrase-encrypted exports from /api/export
+export const EXPORT_ROUTE = '/api/export';
+export const EXPORT_AUDIENCE = 'records-export';
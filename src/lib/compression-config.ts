@@ -0,0 +1,44 @@
+import { detectRuntime } from './runtime';
+
+// Compression settings shared by compression.ts (zlib) and the Web Crypto
+// implementation (CompressionStream). No Node imports, so the edge runtime
+// can load it.
+
+export const COMPRESSION_ALGORITHMS = ['gzip', 'deflate', 'br'] as const;
+export type CompressionAlgorithm = (typeof COMPRESSION_ALGORITHMS)[number];
+
+export interface CompressionConfig {
+  algorithm: CompressionAlgorithm | 'none';
+  threshold: number; // Plaintexts smaller than this many bytes are left as they are
+}
+
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+export const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = { algorithm: 'none', threshold: DEFAULT_COMPRESSION_THRESHOLD };
+
+// Decompressed payloads larger than this are rejected rather than inflated
+export const MAX_DECOMPRESSED_BYTES = 64 * 1024 * 1024;
+
+export function isCompressionAlgorithm(value: unknown): value is CompressionAlgorithm {
+  return COMPRESSION_ALGORITHMS.includes(value as CompressionAlgorithm);
+}
+
+// Loads ENCRYPTION_COMPRESSION (none, gzip, deflate or br) and
+// ENCRYPTION_COMPRESSION_THRESHOLD (bytes). The edge runtime has no Brotli, so
+// br is refused there rather than sealing payloads it couldn't open.
+export function loadCompressionConfigFromEnv(env: Record<string, string | undefined> = process.env): CompressionConfig {
+  const algorithm = env.ENCRYPTION_COMPRESSION || 'none';
+  if (algorithm !== 'none' && !isCompressionAlgorithm(algorithm)) {
+    throw new Error(`ENCRYPTION_COMPRESSION must be one of none, ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+  if (algorithm === 'br' && detectRuntime(env) === 'edge') {
+    throw new Error('ENCRYPTION_COMPRESSION=br is not available on the edge runtime; use gzip or deflate');
+  }
+
+  const thresholdValue = env.ENCRYPTION_COMPRESSION_THRESHOLD;
+  const threshold = thresholdValue ? Number(thresholdValue) : DEFAULT_COMPRESSION_THRESHOLD;
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error('ENCRYPTION_COMPRESSION_THRESHOLD must be a non-negative integer');
+  }
+
+  return { algorithm, threshold };
+}
@@ -0,0 +1,61 @@
+import zlib from 'zlib';
+import {
+  isCompressionAlgorithm,
+  MAX_DECOMPRESSED_BYTES,
+  type CompressionAlgorithm,
+  type CompressionConfig,
+} from './compression-config';
+import { MalformedEnvelopeError } from './decryption-errors';
+
+export {
+  COMPRESSION_ALGORITHMS,
+  DEFAULT_COMPRESSION_CONFIG,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  isCompressionAlgorithm,
+  loadCompressionConfigFromEnv,
+  MAX_DECOMPRESSED_BYTES,
+  type CompressionAlgorithm,
+  type CompressionConfig,
+} from './compression-config';
+
+// Optional compression of plaintext before it is encrypted. Ciphertext does
+// not compress, so this is the only point where it helps. The algorithm used
+// is recorded in the authenticated envelope header as "zip".
+//
+// Compressing secrets next to attacker-influenced text leaks information
+// through the ciphertext length (as in CRIME/BREACH), so it is off by default.
+// The settings are in compression-config.ts.
+
+// Compresses a plaintext when the config asks for it, the plaintext is over the
+// threshold and the result is actually smaller. Returns the algorithm applied.
+export function compress(
+  plaintext: Buffer,
+  config: CompressionConfig
+): { data: Buffer; algorithm?: CompressionAlgorithm } {
+  if (config.algorithm === 'none' || plaintext.length < config.threshold) {
+    return { data: plaintext };
+  }
+
+  const compressed =
+    config.algorithm === 'gzip' ? zlib.gzipSync(plaintext)
+    : config.algorithm === 'deflate' ? zlib.deflateRawSync(plaintext)
+    : zlib.brotliCompressSync(plaintext, { params: { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: plaintext.length } });
+
+  return compressed.length < plaintext.length ? { data: compressed, algorithm: config.algorithm } : { data: plaintext };
+}
+
+// Reverses compress(). Only call this on authenticated plaintext.
+export function decompress(data: Buffer, algorithm: string): Buffer {
+  if (!isCompressionAlgorithm(algorithm)) {
+    throw new MalformedEnvelopeError(`Unsupported compression "${algorithm}"`);
+  }
+
+  const options = { maxOutputLength: MAX_DECOMPRESSED_BYTES };
+  try {
+    return algorithm === 'gzip' ? zlib.gunzipSync(data, options)
+      : algorithm === 'deflate' ? zlib.inflateRawSync(data, options)
+      : zlib.brotliDecompressSync(data, options);
+  } catch (error) {
+    throw new MalformedEnvelopeError(`Invalid encrypted format. Payload could not be decompressed with ${algorithm}`, { cause: error });
+  }
+}
@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { verifyClaims } from './claims';
+import { compress, decompress, DEFAULT_COMPRESSION_CONFIG } from './compression';
+import { MalformedEnvelopeError, MissingKeyError } from './decryption-errors';
+import { decryptWithKey, sealWithKey, type DecryptOptions, type EncryptOptions } from './encryption';
+import {
+  ALG_ID,
+  DATA_KEY_ENVELOPE_VERSION,
+  formatDataKeyEnvelope,
+  formatDataKeyEnvelopeHeader,
+  parseEnvelope,
+  type DataKeyEnvelopeHeader,
+  type EnvelopeV4,
+} from './envelope';
+import { KEY_LENGTH } from './kdf-config';
+import type { KeyProvider } from './key-provider';
+
+// Envelope encryption: every payload is sealed with AES-256-GCM under a fresh
+// random data key, and the data key travels with it wrapped by the key
+// provider's key-encryption key (KEK). Rotating the KEK means re-wrapping
+// data keys with rewrapDataKey; payloads are not re-encrypted.
+// Format: v4.<dek>.<alg>.<hdr>.<iv>.<tag>.<data> (see envelope.ts)
+
+export function isDataKeyEnvelope(encryptedText: string): boolean {
+  return encryptedText.startsWith(`${DATA_KEY_ENVELOPE_VERSION}.`);
+}
+
+function parseDataKeyEnvelope(encryptedText: string): EnvelopeV4 {
+  const envelope = parseEnvelope(encryptedText);
+  if (envelope.version !== 'v4') {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Expected a v4 envelope sealed with a wrapped data key');
+  }
+  if (envelope.alg !== ALG_ID) {
+    throw new MalformedEnvelopeError(`Unsupported encryption algorithm "${envelope.alg}"`);
+  }
+  return envelope;
+}
+
+async function unwrapDataKey({ dataKey }: EnvelopeV4, provider: KeyProvider): Promise<Buffer> {
+  if (dataKey.kp !== provider.name) {
+    throw new MissingKeyError(`Data key was wrapped by key provider "${dataKey.kp}", but "${provider.name}" is configured`);
+  }
+  const key = await provider.unwrapKey(dataKey);
+  if (key.length !== KEY_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Bad data key length');
+  }
+  return Buffer.from(key);
+}
+
+// Encrypts under a fresh data key wrapped by the provider; options as for encrypt()
+export async function encryptWithDataKey(text: string, provider: KeyProvider, options: EncryptOptions = {}): Promise<string> {
+  const { data, algorithm } = compress(Buffer.from(text, 'utf8'), options.compression ?? DEFAULT_COMPRESSION_CONFIG);
+  const header: DataKeyEnvelopeHeader = {};
+  if (algorithm) {
+    header.zip = algorithm;
+  }
+  if (options.claims) {
+    header.ctx = options.claims;
+  }
+  const aad = formatDataKeyEnvelopeHeader(ALG_ID, header);
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  try {
+    const sealed = sealWithKey(dataKey, data, aad);
+    return formatDataKeyEnvelope(aad, await provider.wrapKey(dataKey), sealed);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+// Unwraps the payload's data key through the provider and decrypts it;
+// options as for decrypt()
+export async function decryptWithDataKey(encryptedText: string, provider: KeyProvider, options: DecryptOptions = {}): Promise<string> {
+  const envelope = parseDataKeyEnvelope(encryptedText);
+  const key = await unwrapDataKey(envelope, provider);
+  const plaintext = decryptWithKey(key, envelope.iv, envelope.tag, envelope.data, envelope.aad);
+
+  // Claims and the compression marker are only trustworthy once the tag over
+  // the header has been verified
+  if (options.expect) {
+    verifyClaims(envelope.header.ctx, options.expect);
+  }
+  const zip = envelope.header.zip;
+  return (zip === undefined ? plaintext : decompress(plaintext, zip)).toString('utf8');
+}
+
+// Re-wraps a payload's data key under the provider's active KEK, leaving the
+// ciphertext as it is. Returns null when the key is already wrapped under it.
+// The payload is authenticated first, so a data key that doesn't open it is
+// never carried over to the new KEK.
+export async function rewrapDataKey(encryptedText: string, provider: KeyProvider): Promise<string | null> {
+  const envelope = parseDataKeyEnvelope(encryptedText);
+  if (envelope.dataKey.kp === provider.name && envelope.dataKey.kid === (await provider.activeKeyId())) {
+    return null;
+  }
+
+  const key = await unwrapDataKey(envelope, provider);
+  decryptWithKey(key, envelope.iv, envelope.tag, envelope.data, envelope.aad);
+  return formatDataKeyEnvelope(envelope.aad, await provider.wrapKey(key), envelope);
+}
@@ -0,0 +1,142 @@
+// Errors raised while obtaining and opening an encrypted payload. Each class
+// has a stable code and sets `digest`, which Next.js passes to error
+// boundaries unchanged (messages are stripped in production), so error.tsx
+// and global-error.tsx can tell the failures apart. Client-safe.
+
+export const DECRYPTION_ERROR_CODES = [
+  'MALFORMED_ENVELOPE',
+  'AUTHENTICATION_FAILED',
+  'UNKNOWN_KEY_ID',
+  'KEY_NOT_CONFIGURED',
+  'UPSTREAM_FETCH_FAILED',
+  'SCHEMA_INVALID',
+  'STREAM_TRUNCATED',
+] as const;
+export type DecryptionErrorCode = (typeof DECRYPTION_ERROR_CODES)[number];
+
+const DIGEST_PREFIX = 'DECRYPTION_ERROR;';
+
+export function decryptionErrorDigest(code: DecryptionErrorCode): string {
+  return `${DIGEST_PREFIX}${code}`;
+}
+
+export class DecryptionError extends Error {
+  public readonly digest: string;
+
+  constructor(public readonly code: DecryptionErrorCode, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'DecryptionError';
+    this.digest = decryptionErrorDigest(code);
+  }
+}
+
+// The envelope can't be parsed, or names an algorithm, KDF or parameters we don't support
+export class MalformedEnvelopeError extends DecryptionError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('MALFORMED_ENVELOPE', message, options);
+    this.name = 'MalformedEnvelopeError';
+  }
+}
+
+// The GCM tag didn't verify: the payload or its header was altered, or it was
+// sealed with a different secret under the same key ID
+export class AuthenticationFailedError extends DecryptionError {
+  constructor(options?: { cause?: unknown }) {
+    super('AUTHENTICATION_FAILED', 'Unable to authenticate encrypted data. It was tampered with or sealed with another key', options);
+    this.name = 'AuthenticationFailedError';
+  }
+}
+
+// The payload names a key ID this keyring doesn't hold
+export class UnknownKeyIdError extends DecryptionError {
+  constructor(public readonly keyId: string) {
+    super('UNKNOWN_KEY_ID', `Unknown encryption key ID "${keyId}"`);
+    this.name = 'UnknownKeyIdError';
+  }
+}
+
+// No key is configured for the operation
+export class MissingKeyError extends DecryptionError {
+  constructor(message: string) {
+    super('KEY_NOT_CONFIGURED', message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+// The encrypted payload couldn't be fetched from a remote API
+export class UpstreamFetchError extends DecryptionError {
+  constructor(message: string, public readonly status?: number, options?: { cause?: unknown }) {
+    super('UPSTREAM_FETCH_FAILED', message, options);
+    this.name = 'UpstreamFetchError';
+  }
+}
+
+// An encrypted stream ended before its final chunk, so the data is incomplete
+export class TruncatedStreamError extends DecryptionError {
+  constructor() {
+    super('STREAM_TRUNCATED', 'Encrypted stream ended before its final chunk');
+    this.name = 'TruncatedStreamError';
+  }
+}
+
+// Reads the code back from an error that crossed into an error boundary
+export function getDecryptionErrorCode(error: { digest?: string }): DecryptionErrorCode | null {
+  if (!error.digest?.startsWith(DIGEST_PREFIX)) {
+    return null;
+  }
+  const code = error.digest.slice(DIGEST_PREFIX.length);
+  return DECRYPTION_ERROR_CODES.find(known => known === code) ?? null;
+}
+
+// How an error boundary should respond:
+//   auto:   likely transient, retried automatically with a backoff
+//   manual: may succeed on retry, offered as a button
+//   none:   needs an operator to fix configuration or data first
+export type RetryBehavior = 'auto' | 'manual' | 'none';
+
+export interface DecryptionErrorGuidance {
+  title: string;
+  description: string;
+  retry: RetryBehavior;
+}
+
+export const DECRYPTION_ERROR_GUIDANCE: Record<DecryptionErrorCode, DecryptionErrorGuidance> = {
+  MALFORMED_ENVELOPE: {
+    title: 'Encrypted data was malformed',
+    description: 'The payload was truncated or garbled before it arrived. Reloading usually fixes this.',
+    retry: 'manual',
+  },
+  AUTHENTICATION_FAILED: {
+    title: 'Encrypted data failed verification',
+    description:
+      'The payload was modified in transit, or the API and this server use different secrets under the same key ID. Check that both are configured with the same keys.',
+    retry: 'none',
+  },
+  UNKNOWN_KEY_ID: {
+    title: 'Encryption key not recognised',
+    description:
+      'The payload was sealed with a key this server does not hold. Add the key back to ENCRYPTION_KEYS under its original ID, or rotate the API to an active key both sides share.',
+    retry: 'none',
+  },
+  KEY_NOT_CONFIGURED: {
+    title: 'Encryption is not configured',
+    description: 'Set ENCRYPTION_KEY (or ENCRYPTION_KEYS and ENCRYPTION_ACTIVE_KEY_ID) in .env.local and restart the server.',
+    retry: 'none',
+  },
+  UPSTREAM_FETCH_FAILED: {
+    title: 'Records service unavailable',
+    description: 'The records API could not be reached or returned an error. Retrying shortly.',
+    retry: 'auto',
+  },
+  SCHEMA_INVALID: {
+    title: 'Records data is invalid',
+    description:
+      'The payload decrypted correctly but does not match the record schema. A record in the store is probably malformed. See the server logs for details.',
+    retry: 'none',
+  },
+  STREAM_TRUNCATED: {
+    title: 'Encrypted stream was cut short',
+    description: 'The connection closed before the last chunk arrived, so the data is incomplete. Retrying usually fixes this.',
+    retry: 'manual',
+  },
+};
@@ -0,0 +1,33 @@
+import type { DecryptOptions, EncryptOptions, SecretKey } from './encryption';
+import { detectRuntime, type EncryptionRuntime } from './runtime';
+
+// Picks the encryption implementation for the runtime the code runs on:
+// encryption.ts (Node's crypto) on the Node.js runtime, web-encryption.ts
+// (Web Crypto) on the edge runtime. Both seal the same envelopes, so a
+// payload sealed on one runtime decrypts on the other, except Brotli, which
+// the edge lacks (see loadCompressionConfigFromEnv), and v4 data keys.
+
+export { detectRuntime, type EncryptionRuntime } from './runtime';
+
+// The async API both implementations offer
+export interface EncryptionImplementation {
+  runtime: EncryptionRuntime;
+  encrypt(text: string, secretKey: SecretKey, options?: EncryptOptions): Promise<string>;
+  decrypt(encryptedText: string, secretKey: SecretKey, options?: DecryptOptions): Promise<string>;
+}
+
+// Loads the implementation for a runtime, the current one by default. The
+// imports are dynamic so an edge bundle never loads Node's crypto module.
+export async function loadEncryption(runtime: EncryptionRuntime = detectRuntime()): Promise<EncryptionImplementation> {
+  if (runtime === 'edge') {
+    const { encrypt, decrypt } = await import('./web-encryption');
+    return { runtime, encrypt, decrypt };
+  }
+
+  const { encrypt, decrypt } = await import('./encryption');
+  return {
+    runtime,
+    encrypt: async (text, secretKey, options) => encrypt(text, secretKey, options),
+    decrypt: async (encryptedText, secretKey, options) => decrypt(encryptedText, secretKey, options),
+  };
+}
@@ -1,44 +1,214 @@
 import crypto from 'crypto';
+import { verifyClaims, type ClaimExpectations, type PayloadClaims } from './claims';
+import { compress, decompress, DEFAULT_COMPRESSION_CONFIG, type CompressionConfig } from './compression';
+import { AuthenticationFailedError, MalformedEnvelopeError, MissingKeyError } from './decryption-errors';
+import {
+  ALG_ID,
+  formatEnvelope,
+  formatEnvelopeHeader,
+  IV_LENGTH,
+  parseEnvelope,
+  TAG_LENGTH,
+  type EnvelopeHeader,
+  type EnvelopeV3,
+} from './envelope';
+import {
+  acceptHeaderScryptParams,
+  DEFAULT_SCRYPT_PARAMS,
+  deriveLegacyKey,
+  derivePayloadKey,
+  resolveKdf,
+  SALT_LENGTH,
+  type KdfConfig,
+  type KdfName,
+} from './kdf';
+import { getKeySecret, keyringFromSecret, type Keyring } from './keyring';
 
-// AES-256-GCM configuration constants
+// AES-256-GCM; ALG_ID and the IV and tag lengths live in envelope.ts
 const ALGORITHM = 'aes-256-gcm'; // Authenticated encryption (prevents tampering)
-const IV_LENGTH = 16;              // Initialization vector length in bytes
-const TAG_LENGTH = 16;             // Authentication tag length in bytes
-const KEY_LENGTH = 32;             // 256-bit key length in bytes
 
-// Encrypts data using AES-256-GCM (authenticated encryption)
-export function encrypt(text: string, secretKey: string): string {
-  const key = crypto.scryptSync(secretKey, 'salt', KEY_LENGTH);
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-  
-  let encrypted = cipher.update(text, 'utf8');
-  encrypted = Buffer.concat([encrypted, cipher.final()]);
-  const tag = cipher.getAuthTag();
-  
-  return `${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+// A single secret (wrapped as the "default" key) or a keyring for rotation
+export type SecretKey = string | Keyring;
+
+export interface EncryptOptions {
+  claims?: PayloadClaims;          // Bound to the payload as associated data
+  compression?: CompressionConfig; // Compress plaintexts over the threshold first
 }
 
-// Decrypts AES-256-GCM data with authentication tag verification
-export function decrypt(encryptedText: string, secretKey: string): string {
-  const key = crypto.scryptSync(secretKey, 'salt', KEY_LENGTH);
-  const parts = encryptedText.split(':');
-  
-  if (parts.length !== 3) {
-    throw new Error('Invalid encrypted format. Expected iv:tag:data');
-  }
-  
-  const [ivBase64, tagBase64, encryptedBase64] = parts;
+export interface DecryptOptions {
+  expect?: ClaimExpectations; // Require claims and check them after authentication
+}
+
+export function toKeyring(secretKey: SecretKey): Keyring {
+  return typeof secretKey === 'string' ? keyringFromSecret(secretKey) : secretKey;
+}
+
+// Opens base64 iv, tag and ciphertext segments with a known key
+export function decryptWithKey(
+  key: Buffer,
+  ivBase64: string,
+  tagBase64: string,
+  encryptedBase64: string,
+  aad?: string
+): Buffer {
   const iv = Buffer.from(ivBase64, 'base64');
   const tag = Buffer.from(tagBase64, 'base64');
   const encrypted = Buffer.from(encryptedBase64, 'base64');
-  
-  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+
+  if (tag.length !== TAG_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Bad authentication tag length');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
   decipher.setAuthTag(tag);
-  
+  if (aad !== undefined) {
+    decipher.setAAD(Buffer.from(aad, 'utf8'));
+  }
+
+  // Node reports a bad tag as a generic "unable to authenticate data" error
   let decrypted = decipher.update(encrypted);
-  decrypted = Buffer.concat([decrypted, decipher.final()]);
-  
-  return decrypted.toString('utf8');
+  try {
+    decrypted = Buffer.concat([decrypted, decipher.final()]);
+  } catch (error) {
+    throw new AuthenticationFailedError({ cause: error });
+  }
+
+  return decrypted;
+}
+
+// Derives a payload key from the KDF and salt in an envelope header. The
+// header is not authenticated yet, so scrypt only runs with parameters the
+// keyring's KDF config accepts. info separates keys for different
+// constructions under the same secret.
+export function derivePayloadKeyFromHeader(
+  secret: string,
+  header: EnvelopeHeader,
+  kdfConfig: KdfConfig,
+  info: string = ALG_ID
+): Buffer {
+  if (header.kdf !== 'scrypt' && header.kdf !== 'hkdf') {
+    throw new MalformedEnvelopeError(`Unsupported key derivation function "${header.kdf}"`);
+  }
+
+  const salt = Buffer.from(header.salt, 'base64');
+  if (salt.length !== SALT_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Bad salt length');
+  }
+
+  let params = DEFAULT_SCRYPT_PARAMS;
+  if (header.kdf === 'scrypt') {
+    try {
+      params = acceptHeaderScryptParams(header, kdfConfig);
+    } catch (error) {
+      throw new MalformedEnvelopeError(`Invalid encrypted format. ${(error as Error).message}`, { cause: error });
+    }
+  }
+  return derivePayloadKey(secret, header.kdf, salt, info, params);
+}
+
+// Picks the KDF for the keyring's active key and a fresh salt, and derives
+// the key for a new payload along with the header fields describing it
+export function deriveSealingKey(keyring: Keyring, info: string = ALG_ID): { key: Buffer; header: EnvelopeHeader } {
+  const secret = getKeySecret(keyring, keyring.activeKeyId);
+  const kdf: KdfName = resolveKdf(secret, keyring.kdf.kdf);
+  const salt = crypto.randomBytes(SALT_LENGTH);
+
+  const header: EnvelopeHeader = kdf === 'scrypt'
+    ? { kdf, salt: salt.toString('base64'), ...keyring.kdf.scrypt }
+    : { kdf, salt: salt.toString('base64') };
+  return { key: derivePayloadKey(secret, kdf, salt, info, keyring.kdf.scrypt), header };
 }
 
+// Seals a plaintext with a known key and associated data, returning the
+// base64 iv, tag and ciphertext segments of the envelope
+export function sealWithKey(key: Buffer, plaintext: Buffer, aad: string): Pick<EnvelopeV3, 'iv' | 'tag' | 'data'> {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  cipher.setAAD(Buffer.from(aad, 'utf8'));
+
+  let encrypted = cipher.update(plaintext);
+  encrypted = Buffer.concat([encrypted, cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return {
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    data: encrypted.toString('base64'),
+  };
+}
+
+function decryptV3(envelope: EnvelopeV3, keyring: Keyring, options: DecryptOptions): string {
+  const key = derivePayloadKeyFromHeader(getKeySecret(keyring, envelope.keyId), envelope.header, keyring.kdf);
+  const plaintext = decryptWithKey(key, envelope.iv, envelope.tag, envelope.data, envelope.aad);
+
+  // Claims and the compression marker are only trustworthy once the tag over
+  // the header has been verified
+  if (options.expect) {
+    verifyClaims(envelope.header.ctx, options.expect);
+  }
+  const zip = envelope.header.zip;
+  return (zip === undefined ? plaintext : decompress(plaintext, zip)).toString('utf8');
+}
+
+// Encrypts data using AES-256-GCM (authenticated encryption) with the active key
+// Each payload gets a random salt; its key is derived per the keyring's KDF config
+// With options.compression, large plaintexts are compressed first and the
+// algorithm is recorded in the header for decrypt to reverse
+// Format: v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>
+export function encrypt(text: string, secretKey: SecretKey, options: EncryptOptions = {}): string {
+  const keyring = toKeyring(secretKey);
+  const { key, header } = deriveSealingKey(keyring);
+  const { data, algorithm } = compress(Buffer.from(text, 'utf8'), options.compression ?? DEFAULT_COMPRESSION_CONFIG);
+  if (algorithm) {
+    header.zip = algorithm;
+  }
+  if (options.claims) {
+    header.ctx = options.claims;
+  }
+  const aad = formatEnvelopeHeader(keyring.activeKeyId, ALG_ID, header);
+
+  return formatEnvelope(aad, sealWithKey(key, data, aad));
+}
+
+// Decrypts AES-256-GCM data with authentication tag verification
+// v3/v2 payloads select their key by ID; legacy iv:tag:data payloads carry no
+// key ID, so each key is tried in turn starting with the active one.
+// With options.expect, only v3 payloads carrying matching claims are accepted.
+export function decrypt(encryptedText: string, secretKey: SecretKey, options: DecryptOptions = {}): string {
+  const keyring = toKeyring(secretKey);
+  const envelope = parseEnvelope(encryptedText);
+
+  if (envelope.version === 'v4') {
+    throw new MissingKeyError('Payload is sealed with a wrapped data key; open it with decryptWithDataKey and a key provider');
+  }
+  if (envelope.version !== 'v3' && options.expect) {
+    verifyClaims(undefined, options.expect);
+  }
+
+  if (envelope.version !== 'v1' && envelope.alg !== ALG_ID) {
+    throw new MalformedEnvelopeError(`Unsupported encryption algorithm "${envelope.alg}"`);
+  }
+
+  if (envelope.version === 'v3') {
+    return decryptV3(envelope, keyring, options);
+  }
+
+  if (envelope.version === 'v2') {
+    const key = deriveLegacyKey(getKeySecret(keyring, envelope.keyId));
+    return decryptWithKey(key, envelope.iv, envelope.tag, envelope.data).toString('utf8');
+  }
+
+  const keyIds = [keyring.activeKeyId, ...[...keyring.keys.keys()].filter(id => id !== keyring.activeKeyId)];
+  let lastError: unknown;
+
+  for (const keyId of keyIds) {
+    try {
+      const key = deriveLegacyKey(getKeySecret(keyring, keyId));
+      return decryptWithKey(key, envelope.iv, envelope.tag, envelope.data).toString('utf8');
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,168 @@
+import type { PayloadClaims } from './claims';
+import { MalformedEnvelopeError } from './decryption-errors';
+import { base64UrlToBytes, bytesToBase64Url, utf8Decode, utf8Encode } from './encoding';
+import type { WrappedDataKey } from './key-provider/types';
+
+// Ciphertext envelope formats
+//   v4:     v4.<dek>.<alg>.<hdr>.<iv>.<tag>.<data>   (sealed with a wrapped data key)
+//   v3:     v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>
+//   v2:     v2.<kid>.<alg>.<iv>.<tag>.<data>       (decrypt only)
+//   legacy: <iv>:<tag>:<data>                     (decrypt only, treated as v1)
+// iv, tag and data are base64; hdr is base64url JSON with the KDF parameters,
+// the compression applied, if any, and any claims (route, audience, expiry,
+// nonce) the payload is bound to.
+// Neither alphabet contains '.' or ':', so both separators are unambiguous.
+// In v3 everything before <iv> is authenticated as GCM associated data.
+// In v4 <dek> is the wrapped data key as base64url JSON, and <hdr> carries
+// only compression and claims. <dek> is left out of the associated data
+// (v4.<alg>.<hdr>) so the key can be re-wrapped under a new key-encryption
+// key without touching the ciphertext; a swapped key just fails to open it.
+// Shared by the Node and Web Crypto implementations, so no Buffer here.
+
+export const ENVELOPE_VERSION = 'v3';
+export const DATA_KEY_ENVELOPE_VERSION = 'v4';
+
+// AES-256-GCM as sealed in v2 and v3 envelopes
+export const ALG_ID = 'A256GCM';  // Algorithm identifier recorded in the envelope
+export const IV_LENGTH = 16;      // Initialization vector length in bytes
+export const TAG_LENGTH = 16;     // Authentication tag length in bytes
+
+export interface EnvelopeHeader {
+  kdf: string;
+  salt: string; // base64, random per payload
+  N?: number;   // scrypt cost parameters, present when kdf is scrypt
+  r?: number;
+  p?: number;
+  zip?: string; // Compression applied before encryption: gzip, deflate or br
+  ctx?: PayloadClaims;
+}
+
+export type DataKeyEnvelopeHeader = Pick<EnvelopeHeader, 'zip' | 'ctx'>;
+
+export interface EnvelopeV4 {
+  version: 'v4';
+  dataKey: WrappedDataKey;
+  alg: string;
+  header: DataKeyEnvelopeHeader;
+  aad: string; // v4.<alg>.<hdr>
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface EnvelopeV3 {
+  version: 'v3';
+  keyId: string;
+  alg: string;
+  header: EnvelopeHeader;
+  aad: string; // v3.<kid>.<alg>.<hdr>
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface EnvelopeV2 {
+  version: 'v2';
+  keyId: string;
+  alg: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface EnvelopeV1 {
+  version: 'v1';
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export type Envelope = EnvelopeV1 | EnvelopeV2 | EnvelopeV3 | EnvelopeV4;
+
+const INVALID_FORMAT_MESSAGE =
+  'Invalid encrypted format. Expected v4.<dek>.<alg>.<hdr>.<iv>.<tag>.<data>, v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>, ' +
+  'v2.<kid>.<alg>.<iv>.<tag>.<data> or legacy iv:tag:data';
+
+function encodeJsonSegment(value: object): string {
+  return bytesToBase64Url(utf8Encode(JSON.stringify(value)));
+}
+
+function decodeJsonSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(utf8Decode(base64UrlToBytes(segment)));
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Builds the authenticated prefix of a v3 envelope
+export function formatEnvelopeHeader(keyId: string, alg: string, header: EnvelopeHeader): string {
+  return [ENVELOPE_VERSION, keyId, alg, encodeJsonSegment(header)].join('.');
+}
+
+export function formatEnvelope(aad: string, { iv, tag, data }: Pick<EnvelopeV3, 'iv' | 'tag' | 'data'>): string {
+  return [aad, iv, tag, data].join('.');
+}
+
+// Builds the associated data of a v4 envelope, which leaves out the data key
+export function formatDataKeyEnvelopeHeader(alg: string, header: DataKeyEnvelopeHeader): string {
+  return [DATA_KEY_ENVELOPE_VERSION, alg, encodeJsonSegment(header)].join('.');
+}
+
+export function formatDataKeyEnvelope(
+  aad: string,
+  dataKey: WrappedDataKey,
+  { iv, tag, data }: Pick<EnvelopeV4, 'iv' | 'tag' | 'data'>
+): string {
+  const [version, ...rest] = aad.split('.');
+  return [version, encodeJsonSegment(dataKey), ...rest, iv, tag, data].join('.');
+}
+
+function parseHeader(encodedHeader: string): EnvelopeHeader | null {
+  const header = decodeJsonSegment(encodedHeader);
+  return header && typeof header.kdf === 'string' && typeof header.salt === 'string' ? (header as unknown as EnvelopeHeader) : null;
+}
+
+function parseDataKey(encodedDataKey: string): WrappedDataKey | null {
+  const dataKey = decodeJsonSegment(encodedDataKey);
+  return dataKey && typeof dataKey.kp === 'string' && typeof dataKey.kid === 'string' && typeof dataKey.wk === 'string'
+    ? (dataKey as unknown as WrappedDataKey)
+    : null;
+}
+
+// Splits an envelope string into its segments without decoding the payload.
+// data may be empty when the plaintext was empty.
+export function parseEnvelope(encryptedText: string): Envelope {
+  if (encryptedText.startsWith('v4.')) {
+    const parts = encryptedText.split('.');
+    const [, encodedDataKey, alg, encodedHeader, iv, tag, data] = parts;
+    const dataKey = parts.length === 7 && alg && iv && tag ? parseDataKey(encodedDataKey) : null;
+    const header = dataKey ? decodeJsonSegment(encodedHeader) : null;
+    if (dataKey && header) {
+      const aad = [DATA_KEY_ENVELOPE_VERSION, alg, encodedHeader].join('.');
+      return { version: 'v4', dataKey, alg, header, aad, iv, tag, data };
+    }
+  } else if (encryptedText.startsWith('v3.')) {
+    const parts = encryptedText.split('.');
+    const [, keyId, alg, encodedHeader, iv, tag, data] = parts;
+    const header = parts.length === 7 && keyId && alg && iv && tag ? parseHeader(encodedHeader) : null;
+    if (header) {
+      return { version: 'v3', keyId, alg, header, aad: parts.slice(0, 4).join('.'), iv, tag, data };
+    }
+  } else if (encryptedText.startsWith('v2.')) {
+    const parts = encryptedText.split('.');
+    const [, keyId, alg, iv, tag, data] = parts;
+    if (parts.length === 6 && keyId && alg && iv && tag) {
+      return { version: 'v2', keyId, alg, iv, tag, data };
+    }
+  } else {
+    const parts = encryptedText.split(':');
+    if (parts.length === 3) {
+      const [iv, tag, data] = parts;
+      return { version: 'v1', iv, tag, data };
+    }
+  }
+
+  throw new MalformedEnvelopeError(INVALID_FORMAT_MESSAGE);
+}
@@ -0,0 +1,26 @@
+import { getSensitivityLevel, TAXONOMY } from './records/taxonomy';
+
+// Export formats and limits, shared with the Export menu. Client components
+// import this module rather than export.ts, which needs Node's crypto.
+
+export const EXPORT_FORMATS = ['csv', 'json', 'encrypted'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Exports are built in memory; larger ones should use /api/encrypted-data/stream
+export const MAX_EXPORT_RECORDS = 10_000;
+export const MIN_EXPORT_PASSPHRASE_LENGTH = 12;
+
+// Labels of the sensitivity levels whose records only leave in encrypted exports
+export const ENCRYPTED_EXPORT_LEVELS: string[] = TAXONOMY.sensitivity
+  .filter(level => !level.plaintextExport)
+  .map(level => level.label);
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+// Whether records at a sensitivity level may go into a CSV or JSON export.
+// Levels the taxonomy doesn't know may not.
+export function allowsPlaintextExport(sensitivity: string): boolean {
+  return getSensitivityLevel(sensitivity)?.plaintextExport ?? false;
+}
@@ -0,0 +1,125 @@
+import { EXPORT_AUDIENCE, EXPORT_ROUTE } from './claims';
+import { DEFAULT_COMPRESSION_THRESHOLD } from './compression';
+import { decrypt, encrypt } from './encryption';
+import { allowsPlaintextExport, MIN_EXPORT_PASSPHRASE_LENGTH, type ExportFormat } from './export-formats';
+import { maskRecord } from './records/masking';
+import { toSearchParams, type RecordQuery } from './records/query';
+import { assertValid, validateRecordItem, type RecordItem } from './records/schema';
+import { getSensitivityLevel } from './records/taxonomy';
+
+// Record exports behind POST /api/export:
+//   csv        one row per record, spreadsheet-safe
+//   json       { exportedAt, query, records }
+//   encrypted  the json export sealed with a passphrase the user chooses, as a
+//              single v3 envelope. The passphrase is stretched with scrypt, and
+//              the scrypt parameters and salt travel in the envelope header, so
+//              `npm run keys -- decrypt-export <file>` needs only the passphrase.
+// csv and json are plaintext: fields a record's level masks are emptied, and
+// levels with plaintextExport: false in the taxonomy can't be included.
+
+export {
+  ENCRYPTED_EXPORT_LEVELS,
+  EXPORT_FORMATS,
+  isExportFormat,
+  MAX_EXPORT_RECORDS,
+  MIN_EXPORT_PASSPHRASE_LENGTH,
+  type ExportFormat,
+} from './export-formats';
+
+export interface RecordExport {
+  exportedAt: string;
+  query: string;        // Filters the export was made with, as URL parameters
+  records: RecordItem[];
+}
+
+export interface ExportFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+const CSV_COLUMNS = ['id', 'title', 'type', 'sensitivity', 'date'] as const;
+
+// Quotes a CSV cell per RFC 4180. Cells a spreadsheet would run as a formula
+// are prefixed with an apostrophe so they are shown as text.
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(records: RecordItem[]): string {
+  const rows = [CSV_COLUMNS.join(','), ...records.map(record => CSV_COLUMNS.map(column => csvCell(record[column])).join(','))];
+  return `${rows.join('\r\n')}\r\n`;
+}
+
+// Labels of the levels among these records that may only be exported
+// encrypted; empty when a csv or json export is allowed
+export function encryptedOnlyLevels(records: RecordItem[]): string[] {
+  const levels = new Set(records.filter(record => !allowsPlaintextExport(record.sensitivity)).map(record => record.sensitivity));
+  return [...levels].map(level => getSensitivityLevel(level)?.label ?? level);
+}
+
+// Filters only; paging and page size don't apply to an export
+export function describeExportQuery(query: RecordQuery): string {
+  return toSearchParams({ ...query, cursor: undefined, limit: undefined }).toString();
+}
+
+// Seals a JSON export under a passphrase, bound to the export route so it
+// can't be passed off as another kind of payload. Exports are kept at rest,
+// so they don't expire.
+export function encryptExport(json: string, passphrase: string): string {
+  if ([...passphrase].length < MIN_EXPORT_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_EXPORT_PASSPHRASE_LENGTH} characters`);
+  }
+  return encrypt(json, passphrase, {
+    claims: { route: EXPORT_ROUTE, aud: EXPORT_AUDIENCE, iat: Math.floor(Date.now() / 1000) },
+    compression: { algorithm: 'gzip', threshold: DEFAULT_COMPRESSION_THRESHOLD },
+  });
+}
+
+// Opens an encrypted export and checks its contents
+export function decryptExport(envelope: string, passphrase: string): RecordExport {
+  const json = decrypt(envelope.trim(), passphrase, {
+    expect: { route: EXPORT_ROUTE, audience: EXPORT_AUDIENCE, requireExpiry: false },
+  });
+  const parsed = JSON.parse(json) as Partial<RecordExport>;
+  if (typeof parsed.exportedAt !== 'string' || typeof parsed.query !== 'string' || !Array.isArray(parsed.records)) {
+    throw new Error('Decrypted export is missing exportedAt, query or records');
+  }
+  return {
+    exportedAt: parsed.exportedAt,
+    query: parsed.query,
+    records: parsed.records.map((record, index) => assertValid(validateRecordItem(record), `Exported record ${index}`)),
+  };
+}
+
+// Renders records in the requested format, named after the export date.
+// Throws if a plaintext format is asked for records that need encrypted.
+export function buildExportFile(
+  records: RecordItem[],
+  query: RecordQuery,
+  format: ExportFormat,
+  { passphrase, now = new Date() }: { passphrase?: string; now?: Date } = {}
+): ExportFile {
+  const filename = `records-${now.toISOString().slice(0, 10)}`;
+  if (format === 'encrypted') {
+    const recordExport: RecordExport = { exportedAt: now.toISOString(), query: describeExportQuery(query), records };
+    return {
+      body: `${encryptExport(JSON.stringify(recordExport, null, 2), passphrase ?? '')}\n`,
+      contentType: 'application/octet-stream',
+      filename: `${filename}.json.enc`,
+    };
+  }
+
+  const levels = encryptedOnlyLevels(records);
+  if (levels.length > 0) {
+    throw new Error(`${levels.join(', ')} records can only be exported encrypted`);
+  }
+  const masked = records.map(record => maskRecord(record));
+  if (format === 'csv') {
+    return { body: toCsv(masked), contentType: 'text/csv; charset=utf-8', filename: `${filename}.csv` };
+  }
+
+  const recordExport: RecordExport = { exportedAt: now.toISOString(), query: describeExportQuery(query), records: masked };
+  return { body: `${JSON.stringify(recordExport, null, 2)}\n`, contentType: 'application/json', filename: `${filename}.json` };
+}
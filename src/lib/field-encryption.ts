@@ -0,0 +1,110 @@
+import { decrypt, encrypt } from './encryption';
+import { parseEnvelope } from './envelope';
+import { loadKeyringFromEnv, type Keyring } from './keyring';
+import {
+  SEALED_FIELDS,
+  type RecordItem,
+  type RecordView,
+  type SealedField,
+  type SealedRecord,
+} from './records/schema';
+import { SENSITIVITY_LEVELS } from './records/taxonomy';
+
+// Field-level encryption: selected fields of each record are sealed on their
+// own with a key tied to the record's sensitivity level. A server context that
+// only holds lower-tier keys can still list every record, but the sealed
+// fields of higher-tier records stay unreadable to it.
+
+// One keyring per sensitivity level; missing levels are not held by this context
+export type TierKeyrings = Partial<Record<string, Keyring>>;
+
+
+// 'Highly Confidential' → HIGHLY_CONFIDENTIAL_ENCRYPTION
+export function tierEnvPrefix(sensitivity: string): string {
+  return `${sensitivity.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_ENCRYPTION`;
+}
+
+// Loads a keyring per sensitivity level, e.g. CONFIDENTIAL_ENCRYPTION_KEY or
+// CONFIDENTIAL_ENCRYPTION_KEYS + CONFIDENTIAL_ENCRYPTION_ACTIVE_KEY_ID
+export function loadTierKeyringsFromEnv(env: Record<string, string | undefined> = process.env): TierKeyrings {
+  const keyrings: TierKeyrings = {};
+  for (const level of SENSITIVITY_LEVELS) {
+    const keyring = loadKeyringFromEnv(env, tierEnvPrefix(level));
+    if (keyring) {
+      keyrings[level] = keyring;
+    }
+  }
+  return keyrings;
+}
+
+// Field encryption is on as soon as any tier key is configured
+export function isFieldEncryptionEnabled(keyrings: TierKeyrings): boolean {
+  return Object.keys(keyrings).length > 0;
+}
+
+// Binds each sealed value to its tier, record and field so values can't be
+// swapped between records or fields without failing verification
+function fieldClaims(record: Pick<RecordItem, 'id' | 'sensitivity'>, field: SealedField) {
+  return { audience: `field:${record.sensitivity}`, subject: `${record.id}/${field}` };
+}
+
+// Seals the selected fields with the keyring for the record's sensitivity.
+// Without a key for that tier the fields are withheld and listed in
+// sealedFields, as unsealRecord does, so the record can still be listed.
+export function sealRecord(record: RecordItem, keyrings: TierKeyrings): SealedRecord {
+  const keyring = keyrings[record.sensitivity];
+  const sealedRecord: SealedRecord = { ...record };
+  if (!keyring) {
+    for (const field of SEALED_FIELDS) {
+      delete sealedRecord[field];
+    }
+    sealedRecord.sealedFields = [...SEALED_FIELDS];
+    return sealedRecord;
+  }
+
+  sealedRecord.sealed = {};
+  for (const field of SEALED_FIELDS) {
+    const { audience, subject } = fieldClaims(record, field);
+    sealedRecord.sealed[field] = encrypt(record[field], keyring, { claims: { aud: audience, sub: subject } });
+    delete sealedRecord[field];
+  }
+  return sealedRecord;
+}
+
+// Opens whichever sealed fields this context holds keys for. Fields sealed
+// with a tier or key ID we don't hold, or withheld by the sealing server, stay
+// sealed; tampered values throw.
+export function unsealRecord(record: SealedRecord, keyrings: TierKeyrings): RecordView {
+  const { sealed, sealedFields: withheld, ...rest } = record;
+  const view = { ...rest } as RecordView;
+  const sealedFields: SealedField[] = [];
+
+  for (const field of SEALED_FIELDS) {
+    if (withheld?.includes(field)) {
+      view[field] = '';
+      sealedFields.push(field);
+      continue;
+    }
+
+    const value = sealed?.[field];
+    if (value === undefined) {
+      view[field] = record[field] ?? '';
+      continue;
+    }
+
+    const keyring = keyrings[record.sensitivity];
+    const envelope = parseEnvelope(value);
+    if (!keyring || envelope.version === 'v1' || envelope.version === 'v4' || !keyring.keys.has(envelope.keyId)) {
+      view[field] = '';
+      sealedFields.push(field);
+      continue;
+    }
+
+    view[field] = decrypt(value, keyring, { expect: { ...fieldClaims(record, field), requireExpiry: false } });
+  }
+
+  if (sealedFields.length > 0) {
+    view.sealedFields = sealedFields;
+  }
+  return view;
+}
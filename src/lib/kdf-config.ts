@@ -0,0 +1,138 @@
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+// KDF settings and the checks on them, shared by the Node (kdf.ts) and Web
+// Crypto (web-encryption.ts) implementations. No Node imports, so the edge
+// runtime can load it.
+
+export type KdfName = 'scrypt' | 'hkdf';
+
+export interface ScryptParams {
+  N: number; // CPU/memory cost, power of two
+  r: number; // Block size
+  p: number; // Parallelization
+}
+
+export interface KdfConfig {
+  kdf: KdfName | 'auto';
+  scrypt: ScryptParams;
+  acceptScrypt?: ScryptParams[]; // Earlier parameters still accepted on decrypt
+}
+
+export const KEY_LENGTH = 32;  // 256-bit key length in bytes
+export const SALT_LENGTH = 16; // Per-payload salt length in bytes
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { N: 16384, r: 8, p: 1 };
+export const DEFAULT_KDF_CONFIG: KdfConfig = { kdf: 'auto', scrypt: DEFAULT_SCRYPT_PARAMS };
+
+// Upper bounds for parameters read from an envelope header; without them a
+// forged header could make the server burn arbitrary CPU and memory
+const MAX_SCRYPT_N = 2 ** 20;
+const MAX_SCRYPT_R = 32;
+const MAX_SCRYPT_P = 16;
+export const MAX_SCRYPT_MEMORY = 256 * 1024 * 1024; // scrypt needs roughly 128 * N * r bytes
+
+// Domain separation for stage 1; the per-payload salt is applied in stage 2
+export const SCRYPT_MASTER_SALT = 'next-encrypted-ssr/v3/master';
+
+// Fixed salt of the v1/v2 key derivation
+export const LEGACY_SCRYPT_SALT = 'salt';
+
+export function validateScryptParams({ N, r, p }: ScryptParams): void {
+  const isPowerOfTwo = Number.isInteger(N) && N > 1 && (N & (N - 1)) === 0;
+
+  if (!isPowerOfTwo || N > MAX_SCRYPT_N) {
+    throw new Error(`Invalid scrypt cost N=${N}. Expected a power of two up to ${MAX_SCRYPT_N}`);
+  }
+  if (!Number.isInteger(r) || r < 1 || r > MAX_SCRYPT_R) {
+    throw new Error(`Invalid scrypt block size r=${r}`);
+  }
+  if (!Number.isInteger(p) || p < 1 || p > MAX_SCRYPT_P) {
+    throw new Error(`Invalid scrypt parallelization p=${p}`);
+  }
+  if (128 * N * r > MAX_SCRYPT_MEMORY) {
+    throw new Error(`scrypt parameters N=${N}, r=${r} exceed the ${MAX_SCRYPT_MEMORY / 1024 / 1024} MiB memory limit`);
+  }
+}
+
+// Scrypt parameters named by an envelope header. The header is authenticated
+// only after the key has been derived from it, so it may name the keyring's
+// configured parameters, the defaults or those listed in acceptScrypt and
+// nothing else; otherwise a forged
+// header could make the server run, and memoize, a scrypt of up to
+// MAX_SCRYPT_MEMORY for every combination it sends.
+export function acceptHeaderScryptParams(header: Partial<ScryptParams>, config: KdfConfig): ScryptParams {
+  const params = { N: Number(header.N), r: Number(header.r), p: Number(header.p) };
+  validateScryptParams(params);
+
+  const accepted = [config.scrypt, DEFAULT_SCRYPT_PARAMS, ...(config.acceptScrypt ?? [])];
+  if (!accepted.some(({ N, r, p }) => N === params.N && r === params.r && p === params.p)) {
+    throw new Error(`scrypt parameters N=${params.N}, r=${params.r}, p=${params.p} are not configured for this keyring`);
+  }
+  return params;
+}
+
+// Returns the secret's bytes if it is base64 for exactly 32 random bytes
+export function decodeRawKey(secret: string): Uint8Array | null {
+  let bytes: Uint8Array;
+  try {
+    bytes = base64ToBytes(secret);
+  } catch {
+    return null;
+  }
+  return bytes.length === KEY_LENGTH && bytesToBase64(bytes) === secret ? bytes : null;
+}
+
+// Picks the KDF for a secret: HKDF for 32-byte base64 keys, scrypt for passphrases
+export function resolveKdf(secret: string, preference: KdfConfig['kdf']): KdfName {
+  if (preference !== 'auto') {
+    return preference;
+  }
+  return decodeRawKey(secret) ? 'hkdf' : 'scrypt';
+}
+
+function parseIntegerEnv(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new Error(`${name} must be an integer`);
+  }
+  return parsed;
+}
+
+// ENCRYPTION_SCRYPT_ACCEPT=<N>:<r>:<p>,... lists earlier parameters that
+// stored payloads may still name
+function parseAcceptedScryptParams(value: string | undefined): ScryptParams[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [N, r, p, ...rest] = entry.split(':').map(Number);
+      if (rest.length > 0 || [N, r, p].some(value => !Number.isInteger(value))) {
+        throw new Error('Invalid ENCRYPTION_SCRYPT_ACCEPT entry. Expected <N>:<r>:<p>');
+      }
+      validateScryptParams({ N, r, p });
+      return { N, r, p };
+    });
+}
+
+// Loads KDF settings from ENCRYPTION_KDF, ENCRYPTION_SCRYPT_N / _R / _P and
+// ENCRYPTION_SCRYPT_ACCEPT
+export function loadKdfConfigFromEnv(env: Record<string, string | undefined> = process.env): KdfConfig {
+  const kdf = env.ENCRYPTION_KDF || 'auto';
+  if (kdf !== 'auto' && kdf !== 'scrypt' && kdf !== 'hkdf') {
+    throw new Error('ENCRYPTION_KDF must be one of auto, scrypt or hkdf');
+  }
+
+  const scrypt = {
+    N: parseIntegerEnv(env.ENCRYPTION_SCRYPT_N, 'ENCRYPTION_SCRYPT_N', DEFAULT_SCRYPT_PARAMS.N),
+    r: parseIntegerEnv(env.ENCRYPTION_SCRYPT_R, 'ENCRYPTION_SCRYPT_R', DEFAULT_SCRYPT_PARAMS.r),
+    p: parseIntegerEnv(env.ENCRYPTION_SCRYPT_P, 'ENCRYPTION_SCRYPT_P', DEFAULT_SCRYPT_PARAMS.p),
+  };
+  validateScryptParams(scrypt);
+
+  const acceptScrypt = parseAcceptedScryptParams(env.ENCRYPTION_SCRYPT_ACCEPT);
+  return acceptScrypt.length > 0 ? { kdf, scrypt, acceptScrypt } : { kdf, scrypt };
+}
@@ -0,0 +1,89 @@
+import crypto from 'crypto';
+import {
+  decodeRawKey,
+  DEFAULT_SCRYPT_PARAMS,
+  KEY_LENGTH,
+  LEGACY_SCRYPT_SALT,
+  MAX_SCRYPT_MEMORY,
+  SCRYPT_MASTER_SALT,
+  validateScryptParams,
+  type KdfName,
+  type ScryptParams,
+} from './kdf-config';
+
+export {
+  acceptHeaderScryptParams,
+  decodeRawKey,
+  DEFAULT_KDF_CONFIG,
+  DEFAULT_SCRYPT_PARAMS,
+  KEY_LENGTH,
+  loadKdfConfigFromEnv,
+  resolveKdf,
+  SALT_LENGTH,
+  validateScryptParams,
+  type KdfConfig,
+  type KdfName,
+  type ScryptParams,
+} from './kdf-config';
+
+// Key derivation for the v3 envelope
+// Stage 1 turns a configured secret into a 256-bit master key. That is the
+// expensive step for passphrases (scrypt), so master keys are memoized.
+// Stage 2 mixes in the random per-payload salt with HKDF, which is cheap, so
+// every payload still gets its own key without paying scrypt per request.
+// The settings and their checks are in kdf-config.ts; web-encryption.ts
+// derives the same keys with Web Crypto.
+
+const masterKeyCache = new Map<string, Uint8Array>();
+
+function fingerprint(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function memoize(cacheKey: string, derive: () => Uint8Array): Uint8Array {
+  let key = masterKeyCache.get(cacheKey);
+  if (!key) {
+    key = derive();
+    masterKeyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+function deriveMasterKey(secret: string, kdf: KdfName, params: ScryptParams): Uint8Array {
+  if (kdf === 'hkdf') {
+    const raw = decodeRawKey(secret);
+    if (!raw) {
+      throw new Error('HKDF requires a base64-encoded 32-byte key');
+    }
+    return raw;
+  }
+
+  validateScryptParams(params);
+  const { N, r, p } = params;
+
+  return memoize(`scrypt:${N}:${r}:${p}:${fingerprint(secret)}`, () =>
+    crypto.scryptSync(secret, SCRYPT_MASTER_SALT, KEY_LENGTH, { N, r, p, maxmem: 2 * MAX_SCRYPT_MEMORY })
+  );
+}
+
+// Derives the key for a single payload from its secret, KDF and salt
+export function derivePayloadKey(
+  secret: string,
+  kdf: KdfName,
+  salt: Buffer,
+  info: string,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS
+): Buffer {
+  const masterKey = deriveMasterKey(secret, kdf, params);
+  return Buffer.from(crypto.hkdfSync('sha256', masterKey, salt, info, KEY_LENGTH));
+}
+
+// Key derivation used by v1/v2 envelopes: scrypt with a fixed literal salt
+export function deriveLegacyKey(secret: string): Buffer {
+  return Buffer.from(memoize(`legacy:${fingerprint(secret)}`, () => crypto.scryptSync(secret, LEGACY_SCRYPT_SALT, KEY_LENGTH)));
+}
+
+// Drops every memoized master key (e.g. after removing a key from the keyring)
+export function clearKeyCache(): void {
+  masterKeyCache.clear();
+}
@@ -0,0 +1,300 @@
+import crypto from 'crypto';
+import { isCompressionAlgorithm } from './compression';
+import { rewrapDataKey } from './data-key-encryption';
+import { decrypt, encrypt } from './encryption';
+import { parseEnvelope } from './envelope';
+import type { TierKeyrings } from './field-encryption';
+import { decodeRawKey, KEY_LENGTH } from './kdf';
+import type { KeyProvider } from './key-provider';
+import { createKeyring, type Keyring } from './keyring';
+
+// Key lifecycle helpers behind `npm run keys`: generating and checking
+// secrets, fingerprints, rotation and re-encrypting stored envelopes.
+// Everything here is pure or works on values; the CLI does the file I/O.
+
+export type KeyKind = 'raw' | 'passphrase';
+
+export interface KeyStrength {
+  kind: KeyKind;          // raw: base64 for exactly 32 bytes, derived with HKDF
+  estimatedBits: number;
+  problems: string[];     // Empty when the secret is fit for use
+}
+
+export interface ReencryptionReport {
+  reencrypted: string[];  // JSON paths of envelopes moved to the active key
+  unchanged: string[];    // Already v3 under the active key, or v4 (see rewrapJson)
+  skipped: string[];      // Sealed under a keyring or key ID that isn't held; left as they are
+}
+
+export interface RewrapReport {
+  rewrapped: string[];    // JSON paths of v4 envelopes whose data key moved to the active KEK
+  unchanged: string[];    // Already wrapped under the active KEK
+}
+
+// Passphrases are stretched with scrypt, but that only slows guessing down;
+// below this they are still within reach of an offline attack
+export const MIN_PASSPHRASE_BITS = 128;
+
+const MIN_DISTINCT_KEY_BYTES = 16;
+const MAX_REPEATED_KEY_BYTES = 4;
+
+function longestRun(values: ArrayLike<number>): number {
+  let longest = 0;
+  let current = 0;
+  for (let i = 0; i < values.length; i++) {
+    current = i > 0 && values[i] === values[i - 1] ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// Size of the character pool a passphrase appears to be drawn from
+function characterPool(secret: string): number {
+  let pool = 0;
+  if (/[a-z]/.test(secret)) pool += 26;
+  if (/[A-Z]/.test(secret)) pool += 26;
+  if (/[0-9]/.test(secret)) pool += 10;
+  if (/[^A-Za-z0-9]/.test(secret)) pool += 33;
+  return pool;
+}
+
+// Bits per character given how often each character occurs in the string
+function shannonEntropy(characters: string[]): number {
+  const counts = new Map<string, number>();
+  for (const character of characters) {
+    counts.set(character, (counts.get(character) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / characters.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Flags secrets that are unlikely to be random: raw keys with too few distinct
+// bytes or long runs, and passphrases whose estimated entropy is too low.
+// The estimate takes the lower of the character pool size and the character
+// frequencies. It is still an upper bound: a long dictionary phrase can pass.
+export function assessKeyStrength(secret: string): KeyStrength {
+  const raw = decodeRawKey(secret);
+  const problems: string[] = [];
+
+  if (raw) {
+    if (new Set(raw).size < MIN_DISTINCT_KEY_BYTES) {
+      problems.push(`only ${new Set(raw).size} distinct bytes; expected random bytes`);
+    }
+    if (longestRun(raw) > MAX_REPEATED_KEY_BYTES) {
+      problems.push(`a byte repeats ${longestRun(raw)} times in a row`);
+    }
+    return { kind: 'raw', estimatedBits: KEY_LENGTH * 8, problems };
+  }
+
+  const characters = [...secret];
+  const distinct = new Set(characters).size;
+  const bitsPerCharacter = Math.min(Math.log2(Math.max(characterPool(secret), 1)), shannonEntropy(characters));
+  const estimatedBits = Math.floor(characters.length * bitsPerCharacter);
+
+  if (estimatedBits < MIN_PASSPHRASE_BITS) {
+    problems.push(`estimated ${estimatedBits} bits of entropy; use at least ${MIN_PASSPHRASE_BITS} or a generated key`);
+  }
+  if (characters.length > 0 && distinct < characters.length / 2) {
+    problems.push(`only ${distinct} distinct characters in ${characters.length}`);
+  }
+  if (longestRun(characters.map(character => character.codePointAt(0)!)) > MAX_REPEATED_KEY_BYTES) {
+    problems.push('a character repeats more than 4 times in a row');
+  }
+  return { kind: 'passphrase', estimatedBits, problems };
+}
+
+// 32 random bytes as base64, checked before they are handed out so a broken
+// random source can't produce a usable-looking key
+export function generateKey(randomBytes: (size: number) => Buffer = crypto.randomBytes): string {
+  const secret = randomBytes(KEY_LENGTH).toString('base64');
+  const { problems } = assessKeyStrength(secret);
+  if (problems.length > 0) {
+    throw new Error(`Generated key failed entropy checks: ${problems.join('; ')}`);
+  }
+  return secret;
+}
+
+// Short, non-reversible identifier for comparing secrets across environments
+// without printing them, e.g. 3f2a:91c4:0be7:5d18
+export function keyFingerprint(secret: string): string {
+  const digest = crypto.createHash('sha256').update(`key-fingerprint:${secret}`).digest('hex');
+  return digest.slice(0, 16).match(/.{4}/g)!.join(':');
+}
+
+// Default ID for a new key: the current month, with a suffix if it is taken
+export function nextKeyId(keyring: Keyring, now: Date = new Date()): string {
+  const month = now.toISOString().slice(0, 7);
+  let keyId = month;
+  for (let suffix = 2; keyring.keys.has(keyId); suffix++) {
+    keyId = `${month}-${suffix}`;
+  }
+  return keyId;
+}
+
+// Adds a key and makes it active. Old keys stay so existing payloads still
+// decrypt until they have been re-encrypted.
+export function rotateKeyring(keyring: Keyring, { keyId = nextKeyId(keyring), secret = generateKey() } = {}): Keyring {
+  if (keyring.keys.has(keyId)) {
+    throw new Error(`Key ID "${keyId}" is already in the keyring`);
+  }
+  return createKeyring({ ...Object.fromEntries(keyring.keys), [keyId]: secret }, keyId, keyring.kdf);
+}
+
+// Environment variables describing a keyring, as read by loadKeyringFromEnv
+export function keyringToEnv(keyring: Keyring, prefix: string = 'ENCRYPTION'): Record<string, string> {
+  for (const [id, secret] of keyring.keys) {
+    if (secret.includes(',')) {
+      throw new Error(`Key "${id}" contains a comma and can't be listed in ${prefix}_KEYS`);
+    }
+  }
+  return {
+    [`${prefix}_KEYS`]: [...keyring.keys].map(([id, secret]) => `${id}:${secret}`).join(','),
+    [`${prefix}_ACTIVE_KEY_ID`]: keyring.activeKeyId,
+  };
+}
+
+// Rewrites a keyring's variables in .env file contents. The single-key form
+// is removed because <prefix>_KEYS now carries it under the "default" ID.
+export function updateEnvFile(contents: string, keyring: Keyring, prefix: string = 'ENCRYPTION'): string {
+  const variables = keyringToEnv(keyring, prefix);
+  const replaced = new Set([`${prefix}_KEY`, ...Object.keys(variables)]);
+  const newline = contents.includes('\r\n') ? '\r\n' : '\n';
+
+  const lines = contents
+    .split(/\r?\n/)
+    .filter(line => !replaced.has(line.split('=')[0].trim()));
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const [name, value] of Object.entries(variables)) {
+    lines.push(`${name}=${value}`);
+  }
+  return `${lines.join(newline)}${newline}`;
+}
+
+const BASE64_16_BYTES = /^[A-Za-z0-9+/]{22}==$/;
+
+// Whether a string is an envelope. Legacy iv:tag:data strings are only
+// recognized with 16-byte iv and tag, so values like "10:30:00" are left alone.
+export function isEnvelope(value: string): boolean {
+  try {
+    const envelope = parseEnvelope(value);
+    return envelope.version !== 'v1' || (BASE64_16_BYTES.test(envelope.iv) && BASE64_16_BYTES.test(envelope.tag));
+  } catch {
+    return false;
+  }
+}
+
+function reencryptValue(value: string, keyring: Keyring | null): string | null | undefined {
+  const envelope = parseEnvelope(value);
+  // v4 data keys are wrapped by the key provider, not sealed under the keyring
+  if (envelope.version === 'v4' || (envelope.version === 'v3' && envelope.keyId === keyring?.activeKeyId)) {
+    return null;
+  }
+  // Legacy envelopes name no key, so they are tried with every key held
+  if (!keyring || (envelope.version !== 'v1' && !keyring.keys.has(envelope.keyId))) {
+    return undefined;
+  }
+  // Claims are kept so sealed fields stay bound to their record and tier
+  const header = envelope.version === 'v3' ? envelope.header : undefined;
+  const compression = isCompressionAlgorithm(header?.zip) ? { algorithm: header.zip, threshold: 0 } : undefined;
+  return encrypt(decrypt(value, keyring), keyring, { claims: header?.ctx, compression });
+}
+
+// The tier of a sealed record (see field-encryption.ts), whose `sealed`
+// fields are under that tier's keyring rather than the main one
+function sealedRecordTier(node: object): string | null {
+  const { sensitivity, sealed } = node as { sensitivity?: unknown; sealed?: unknown };
+  return typeof sensitivity === 'string' && typeof sealed === 'object' && sealed !== null ? sensitivity : null;
+}
+
+// Re-encrypts every envelope string in a JSON value under the active key of
+// its keyring, upgrading v2 and legacy envelopes to v3 on the way. Fields of
+// sealed records use the tier keyring for the record's sensitivity, everything
+// else the main keyring. Envelopes under keys neither holds are skipped and
+// listed; one that fails to decrypt with a key that is held stops the run, so
+// nothing is half-migrated.
+export function reencryptJson(
+  value: unknown,
+  keyring: Keyring,
+  tierKeyrings: TierKeyrings = {}
+): { value: unknown; report: ReencryptionReport } {
+  const report: ReencryptionReport = { reencrypted: [], unchanged: [], skipped: [] };
+
+  function visit(node: unknown, path: string, nodeKeyring: Keyring | null): unknown {
+    if (typeof node === 'string') {
+      if (!isEnvelope(node)) {
+        return node;
+      }
+      let next: string | null | undefined;
+      try {
+        next = reencryptValue(node, nodeKeyring);
+      } catch (error) {
+        throw new Error(`${path || '$'}: ${(error as Error).message}`, { cause: error });
+      }
+      (next === undefined ? report.skipped : next === null ? report.unchanged : report.reencrypted).push(path || '$');
+      return next ?? node;
+    }
+    if (Array.isArray(node)) {
+      return node.map((item, index) => visit(item, `${path}[${index}]`, nodeKeyring));
+    }
+    if (node && typeof node === 'object') {
+      const tier = sealedRecordTier(node);
+      return Object.fromEntries(
+        Object.entries(node).map(([key, item]) => [
+          key,
+          visit(item, path ? `${path}.${key}` : key, tier !== null && key === 'sealed' ? tierKeyrings[tier] ?? null : nodeKeyring),
+        ])
+      );
+    }
+    return node;
+  }
+
+  return { value: visit(value, '', keyring), report };
+}
+
+// Re-wraps the data key of every v4 envelope in a JSON value under the key
+// provider's active KEK. The ciphertexts are kept as they are. Like
+// reencryptJson, it stops at the first envelope that fails.
+export async function rewrapJson(value: unknown, provider: KeyProvider): Promise<{ value: unknown; report: RewrapReport }> {
+  const report: RewrapReport = { rewrapped: [], unchanged: [] };
+
+  // Sequential, so a large file doesn't flood the provider with requests
+  async function visit(node: unknown, path: string): Promise<unknown> {
+    if (typeof node === 'string') {
+      if (!isEnvelope(node) || parseEnvelope(node).version !== 'v4') {
+        return node;
+      }
+      let next: string | null;
+      try {
+        next = await rewrapDataKey(node, provider);
+      } catch (error) {
+        throw new Error(`${path || '$'}: ${(error as Error).message}`, { cause: error });
+      }
+      (next === null ? report.unchanged : report.rewrapped).push(path || '$');
+      return next ?? node;
+    }
+    if (Array.isArray(node)) {
+      const items: unknown[] = [];
+      for (const [index, item] of node.entries()) {
+        items.push(await visit(item, `${path}[${index}]`));
+      }
+      return items;
+    }
+    if (node && typeof node === 'object') {
+      const entries: [string, unknown][] = [];
+      for (const [key, item] of Object.entries(node)) {
+        entries.push([key, await visit(item, path ? `${path}.${key}` : key)]);
+      }
+      return Object.fromEntries(entries);
+    }
+    return node;
+  }
+
+  return { value: await visit(value, ''), report };
+}
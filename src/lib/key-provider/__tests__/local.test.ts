@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuthenticationFailedError, UnknownKeyIdError } from '../../decryption-errors';
+import { rotateKeyring } from '../../key-management';
+import { createKeyring } from '../../keyring';
+import { createKeyProviderFromEnv, DEFAULT_KEY_FILE_PATH } from '..';
+import { createLocalKeyProvider, parseLocalKeyFile, readLocalKeyFile, writeLocalKeyFile } from '../local';
+
+const kek = crypto.randomBytes(32).toString('base64');
+
+describe('local key provider', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kek-'));
+    filePath = path.join(dir, 'nested', 'kek.json');
+    await writeLocalKeyFile(filePath, createKeyring({ first: kek }, 'first'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should wrap and unwrap data keys under the active KEK', async () => {
+    const provider = createLocalKeyProvider(filePath);
+    const dataKey = crypto.randomBytes(32);
+
+    const wrapped = await provider.wrapKey(dataKey);
+
+    expect(wrapped).toMatchObject({ kp: 'local', kid: 'first' });
+    expect(Buffer.from(wrapped.wk, 'base64').includes(dataKey)).toBe(false);
+    expect(Buffer.from(await provider.unwrapKey(wrapped))).toEqual(dataKey);
+  });
+
+  it('should write the key file for its owner only', async () => {
+    const { mode } = await fs.stat(filePath);
+    expect(mode & 0o777).toBe(0o600);
+    expect((await readLocalKeyFile(filePath)).activeKeyId).toBe('first');
+  });
+
+  it('should reject tampered wrapped keys', async () => {
+    const provider = createLocalKeyProvider(filePath);
+    const wrapped = await provider.wrapKey(crypto.randomBytes(32));
+    const bytes = Buffer.from(wrapped.wk, 'base64');
+    bytes[20] ^= 1;
+
+    await expect(provider.unwrapKey({ ...wrapped, wk: bytes.toString('base64') })).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should bind wrapped keys to their KEK ID', async () => {
+    await writeLocalKeyFile(filePath, createKeyring({ first: kek, alias: kek }, 'first'));
+    const provider = createLocalKeyProvider(filePath);
+    const wrapped = await provider.wrapKey(crypto.randomBytes(32));
+
+    await expect(provider.unwrapKey({ ...wrapped, kid: 'alias' })).rejects.toThrow(AuthenticationFailedError);
+  });
+
+  it('should report unknown KEK IDs', async () => {
+    const provider = createLocalKeyProvider(filePath);
+    const wrapped = await provider.wrapKey(crypto.randomBytes(32));
+
+    await expect(provider.unwrapKey({ ...wrapped, kid: 'retired' })).rejects.toThrow(UnknownKeyIdError);
+  });
+
+  it('should pick up a rotated KEK without being recreated', async () => {
+    const provider = createLocalKeyProvider(filePath);
+    const before = await provider.wrapKey(crypto.randomBytes(32));
+
+    await writeLocalKeyFile(filePath, rotateKeyring(await readLocalKeyFile(filePath), { keyId: 'second' }));
+
+    await expect(provider.activeKeyId()).resolves.toBe('second');
+    expect((await provider.wrapKey(crypto.randomBytes(32))).kid).toBe('second');
+    await expect(provider.unwrapKey(before)).resolves.toHaveLength(32);
+  });
+
+  it('should only accept raw 32-byte KEKs', () => {
+    expect(() => parseLocalKeyFile({ activeKeyId: 'a', keys: { a: 'a passphrase' } }, 'kek.json')).toThrow(/32-byte key/);
+    expect(() => parseLocalKeyFile({ keys: { a: kek } }, 'kek.json')).toThrow(/must contain/);
+    expect(() => parseLocalKeyFile({ activeKeyId: 'b', keys: { a: kek } }, 'kek.json')).toThrow();
+  });
+});
+
+describe('createKeyProviderFromEnv', () => {
+  it('should default to no key provider', () => {
+    expect(createKeyProviderFromEnv({})).toBeNull();
+    expect(createKeyProviderFromEnv({ ENCRYPTION_KEY_PROVIDER: 'none' })).toBeNull();
+  });
+
+  it('should create the local provider', () => {
+    expect(createKeyProviderFromEnv({ ENCRYPTION_KEY_PROVIDER: 'local' })?.name).toBe('local');
+    expect(DEFAULT_KEY_FILE_PATH).toBe('data/kek.json');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createKeyProviderFromEnv({ ENCRYPTION_KEY_PROVIDER: 'vault' })).toThrow(/Unknown ENCRYPTION_KEY_PROVIDER/);
+  });
+});
@@ -0,0 +1,48 @@
+import { createLocalKeyProvider } from './local';
+import type { KeyProvider } from './types';
+
+export type { KeyProvider, WrappedDataKey } from './types';
+export {
+  createLocalKeyProvider,
+  LOCAL_KEY_PROVIDER,
+  parseLocalKeyFile,
+  readLocalKeyFile,
+  writeLocalKeyFile,
+  type LocalKeyFile,
+} from './local';
+
+export const DEFAULT_KEY_FILE_PATH = 'data/kek.json';
+
+// undefined until first read from the environment; null when none is configured
+let keyProvider: KeyProvider | null | undefined;
+
+// Builds the key provider selected by environment variables:
+//   ENCRYPTION_KEY_PROVIDER=none (default) | local
+//   ENCRYPTION_KEY_FILE overrides the local provider's key file location
+// With none, payloads are sealed with keys derived from the keyring, as before.
+// A KMS adapter is another case here.
+export function createKeyProviderFromEnv(env: Record<string, string | undefined> = process.env): KeyProvider | null {
+  const provider = env.ENCRYPTION_KEY_PROVIDER || 'none';
+
+  switch (provider) {
+    case 'none':
+      return null;
+    case 'local':
+      return createLocalKeyProvider(env.ENCRYPTION_KEY_FILE || DEFAULT_KEY_FILE_PATH);
+    default:
+      throw new Error(`Unknown ENCRYPTION_KEY_PROVIDER "${provider}". Expected none or local`);
+  }
+}
+
+// Process-wide key provider, created lazily from the environment
+export function getKeyProvider(): KeyProvider | null {
+  if (keyProvider === undefined) {
+    keyProvider = createKeyProviderFromEnv();
+  }
+  return keyProvider;
+}
+
+// Replaces the process-wide key provider (e.g. in tests); null resets it
+export function setKeyProvider(next: KeyProvider | null): void {
+  keyProvider = next ?? undefined;
+}
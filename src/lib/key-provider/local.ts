@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AuthenticationFailedError, MalformedEnvelopeError } from '../decryption-errors';
+import { IV_LENGTH, TAG_LENGTH } from '../envelope';
+import { decodeRawKey } from '../kdf-config';
+import { createKeyring, getKeySecret, type Keyring } from '../keyring';
+import type { KeyProvider } from './types';
+
+// Local stand-in for a KMS: key-encryption keys live in a JSON file
+//   { "activeKeyId": "2025-01", "keys": { "2025-01": "<base64 32-byte key>" } }
+// held as a keyring, so the key management helpers work on it unchanged.
+// Data keys are wrapped with AES-256-GCM, with the KEK's ID as associated
+// data. The file is re-read on every call, so a rotated KEK is picked up
+// without a restart. Keep it outside the repository, readable by the server only.
+
+export const LOCAL_KEY_PROVIDER = 'local';
+
+export interface LocalKeyFile {
+  activeKeyId: string;
+  keys: Record<string, string>;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+// Checks a parsed key file: key IDs as for any keyring, and every KEK a raw
+// 32-byte key, since passphrases have no place in a KMS
+export function parseLocalKeyFile(value: unknown, filePath: string): Keyring {
+  const file = value as Partial<LocalKeyFile> | null;
+  if (!file || typeof file.activeKeyId !== 'string' || !file.keys || typeof file.keys !== 'object') {
+    throw new Error(`Key file ${filePath} must contain { "activeKeyId": "<keyId>", "keys": { "<keyId>": "<key>" } }`);
+  }
+  for (const [id, secret] of Object.entries(file.keys)) {
+    if (typeof secret !== 'string' || !decodeRawKey(secret)) {
+      throw new Error(`Key "${id}" in ${filePath} must be a base64-encoded 32-byte key`);
+    }
+  }
+  return createKeyring(file.keys, file.activeKeyId);
+}
+
+export async function readLocalKeyFile(filePath: string): Promise<Keyring> {
+  return parseLocalKeyFile(JSON.parse(await fs.readFile(filePath, 'utf8')), filePath);
+}
+
+// Writes through a temp file and rename; the file is readable by its owner only
+export async function writeLocalKeyFile(filePath: string, keyring: Keyring): Promise<void> {
+  const file: LocalKeyFile = { activeKeyId: keyring.activeKeyId, keys: Object.fromEntries(keyring.keys) };
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`, { encoding: 'utf8', mode: 0o600 });
+  await fs.rename(tempPath, filePath);
+}
+
+function keyEncryptionKey(keyring: Keyring, kid: string): Buffer {
+  return Buffer.from(decodeRawKey(getKeySecret(keyring, kid))!);
+}
+
+// Binds a wrapped key to its KEK, so it can't be passed off as wrapped under another
+function associatedData(kid: string): Buffer {
+  return Buffer.from(`${LOCAL_KEY_PROVIDER}.${kid}`, 'utf8');
+}
+
+// Wrapped keys are base64 of iv || encrypted key || tag
+export function createLocalKeyProvider(filePath: string): KeyProvider {
+  return {
+    name: LOCAL_KEY_PROVIDER,
+
+    async activeKeyId() {
+      return (await readLocalKeyFile(filePath)).activeKeyId;
+    },
+
+    async wrapKey(dataKey) {
+      const keyring = await readLocalKeyFile(filePath);
+      const kid = keyring.activeKeyId;
+      const iv = crypto.randomBytes(IV_LENGTH);
+      const cipher = crypto.createCipheriv(ALGORITHM, keyEncryptionKey(keyring, kid), iv, { authTagLength: TAG_LENGTH });
+      cipher.setAAD(associatedData(kid));
+
+      const wrapped = Buffer.concat([iv, cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+      return { kp: LOCAL_KEY_PROVIDER, kid, wk: wrapped.toString('base64') };
+    },
+
+    async unwrapKey({ kid, wk }) {
+      const keyring = await readLocalKeyFile(filePath);
+      const key = keyEncryptionKey(keyring, kid);
+      const wrapped = Buffer.from(wk, 'base64');
+      if (wrapped.length <= IV_LENGTH + TAG_LENGTH) {
+        throw new MalformedEnvelopeError('Invalid encrypted format. Wrapped data key is too short');
+      }
+
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, wrapped.subarray(0, IV_LENGTH), { authTagLength: TAG_LENGTH });
+      decipher.setAAD(associatedData(kid));
+      decipher.setAuthTag(wrapped.subarray(wrapped.length - TAG_LENGTH));
+      try {
+        return Buffer.concat([decipher.update(wrapped.subarray(IV_LENGTH, wrapped.length - TAG_LENGTH)), decipher.final()]);
+      } catch (error) {
+        throw new AuthenticationFailedError({ cause: error });
+      }
+    },
+  };
+}
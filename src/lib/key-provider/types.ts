@@ -0,0 +1,24 @@
+// Key providers hold the key-encryption keys (KEKs) behind envelope
+// encryption. Every payload is sealed with a fresh data key, and only the
+// data key is encrypted ("wrapped") under a KEK, so rotating a KEK means
+// re-wrapping data keys rather than re-encrypting payloads. The local
+// provider keeps KEKs in a file; a cloud KMS adapter implements the same
+// interface with the KMS's encrypt and decrypt calls.
+
+// A data key as stored next to the payload it sealed
+export interface WrappedDataKey {
+  kp: string;  // Name of the provider that wrapped it
+  kid: string; // KEK it is wrapped under, in the provider's own naming
+  wk: string;  // Wrapped key, base64; only the provider can read it
+}
+
+export interface KeyProvider {
+  readonly name: string;
+  // KEK that new data keys are wrapped under
+  activeKeyId(): Promise<string>;
+  // Wraps a data key under the active KEK
+  wrapKey(dataKey: Uint8Array): Promise<WrappedDataKey>;
+  // Recovers a data key; throws UnknownKeyIdError for KEKs it doesn't hold
+  // and AuthenticationFailedError for wrapped keys that don't verify
+  unwrapKey(wrapped: WrappedDataKey): Promise<Uint8Array>;
+}
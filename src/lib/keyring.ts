@@ -0,0 +1,99 @@
+import { UnknownKeyIdError } from './decryption-errors';
+import { DEFAULT_KDF_CONFIG, loadKdfConfigFromEnv, type KdfConfig } from './kdf-config';
+
+// Key ID used when a single ENCRYPTION_KEY is configured
+export const DEFAULT_KEY_ID = 'default';
+
+// Key IDs are embedded in the envelope, so they must not contain the '.' separator
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Named encryption secrets; new payloads are always sealed with the active key
+export interface Keyring {
+  activeKeyId: string;
+  keys: ReadonlyMap<string, string>;
+  kdf: KdfConfig; // How new payloads derive their keys
+}
+
+// Builds a keyring from id → secret pairs and validates the active key ID
+export function createKeyring(
+  keys: Record<string, string>,
+  activeKeyId: string,
+  kdf: KdfConfig = DEFAULT_KDF_CONFIG
+): Keyring {
+  const entries = Object.entries(keys);
+
+  for (const [id, secret] of entries) {
+    if (!KEY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid key ID "${id}". Use letters, digits, "_" or "-"`);
+    }
+    if (!secret) {
+      throw new Error(`Key "${id}" has an empty secret`);
+    }
+  }
+
+  // A Map, so IDs like "constructor" don't match inherited object properties
+  const keyMap = new Map(entries);
+  if (!keyMap.has(activeKeyId)) {
+    throw new Error(`Active key ID "${activeKeyId}" is not in the keyring`);
+  }
+
+  return { activeKeyId, keys: keyMap, kdf };
+}
+
+// Wraps a single secret as a one-key keyring
+export function keyringFromSecret(secret: string, keyId: string = DEFAULT_KEY_ID): Keyring {
+  return createKeyring({ [keyId]: secret }, keyId);
+}
+
+// Looks up a secret by key ID, failing loudly for IDs we don't hold
+export function getKeySecret(keyring: Keyring, keyId: string): string {
+  const secret = keyring.keys.get(keyId);
+  if (!secret) {
+    throw new UnknownKeyIdError(keyId);
+  }
+  return secret;
+}
+
+// Loads the keyring from environment variables:
+//   ENCRYPTION_KEYS=2024-01:<secret>,2025-01:<secret>
+//   ENCRYPTION_ACTIVE_KEY_ID=2025-01
+// A plain ENCRYPTION_KEY is kept under the "default" ID so payloads sealed
+// before rotation still decrypt. KDF settings come from loadKdfConfigFromEnv.
+// Other keyrings use the same variables under a different prefix
+// (e.g. CONFIDENTIAL_ENCRYPTION_KEY). Returns null when no key is configured.
+export function loadKeyringFromEnv(
+  env: Record<string, string | undefined> = process.env,
+  prefix: string = 'ENCRYPTION'
+): Keyring | null {
+  // No prototype, so an ID like "__proto__" is stored as a key rather than
+  // replacing the object's prototype
+  const keys: Record<string, string> = Object.create(null);
+
+  for (const entry of (env[`${prefix}_KEYS`] ?? '').split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    if (separator <= 0) {
+      throw new Error(`Invalid ${prefix}_KEYS entry. Expected <keyId>:<secret>`);
+    }
+    keys[trimmed.slice(0, separator)] = trimmed.slice(separator + 1);
+  }
+
+  const singleKey = env[`${prefix}_KEY`];
+  if (singleKey && !keys[DEFAULT_KEY_ID]) {
+    keys[DEFAULT_KEY_ID] = singleKey;
+  }
+
+  const ids = Object.keys(keys);
+  if (ids.length === 0) {
+    return null;
+  }
+
+  const activeKeyId = env[`${prefix}_ACTIVE_KEY_ID`] || (ids.length === 1 ? ids[0] : undefined);
+  if (!activeKeyId) {
+    throw new Error(`${prefix}_ACTIVE_KEY_ID must be set when several keys are configured`);
+  }
+
+  return createKeyring(keys, activeKeyId, loadKdfConfigFromEnv(env));
+}
@@ -0,0 +1,148 @@
+/**
+ * @jest-environment node
+ */
+import {
+  checkRateLimit,
+  clientAddress,
+  createMemoryRateLimitStore,
+  createRateLimitStoreFromEnv,
+  loadRateLimitPolicy,
+  rateLimitHeaders,
+  setRateLimitStore,
+  takeToken,
+} from '..';
+
+const policy = { limit: 3, windowSeconds: 60 };
+
+describe('takeToken', () => {
+  it('should start new keys with a full bucket', () => {
+    const { result } = takeToken(undefined, policy, 0);
+    expect(result).toMatchObject({ allowed: true, limit: 3, remaining: 2, retryAfterSeconds: 0 });
+  });
+
+  it('should refuse once the bucket is empty and say when the next token arrives', () => {
+    let bucket = takeToken(undefined, policy, 0).bucket;
+    bucket = takeToken(bucket, policy, 0).bucket;
+    bucket = takeToken(bucket, policy, 0).bucket;
+
+    const { result } = takeToken(bucket, policy, 0);
+    expect(result).toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: 20, resetSeconds: 60 });
+  });
+
+  it('should refill in proportion to elapsed time, up to the limit', () => {
+    const empty = { tokens: 0, updatedAt: 0 };
+
+    expect(takeToken(empty, policy, 10_000).result.allowed).toBe(false);
+    expect(takeToken(empty, policy, 20_000).result).toMatchObject({ allowed: true, remaining: 0 });
+    expect(takeToken(empty, policy, 3_600_000).result).toMatchObject({ allowed: true, remaining: 2 });
+  });
+});
+
+describe('createMemoryRateLimitStore', () => {
+  it('should keep a bucket per key', async () => {
+    const store = createMemoryRateLimitStore();
+    const single = { limit: 1, windowSeconds: 60 };
+
+    expect((await store.take('a', single, 0)).allowed).toBe(true);
+    expect((await store.take('a', single, 0)).allowed).toBe(false);
+    expect((await store.take('b', single, 0)).allowed).toBe(true);
+  });
+});
+
+describe('loadRateLimitPolicy', () => {
+  it('should fall back to the route default', () => {
+    expect(loadRateLimitPolicy('login', {})).toEqual({ limit: 5, windowSeconds: 60 });
+  });
+
+  it('should read <limit>/<windowSeconds> from the route variable', () => {
+    expect(loadRateLimitPolicy('encrypted-data', { RATE_LIMIT_ENCRYPTED_DATA: '100/30' })).toEqual({ limit: 100, windowSeconds: 30 });
+  });
+
+  it('should return null when the route is switched off', () => {
+    expect(loadRateLimitPolicy('records', { RATE_LIMIT_RECORDS: 'off' })).toBeNull();
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => loadRateLimitPolicy('audit', { RATE_LIMIT_AUDIT: '10 per minute' })).toThrow('Invalid RATE_LIMIT_AUDIT');
+    expect(() => loadRateLimitPolicy('audit', { RATE_LIMIT_AUDIT: '0/60' })).toThrow('Invalid RATE_LIMIT_AUDIT');
+  });
+});
+
+describe('createRateLimitStoreFromEnv', () => {
+  it('should reject unknown stores', () => {
+    expect(() => createRateLimitStoreFromEnv({ RATE_LIMIT_STORE: 'redis' })).toThrow('Unknown RATE_LIMIT_STORE');
+  });
+});
+
+describe('clientAddress', () => {
+  const trusted = { RATE_LIMIT_TRUST_PROXY: '1' };
+
+  it('should use the hop added by the nearest proxy', () => {
+    const request = new Request('http://localhost/', { headers: { 'x-forwarded-for': '10.0.0.9, 203.0.113.7' } });
+    expect(clientAddress(request, trusted)).toBe('203.0.113.7');
+    expect(clientAddress(request, { RATE_LIMIT_TRUST_PROXY: '2' })).toBe('10.0.0.9');
+  });
+
+  it('should fall back to X-Real-IP', () => {
+    expect(clientAddress(new Request('http://localhost/', { headers: { 'x-real-ip': '203.0.113.8' } }), trusted)).toBe('203.0.113.8');
+  });
+
+  it('should ignore forwarding headers unless a proxy is trusted', () => {
+    const request = new Request('http://localhost/', { headers: { 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' } });
+    expect(clientAddress(request, {})).toBeNull();
+    expect(clientAddress(request, { RATE_LIMIT_TRUST_PROXY: '0' })).toBeNull();
+  });
+
+  it('should reject invalid hop counts', () => {
+    expect(() => clientAddress(new Request('http://localhost/'), { RATE_LIMIT_TRUST_PROXY: 'yes' })).toThrow('Invalid RATE_LIMIT_TRUST_PROXY');
+  });
+});
+
+describe('checkRateLimit', () => {
+  afterEach(() => setRateLimitStore(null));
+
+  function signIn(address: string, username = 'alice') {
+    return new Request('http://localhost/api/auth/login', {
+      method: 'POST',
+      headers: { 'x-forwarded-for': address },
+      body: JSON.stringify({ username, password: 'guess' }),
+    });
+  }
+
+  it('should key sign-in attempts by client address behind a trusted proxy', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    const env = { RATE_LIMIT_LOGIN: '1/60', RATE_LIMIT_TRUST_PROXY: '1' };
+
+    expect((await checkRateLimit(signIn('203.0.113.7'), 'login', env))?.allowed).toBe(true);
+    expect((await checkRateLimit(signIn('203.0.113.7', 'bob'), 'login', env))?.allowed).toBe(false);
+    expect((await checkRateLimit(signIn('203.0.113.8'), 'login', env))?.allowed).toBe(true);
+  });
+
+  it('should share one sign-in bucket across usernames without a trusted proxy', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    const env = { RATE_LIMIT_LOGIN: '1/60' };
+
+    expect((await checkRateLimit(signIn('203.0.113.7'), 'login', env))?.allowed).toBe(true);
+    expect((await checkRateLimit(signIn('203.0.113.8', 'bob'), 'login', env))?.allowed).toBe(false);
+  });
+
+  it('should give each live update route its own bucket', async () => {
+    setRateLimitStore(createMemoryRateLimitStore());
+    const env = { RATE_LIMIT_ENCRYPTED_EVENTS: '1/60', RATE_LIMIT_UPDATES: '1/60' };
+    const request = () => new Request('http://localhost/api/updates');
+
+    expect((await checkRateLimit(request(), 'encrypted-events', env))?.allowed).toBe(true);
+    expect((await checkRateLimit(request(), 'updates', env))?.allowed).toBe(true);
+    expect((await checkRateLimit(request(), 'updates', env))?.allowed).toBe(false);
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('should add Retry-After only to refusals', () => {
+    const allowed = takeToken(undefined, policy, 0).result;
+    const refused = { ...allowed, allowed: false, remaining: 0, retryAfterSeconds: 20 };
+
+    expect(rateLimitHeaders(allowed)).not.toHaveProperty('Retry-After');
+    expect(rateLimitHeaders(refused)).toMatchObject({ 'Retry-After': '20', 'RateLimit-Remaining': '0' });
+  });
+});
@@ -0,0 +1,37 @@
+import type { RateLimitPolicy, RateLimitResult, TokenBucket } from './types';
+
+// Refills a bucket for the time elapsed since its last update and tries to
+// take one token. New keys start with a full bucket. Pure, so every store
+// shares the same arithmetic.
+export function takeToken(
+  bucket: TokenBucket | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { bucket: TokenBucket; result: RateLimitResult } {
+  const refillPerSecond = policy.limit / policy.windowSeconds;
+  const elapsedSeconds = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+  let tokens = bucket ? Math.min(policy.limit, bucket.tokens + elapsedSeconds * refillPerSecond) : policy.limit;
+
+  const allowed = tokens >= 1;
+  if (allowed) {
+    tokens -= 1;
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((policy.limit - tokens) / refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerSecond),
+      windowSeconds: policy.windowSeconds,
+    },
+  };
+}
+
+// True once a bucket has refilled completely, i.e. it is no different from a new one
+export function isBucketFull(bucket: TokenBucket, policy: RateLimitPolicy, now: number): boolean {
+  const refilled = bucket.tokens + ((now - bucket.updatedAt) / 1000) * (policy.limit / policy.windowSeconds);
+  return refilled >= policy.limit;
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { ApiError, errorResponse, type ApiErrorBody } from '../api';
+import { getSessionUser } from '../auth/session';
+import { createMemoryRateLimitStore } from './memory';
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+
+export type { RateLimitPolicy, RateLimitResult, RateLimitStore, TokenBucket } from './types';
+export { isBucketFull, takeToken } from './bucket';
+export { createMemoryRateLimitStore } from './memory';
+
+// Rate-limited routes and their defaults. Sign-in is keyed by client IP, so
+// guessing passwords across accounts shares one bucket; without a trusted proxy
+// to report the IP, all sign-in attempts share one. The others are keyed by the
+// signed-in user, falling back to the IP without a session.
+export const RATE_LIMITED_ROUTES = {
+  'encrypted-data': { limit: 30, windowSeconds: 60, keyBy: 'session' },
+  'encrypted-stream': { limit: 5, windowSeconds: 60, keyBy: 'session' },
+  'records': { limit: 60, windowSeconds: 60, keyBy: 'session' },
+  'audit': { limit: 10, windowSeconds: 60, keyBy: 'session' },
+  'export': { limit: 5, windowSeconds: 60, keyBy: 'session' },
+  'encrypted-events': { limit: 20, windowSeconds: 60, keyBy: 'session' },
+  'updates': { limit: 20, windowSeconds: 60, keyBy: 'session' },
+  'login': { limit: 5, windowSeconds: 60, keyBy: 'ip' },
+} as const;
+
+export type RateLimitedRoute = keyof typeof RATE_LIMITED_ROUTES;
+
+let rateLimitStore: RateLimitStore | null = null;
+
+// 'encrypted-data' → RATE_LIMIT_ENCRYPTED_DATA
+export function rateLimitEnvName(route: RateLimitedRoute): string {
+  return `RATE_LIMIT_${route.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+}
+
+// Reads a route's policy: RATE_LIMIT_<ROUTE>=<limit>/<windowSeconds>, or off
+// to disable it. Returns null when the route is not limited.
+export function loadRateLimitPolicy(
+  route: RateLimitedRoute,
+  env: Record<string, string | undefined> = process.env
+): RateLimitPolicy | null {
+  const name = rateLimitEnvName(route);
+  const value = env[name]?.trim();
+  if (!value) {
+    const { limit, windowSeconds } = RATE_LIMITED_ROUTES[route];
+    return { limit, windowSeconds };
+  }
+  if (value === 'off') {
+    return null;
+  }
+
+  const match = /^(\d+)\/(\d+)$/.exec(value);
+  const limit = Number(match?.[1]);
+  const windowSeconds = Number(match?.[2]);
+  if (!match || limit < 1 || windowSeconds < 1) {
+    throw new Error(`Invalid ${name} "${value}". Expected <limit>/<windowSeconds> or off`);
+  }
+  return { limit, windowSeconds };
+}
+
+// Builds the store selected by RATE_LIMIT_STORE=memory (default). A shared
+// store for multi-instance deployments plugs in through setRateLimitStore.
+export function createRateLimitStoreFromEnv(env: Record<string, string | undefined> = process.env): RateLimitStore {
+  const store = env.RATE_LIMIT_STORE || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return createMemoryRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${store}". Expected memory`);
+  }
+}
+
+// Process-wide store, created lazily from the environment
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStoreFromEnv();
+  }
+  return rateLimitStore;
+}
+
+// Replaces the process-wide store (e.g. in tests); null resets it
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  rateLimitStore = next;
+}
+
+// Reads RATE_LIMIT_TRUST_PROXY=<hops>: how many proxies in front of the app
+// append to X-Forwarded-For. 0 (default) ignores the forwarding headers, since
+// without a proxy any client can set them.
+export function loadTrustedProxyHops(env: Record<string, string | undefined> = process.env): number {
+  const value = env.RATE_LIMIT_TRUST_PROXY?.trim();
+  if (!value) {
+    return 0;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid RATE_LIMIT_TRUST_PROXY "${value}". Expected the number of trusted proxy hops`);
+  }
+  return Number(value);
+}
+
+// The client address as seen by the outermost trusted proxy: the hop it added
+// to X-Forwarded-For, since earlier hops are whatever the client chose to send.
+// Null when no proxy is trusted or the headers are missing.
+export function clientAddress(request: Request, env: Record<string, string | undefined> = process.env): string | null {
+  const hops = loadTrustedProxyHops(env);
+  if (hops === 0) {
+    return null;
+  }
+  const forwardedFor = request.headers.get('x-forwarded-for')?.split(',').at(-hops)?.trim();
+  return forwardedFor || request.headers.get('x-real-ip')?.trim() || null;
+}
+
+async function rateLimitKey(
+  request: Request,
+  route: RateLimitedRoute,
+  env: Record<string, string | undefined>
+): Promise<string> {
+  if (RATE_LIMITED_ROUTES[route].keyBy === 'session') {
+    const user = await getSessionUser(request);
+    if (user) {
+      return `${route}:user:${user.username}`;
+    }
+  }
+
+  const address = clientAddress(request, env);
+  if (address) {
+    return `${route}:ip:${address}`;
+  }
+  // Sign-in attempts without a client IP share this bucket, so the username
+  // tried can neither lock an account out nor buy a fresh bucket. Requests to
+  // the other routes without a session are refused anyway.
+  return `${route}:anonymous`;
+}
+
+// Takes a token for this request's client on a route. Returns null when the
+// route's limit is switched off.
+export async function checkRateLimit(
+  request: Request,
+  route: RateLimitedRoute,
+  env: Record<string, string | undefined> = process.env
+): Promise<RateLimitResult | null> {
+  const policy = loadRateLimitPolicy(route, env);
+  if (!policy) {
+    return null;
+  }
+  return getRateLimitStore().take(await rateLimitKey(request, route, env), policy, Date.now());
+}
+
+// RateLimit-* fields as in the IETF RateLimit header fields draft, plus
+// Retry-After when the request was refused
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`,
+  };
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfterSeconds);
+  }
+  return headers;
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult | null): T {
+  if (result) {
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+      response.headers.set(name, value);
+    }
+  }
+  return response;
+}
+
+// 429 response for a refused request
+export function rateLimitedResponse(result: RateLimitResult): NextResponse<ApiErrorBody> {
+  const error = new ApiError(429, 'RATE_LIMITED', `Too many requests. Retry in ${result.retryAfterSeconds}s`);
+  return withRateLimitHeaders(errorResponse(error, 'Too many requests'), result);
+}
@@ -0,0 +1,32 @@
+import { isBucketFull, takeToken } from './bucket';
+import type { RateLimitPolicy, RateLimitStore, TokenBucket } from './types';
+
+// Full buckets are swept every this many takes so idle keys don't accumulate
+const SWEEP_INTERVAL = 1000;
+
+// Keeps buckets in memory; limits are per server process
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { bucket: TokenBucket; policy: RateLimitPolicy }>();
+  let takesSinceSweep = 0;
+
+  function sweep(now: number) {
+    for (const [key, { bucket, policy }] of buckets) {
+      if (isBucketFull(bucket, policy, now)) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  return {
+    async take(key, policy, now) {
+      if (++takesSinceSweep >= SWEEP_INTERVAL) {
+        takesSinceSweep = 0;
+        sweep(now);
+      }
+
+      const { bucket, result } = takeToken(buckets.get(key)?.bucket, policy, now);
+      buckets.set(key, { bucket, policy });
+      return result;
+    },
+  };
+}
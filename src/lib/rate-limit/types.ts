@@ -0,0 +1,27 @@
+// A bucket holds up to `limit` tokens and refills at `limit` per `windowSeconds`,
+// so a client may burst to the limit and then sustain limit/window requests
+export interface RateLimitPolicy {
+  limit: number;
+  windowSeconds: number;
+}
+
+// Stored state of one bucket; updatedAt is in milliseconds since the epoch
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;          // Whole tokens left after this request
+  resetSeconds: number;       // Until the bucket is full again
+  retryAfterSeconds: number;  // Until the next token, 0 when allowed
+  windowSeconds: number;
+}
+
+// Where buckets live. take() must read, refill and decrement a bucket
+// atomically, so a shared store (e.g. Redis) would implement it as a script.
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>;
+}
@@ -0,0 +1,698 @@
+import 'server-only';
+import { ApiError, decryptPayload, encryptPayload } from './api';
+import { recordAuditEvent, recordAuditFailure } from './audit';
+import {
+  applyClearance,
+  canAccess,
+  loadAccessPolicyFromEnv,
+  redactRecord,
+  requireClearance,
+  scopeQuery,
+  SESSION_COOKIE,
+  type AccessPolicy,
+  type ClearedRecord,
+  type User,
+} from './auth';
+import {
+  createMemoryReplayGuard,
+  ENCRYPTED_DATA_EVENTS_ROUTE,
+  ENCRYPTED_DATA_ROUTE,
+  ENCRYPTED_DATA_STREAM_ROUTE,
+  ENCRYPTED_DATA_TTL_SECONDS,
+  issueClaims,
+  RECORDS_API_AUDIENCE,
+  RECORDS_API_ROUTE,
+  RECORDS_VIEWER_AUDIENCE,
+} from './claims';
+import { MissingKeyError, UpstreamFetchError } from './decryption-errors';
+import { MAX_EXPORT_RECORDS } from './export-formats';
+import {
+  isFieldEncryptionEnabled,
+  loadTierKeyringsFromEnv,
+  sealRecord,
+  unsealRecord,
+  type TierKeyrings,
+} from './field-encryption';
+import { loadKeyringFromEnv, type Keyring } from './keyring';
+import {
+  assertValid,
+  getRecordEventLog,
+  getRecordRepository,
+  matchesRecordQuery,
+  maskedFieldsFor,
+  maskRecord,
+  MAX_PAGE_SIZE,
+  SchemaValidationError,
+  toSearchParams,
+  validateEncryptedRecordPage,
+  validateRecordItem,
+  validateRecordUpdateEvent,
+  validateSealedRecord,
+  type EncryptedRecordPage,
+  type MaskableField,
+  type RecordChange,
+  type RecordChangeEvent,
+  type RecordItem,
+  type RecordPage,
+  type RecordQuery,
+  type RecordUpdate,
+  type RecordUpdateEvent,
+  type RecordView,
+  type RecordViewPage,
+  type SealedRecord,
+  type ViewerRecordUpdate,
+} from './records';
+import { createEventStream, createServerSentEventParser, SSE_CONTENT_TYPE } from './sse';
+import { createDecryptStream, createEncryptStream, STREAM_CONTENT_TYPE } from './stream-encryption';
+
+// Server-only data layer for the records viewer. Both /api/encrypted-data and
+// page.tsx call it directly; the page still receives the encrypted envelope
+// and decrypts it, so the encryption contract is exercised on every render.
+// Set RECORDS_API_URL to fetch the envelope from an API on another origin
+// instead (both sides then need the same keyring).
+
+export interface RecordSession {
+  user: User;
+  token: string; // Session cookie value, forwarded in remote mode
+}
+
+// Nonces of payloads already accepted by this server process
+const replayGuard = createMemoryReplayGuard();
+
+// One page of records the user may see, with sensitive fields sealed per
+// tier. Callers audit it with auditReleasedPage once it has been validated
+// and encrypted, so a failure in either step isn't logged as a success too.
+async function loadReleasablePage(
+  query: RecordQuery,
+  user: User,
+  tierKeyrings: TierKeyrings
+): Promise<Omit<RecordPage, 'records'> & { records: SealedRecord[] }> {
+  // Records come from the store selected by RECORDS_STORE; records above the
+  // user's clearance are redacted or omitted per RECORDS_ABOVE_CLEARANCE
+  const page = await getRecordRepository().query(scopeQuery(query, user, loadAccessPolicyFromEnv()));
+  const clearedRecords: ClearedRecord[] = applyClearance(page.records, user);
+
+  // With tier keys configured, sensitive fields are additionally sealed with
+  // the key for each record's sensitivity level
+  const records = isFieldEncryptionEnabled(tierKeyrings)
+    ? clearedRecords.map(record => (record.redacted ? record : sealRecord(record, tierKeyrings)))
+    : clearedRecords;
+
+  return { ...page, records };
+}
+
+async function auditReleasedPage(user: User, action: string, records: SealedRecord[]): Promise<void> {
+  await recordAuditEvent({
+    actor: user.username,
+    action,
+    recordIds: records.filter(record => !record.redacted).map(record => record.id),
+    outcome: 'success',
+  });
+}
+
+// Producer side: one page of records the user may see, with sensitive fields
+// sealed per tier, encrypted for the viewer with the live updates feed
+// position it was read at. Audited as records.list.
+export async function loadEncryptedRecordPage(query: RecordQuery, user: User, keyring: Keyring): Promise<string> {
+  // The feed position is read first, so live updates started from it replay
+  // any change made while the store is read
+  const eventId = getRecordEventLog().lastEventId();
+  const page = await loadReleasablePage(query, user, loadTierKeyringsFromEnv());
+
+  // Validate before encrypting, so a bad record in the store fails here
+  // rather than in every consumer
+  const payload = assertValid(
+    validateEncryptedRecordPage({ timestamp: new Date().toISOString(), ...page, eventId }),
+    'Record page'
+  );
+
+  // Claims bind the payload to this route and the viewer, and expire it quickly
+  const encryptedData = await encryptPayload(payload, keyring, { route: ENCRYPTED_DATA_ROUTE, audience: RECORDS_VIEWER_AUDIENCE });
+  await auditReleasedPage(user, 'records.list', page.records);
+  return encryptedData;
+}
+
+function parseJson(text: string, what: string = 'Decrypted record page'): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new SchemaValidationError(what, ['Payload is not valid JSON']);
+  }
+}
+
+// Consumer side: rejects payloads issued for another route or audience, expired
+// or replayed ones, opens the field seals this server holds tier keys for and
+// enforces clearance again. Audited as records.decrypt.
+export async function decryptRecordPage(encryptedData: string, user: User, keyring: Keyring): Promise<RecordViewPage> {
+  const decryptedJson = await decryptPayload(encryptedData, keyring, {
+    expect: { route: ENCRYPTED_DATA_ROUTE, audience: RECORDS_VIEWER_AUDIENCE, replayGuard },
+  });
+  const payload: EncryptedRecordPage = assertValid(validateEncryptedRecordPage(parseJson(decryptedJson)), 'Decrypted record page');
+
+  const tierKeyrings = loadTierKeyringsFromEnv();
+  const records = applyClearance(
+    payload.records.map(record => unsealRecord(record, tierKeyrings)),
+    user
+  );
+
+  await recordAuditEvent({
+    actor: user.username,
+    action: 'records.decrypt',
+    recordIds: records.filter(record => !record.redacted).map(record => record.id),
+    outcome: 'success',
+  });
+  return { ...payload, records };
+}
+
+// Producer side for a single record, as served by GET /api/records/[id]:
+// 404 if it doesn't exist, 403 if the user isn't cleared for it. Sealed per
+// tier as in loadEncryptedRecordPage. Audited as records.read.
+export async function loadEncryptedRecord(id: string, user: User, keyring: Keyring): Promise<string> {
+  const stored = await getRecordRepository().get(id);
+  if (!stored) {
+    throw new ApiError(404, 'NOT_FOUND', `Record "${id}" not found`);
+  }
+  requireClearance(user, stored.sensitivity);
+
+  const tierKeyrings = loadTierKeyringsFromEnv();
+  const record = assertValid(
+    validateSealedRecord(isFieldEncryptionEnabled(tierKeyrings) ? sealRecord(stored, tierKeyrings) : stored),
+    `Record "${id}"`
+  );
+
+  const encryptedData = await encryptPayload({ record }, keyring, { route: RECORDS_API_ROUTE, audience: RECORDS_API_AUDIENCE });
+  await recordAuditEvent({ actor: user.username, action: 'records.read', recordIds: [id], outcome: 'success' });
+  return encryptedData;
+}
+
+// Consumer side for a single record: checks the claims, the schema and that
+// the envelope holds the record asked for, opens the field seals this server
+// holds tier keys for and enforces clearance again. Audited as records.decrypt.
+export async function decryptRecord(id: string, encryptedData: string, user: User, keyring: Keyring): Promise<RecordView> {
+  const decryptedJson = await decryptPayload(encryptedData, keyring, {
+    expect: { route: RECORDS_API_ROUTE, audience: RECORDS_API_AUDIENCE, replayGuard },
+  });
+  const payload = parseJson(decryptedJson, 'Decrypted record') as { record?: unknown } | null;
+  const sealedRecord = assertValid(validateSealedRecord(payload?.record), 'Decrypted record');
+  if (sealedRecord.id !== id) {
+    throw new SchemaValidationError('Decrypted record', [`Expected record "${id}", received "${sealedRecord.id}"`]);
+  }
+  requireClearance(user, sealedRecord.sensitivity);
+  const record = unsealRecord(sealedRecord, loadTierKeyringsFromEnv());
+
+  await recordAuditEvent({ actor: user.username, action: 'records.decrypt', recordIds: [id], outcome: 'success' });
+  return record;
+}
+
+// Every record matching the query that the user is cleared for, read from the
+// store for getExportRecords. Records above their clearance are left out
+// rather than redacted whatever RECORDS_ABOVE_CLEARANCE says.
+async function loadExportRecords(query: RecordQuery, user: User): Promise<RecordItem[]> {
+  const scoped = scopeQuery(query, user, 'omit');
+  const records: RecordItem[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await getRecordRepository().query({ ...scoped, cursor, limit: MAX_PAGE_SIZE });
+    if (page.total > MAX_EXPORT_RECORDS) {
+      throw new ApiError(422, 'VALIDATION_FAILED', `Exports are limited to ${MAX_EXPORT_RECORDS} records`, [
+        `${page.total} records match; narrow the filters or use /api/encrypted-data/stream`,
+      ]);
+    }
+    records.push(...page.records.map(record => assertValid(validateRecordItem(record), `Record "${record.id}"`)));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  return records;
+}
+
+// Producer side of the streaming export: every record matching the query that
+// the user may see, one JSON record per line, sealed as in
+// loadEncryptedRecordPage and encrypted chunk by chunk. The store is read a
+// page at a time as the consumer pulls, and each page is audited as
+// records.stream before it is released. A failure mid-stream errors the
+// stream, so the consumer sees it as truncated.
+export function streamEncryptedRecords(query: RecordQuery, user: User, keyring: Keyring): ReadableStream<Uint8Array> {
+  const tierKeyrings = loadTierKeyringsFromEnv();
+  const encoder = new TextEncoder();
+  let cursor = query.cursor;
+
+  const lines = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const page = await loadReleasablePage({ ...query, cursor, limit: MAX_PAGE_SIZE }, user, tierKeyrings);
+        const text = page.records
+          .map(record => `${JSON.stringify(assertValid(validateSealedRecord(record), `Record "${record.id}"`))}\n`)
+          .join('');
+        await auditReleasedPage(user, 'records.stream', page.records);
+        controller.enqueue(encoder.encode(text));
+
+        cursor = page.nextCursor ?? undefined;
+        if (!cursor) {
+          controller.close();
+        }
+      } catch (error) {
+        await recordAuditFailure({ actor: user.username, action: 'records.stream', recordIds: [] }, error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const claims = issueClaims({ route: ENCRYPTED_DATA_STREAM_ROUTE, audience: RECORDS_VIEWER_AUDIENCE, ttlSeconds: ENCRYPTED_DATA_TTL_SECONDS });
+  return lines.pipeThrough(createEncryptStream(keyring, { claims }));
+}
+
+// Consumer side of the streaming export: verifies the stream's claims, then
+// yields records as their chunks arrive, unsealed and cleared as in
+// decryptRecordPage. Each batch is audited as records.decrypt before it is
+// yielded. Throws TruncatedStreamError if the stream is cut short.
+export async function* decryptRecordStream(
+  encrypted: ReadableStream<Uint8Array>,
+  user: User,
+  keyring: Keyring
+): AsyncGenerator<RecordView> {
+  const tierKeyrings = loadTierKeyringsFromEnv();
+  const decoder = new TextDecoder();
+  const plaintext = encrypted.pipeThrough(
+    createDecryptStream(keyring, {
+      expect: { route: ENCRYPTED_DATA_STREAM_ROUTE, audience: RECORDS_VIEWER_AUDIENCE, replayGuard },
+    })
+  );
+
+  const reader = plaintext.getReader();
+  let pending = '';
+  try {
+    for (let next = await reader.read(); !next.done; next = await reader.read()) {
+      pending += decoder.decode(next.value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop()!;
+
+      const sealedRecords = lines.map(line => assertValid(validateSealedRecord(parseJson(line, 'Streamed record')), 'Streamed record'));
+      const records = applyClearance(
+        sealedRecords.map(record => unsealRecord(record, tierKeyrings)),
+        user
+      );
+
+      if (records.length > 0) {
+        await recordAuditEvent({
+          actor: user.username,
+          action: 'records.decrypt',
+          recordIds: records.filter(record => !record.redacted).map(record => record.id),
+          outcome: 'success',
+        });
+      }
+      yield* records;
+    }
+  } finally {
+    // Stops the upstream if the caller gave up early
+    await reader.cancel().catch(() => undefined);
+  }
+
+  if (pending + decoder.decode()) {
+    throw new SchemaValidationError('Decrypted record stream', ['Stream does not end with a newline']);
+  }
+}
+
+// Remote mode: fetches an envelope from RECORDS_API_URL, forwarding the
+// session cookie so the remote API applies the same clearance. Not-found and
+// forbidden answers are rethrown as the ApiError the in-process path raises.
+async function fetchEncryptedPayload(url: URL, session: RecordSession): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      cache: 'no-store',
+      headers: {
+        Accept: 'application/json',
+        Cookie: `${SESSION_COOKIE}=${encodeURIComponent(session.token)}`,
+      },
+    });
+  } catch (error) {
+    throw new UpstreamFetchError(`Failed to reach ${url.origin}`, undefined, { cause: error });
+  }
+  if (response.status === 403 || response.status === 404) {
+    const body = await response.json().catch(() => null);
+    const message = typeof body?.error === 'string' ? body.error : `${url.origin} answered ${response.status}`;
+    throw new ApiError(response.status, response.status === 404 ? 'NOT_FOUND' : 'FORBIDDEN', message);
+  }
+  if (!response.ok) {
+    throw new UpstreamFetchError(`Failed to fetch encrypted data from ${url.origin}: ${response.status}`, response.status);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (typeof body?.encryptedData !== 'string' || !body.encryptedData) {
+    throw new UpstreamFetchError(`No encrypted data received from ${url.origin}`, response.status);
+  }
+  return body.encryptedData;
+}
+
+// Remote mode for exports: opens the encrypted record stream on
+// RECORDS_API_URL, forwarding the session cookie
+async function fetchRecordStream(url: URL, session: RecordSession): Promise<ReadableStream<Uint8Array>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      cache: 'no-store',
+      headers: {
+        Accept: STREAM_CONTENT_TYPE,
+        Cookie: `${SESSION_COOKIE}=${encodeURIComponent(session.token)}`,
+      },
+    });
+  } catch (error) {
+    throw new UpstreamFetchError(`Failed to reach ${url.origin}`, undefined, { cause: error });
+  }
+  if (!response.ok || !response.body) {
+    throw new UpstreamFetchError(`Failed to stream encrypted data from ${url.origin}: ${response.status}`, response.status);
+  }
+  return response.body;
+}
+
+// Appends the route to the base URL's path, so a base like
+// https://host/api/v1 keeps its prefix
+function remoteUrl(baseUrl: string, path: string, params?: URLSearchParams): URL {
+  const url = new URL(baseUrl);
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}${path}`;
+  url.search = params?.toString() ?? '';
+  return url;
+}
+
+function requireViewerKeyring(env: Record<string, string | undefined>): Keyring {
+  const keyring = loadKeyringFromEnv(env);
+  if (!keyring) {
+    throw new MissingKeyError('ENCRYPTION_KEY or ENCRYPTION_KEYS environment variable is not set');
+  }
+  return keyring;
+}
+
+// Loads and decrypts one page for the signed-in user, in-process by default
+// or from RECORDS_API_URL when set
+export async function getRecordPage(
+  query: RecordQuery,
+  session: RecordSession,
+  env: Record<string, string | undefined> = process.env
+): Promise<RecordViewPage> {
+  const keyring = requireViewerKeyring(env);
+
+  try {
+    const encryptedData = env.RECORDS_API_URL
+      ? await fetchEncryptedPayload(remoteUrl(env.RECORDS_API_URL, ENCRYPTED_DATA_ROUTE, toSearchParams(query)), session)
+      : await loadEncryptedRecordPage(query, session.user, keyring);
+    return await decryptRecordPage(encryptedData, session.user, keyring);
+  } catch (error) {
+    await recordAuditFailure({ actor: session.user.username, action: 'records.decrypt', recordIds: [] }, error);
+    throw error;
+  }
+}
+
+// Loads and decrypts a single record for the detail page, in-process by
+// default or from RECORDS_API_URL when set. Throws ApiError 404 or 403 when
+// the record doesn't exist or is above the user's clearance.
+export async function getRecord(
+  id: string,
+  session: RecordSession,
+  env: Record<string, string | undefined> = process.env
+): Promise<RecordView> {
+  const keyring = requireViewerKeyring(env);
+
+  try {
+    const encryptedData = env.RECORDS_API_URL
+      ? await fetchEncryptedPayload(remoteUrl(env.RECORDS_API_URL, `${RECORDS_API_ROUTE}/${encodeURIComponent(id)}`), session)
+      : await loadEncryptedRecord(id, session.user, keyring);
+    return await decryptRecord(id, encryptedData, session.user, keyring);
+  } catch (error) {
+    await recordAuditFailure({ actor: session.user.username, action: 'records.decrypt', recordIds: [id] }, error);
+    throw error;
+  }
+}
+
+// Every record matching the query that the user is cleared for, for
+// /api/export: read from the store in-process by default, or decrypted from
+// RECORDS_API_URL's /api/encrypted-data/stream with decryptRecordStream when
+// set. Redacted records are above the user's clearance and left out, as the
+// store query leaves them out in-process. Records with fields sealed under a
+// tier key this server doesn't hold fail the export (422) rather than being
+// dropped or exported empty. The caller audits the export.
+export async function getExportRecords(
+  query: RecordQuery,
+  session: RecordSession,
+  env: Record<string, string | undefined> = process.env
+): Promise<RecordItem[]> {
+  if (!env.RECORDS_API_URL) {
+    return loadExportRecords(query, session.user);
+  }
+
+  const keyring = requireViewerKeyring(env);
+  try {
+    const url = remoteUrl(env.RECORDS_API_URL, ENCRYPTED_DATA_STREAM_ROUTE, toSearchParams({ ...query, cursor: undefined }));
+    const records: RecordItem[] = [];
+    const sealedIds: string[] = [];
+    for await (const record of decryptRecordStream(await fetchRecordStream(url, session), session.user, keyring)) {
+      if (record.redacted) {
+        continue;
+      }
+      if (record.sealedFields) {
+        sealedIds.push(record.id);
+        continue;
+      }
+      if (records.length === MAX_EXPORT_RECORDS) {
+        throw new ApiError(422, 'VALIDATION_FAILED', `Exports are limited to ${MAX_EXPORT_RECORDS} records`, [
+          'More records match; narrow the filters',
+        ]);
+      }
+      records.push(record);
+    }
+    if (sealedIds.length > 0) {
+      throw new ApiError(422, 'VALIDATION_FAILED', 'Sealed records', [
+        `Records ${sealedIds.join(', ')} have fields sealed with a tier key this server doesn't hold; filter them out to export the rest`,
+      ]);
+    }
+    return records;
+  } catch (error) {
+    await recordAuditFailure({ actor: session.user.username, action: 'records.decrypt', recordIds: [] }, error);
+    throw error;
+  }
+}
+
+// Reveals one masked field of a record, for the viewer's Reveal control. The
+// record goes through the same encrypted exchange as the detail page, which
+// audits its own failures; only fields its sensitivity level masks are
+// returned. Audited as records.reveal with the field name.
+export async function revealRecordField(
+  id: string,
+  field: MaskableField,
+  session: RecordSession,
+  env: Record<string, string | undefined> = process.env
+): Promise<string> {
+  const record = await getRecord(id, session, env);
+  const audit = { actor: session.user.username, action: 'records.reveal' as const, recordIds: [id] };
+
+  if (!maskedFieldsFor(record).includes(field)) {
+    const error = new ApiError(422, 'VALIDATION_FAILED', `Field "${field}" of record "${id}" is not masked`);
+    await recordAuditFailure(audit, error);
+    throw error;
+  }
+
+  await recordAuditEvent({ ...audit, outcome: 'success', detail: field });
+  return record[field];
+}
+
+// How long the browser waits before reconnecting to /api/updates
+export const UPDATES_RETRY_MS = 3000;
+
+// What one user may learn of a change, or null if nothing. Records above
+// their clearance are redacted or left out per RECORDS_ABOVE_CLEARANCE; under
+// omit, a record moved above it looks deleted to them.
+function releasableUpdate(
+  change: RecordChange,
+  user: User,
+  policy: AccessPolicy,
+  tierKeyrings: TierKeyrings
+): RecordUpdate<SealedRecord> | null {
+  const { record } = change;
+  const cleared = canAccess(user, record.sensitivity);
+
+  if (change.type === 'deleted') {
+    return cleared || policy === 'redact' ? { type: 'deleted', id: record.id } : null;
+  }
+  if (cleared) {
+    return { type: change.type, record: isFieldEncryptionEnabled(tierKeyrings) ? sealRecord(record, tierKeyrings) : record };
+  }
+  if (policy === 'redact') {
+    return { type: change.type, record: redactRecord(record) };
+  }
+  return change.type === 'updated' && canAccess(user, change.previous.sensitivity) ? { type: 'deleted', id: record.id } : null;
+}
+
+// Producer side of the live updates feed: an event stream with a `change`
+// event for every record change the user may learn of, each encrypted for
+// the viewer and sealed as in loadEncryptedRecordPage. With lastEventId,
+// missed changes are replayed first; a `reset` event says they can't be and
+// the consumer should reload. Each change is audited as records.watch
+// before it is sent.
+export function streamEncryptedRecordEvents(user: User, keyring: Keyring, lastEventId: string | null = null): ReadableStream<Uint8Array> {
+  const tierKeyrings = loadTierKeyringsFromEnv();
+  const policy = loadAccessPolicyFromEnv();
+  const eventLog = getRecordEventLog();
+
+  return createEventStream((send, close) => {
+    let stopped = false;
+    // Changes are sent one at a time and in order, each after its audit entry
+    let queue = Promise.resolve();
+
+    const deliver = (event: RecordChangeEvent) => {
+      queue = queue.then(async () => {
+        const update = stopped ? null : releasableUpdate(event.change, user, policy, tierKeyrings);
+        if (!update) {
+          return;
+        }
+        try {
+          const payload: RecordUpdateEvent<SealedRecord> = { id: event.id, timestamp: event.timestamp, update };
+          const recordIds = canAccess(user, event.change.record.sensitivity) ? [event.change.record.id] : [];
+          const encryptedData = await encryptPayload(payload, keyring, { route: ENCRYPTED_DATA_EVENTS_ROUTE, audience: RECORDS_VIEWER_AUDIENCE });
+          await recordAuditEvent({ actor: user.username, action: 'records.watch', recordIds, outcome: 'success' });
+          send({ id: event.id, event: 'change', data: encryptedData });
+        } catch (error) {
+          stopped = true;
+          await recordAuditFailure({ actor: user.username, action: 'records.watch', recordIds: [] }, error);
+          close(error);
+        }
+      });
+    };
+
+    // Replaying and subscribing in the same tick means no change falls between them
+    const missed = lastEventId ? eventLog.since(lastEventId) : [];
+    if (missed) {
+      missed.forEach(deliver);
+    } else {
+      send({ event: 'reset', data: 'Missed updates are no longer available' });
+    }
+    const unsubscribe = eventLog.subscribe(deliver);
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+    };
+  });
+}
+
+// Consumer side of the live updates feed, for one event: checks the claims,
+// the schema and that the payload belongs to the event ID it arrived under,
+// opens the field seals this server holds tier keys for and enforces
+// clearance again. Audited as records.decrypt.
+export async function decryptRecordUpdate(
+  eventId: string | undefined,
+  encryptedData: string,
+  user: User,
+  keyring: Keyring
+): Promise<RecordUpdateEvent> {
+  const decryptedJson = await decryptPayload(encryptedData, keyring, {
+    expect: { route: ENCRYPTED_DATA_EVENTS_ROUTE, audience: RECORDS_VIEWER_AUDIENCE, replayGuard },
+  });
+  const event = assertValid(validateRecordUpdateEvent(parseJson(decryptedJson, 'Decrypted update')), 'Decrypted update');
+  if (event.id !== eventId) {
+    throw new SchemaValidationError('Decrypted update', [`Expected event "${eventId}", received "${event.id}"`]);
+  }
+
+  const { update } = event;
+  if (update.type === 'deleted') {
+    await recordAuditEvent({ actor: user.username, action: 'records.decrypt', recordIds: [update.id], outcome: 'success' });
+    return { ...event, update };
+  }
+
+  const [record] = applyClearance([unsealRecord(update.record, loadTierKeyringsFromEnv())], user);
+  await recordAuditEvent({
+    actor: user.username,
+    action: 'records.decrypt',
+    recordIds: record.redacted ? [] : [record.id],
+    outcome: 'success',
+  });
+  return { ...event, update: { type: update.type, record } };
+}
+
+// Remote mode for the live updates feed: opens the event stream on
+// RECORDS_API_URL, forwarding the session cookie and the last event ID
+async function fetchEventStream(url: URL, session: RecordSession, lastEventId: string | null): Promise<ReadableStream<Uint8Array>> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      cache: 'no-store',
+      headers: {
+        Accept: SSE_CONTENT_TYPE,
+        Cookie: `${SESSION_COOKIE}=${encodeURIComponent(session.token)}`,
+        ...(lastEventId && { 'Last-Event-ID': lastEventId }),
+      },
+    });
+  } catch (error) {
+    throw new UpstreamFetchError(`Failed to reach ${url.origin}`, undefined, { cause: error });
+  }
+  if (!response.ok || !response.body) {
+    throw new UpstreamFetchError(`Failed to open live updates from ${url.origin}: ${response.status}`, response.status);
+  }
+  return response.body;
+}
+
+// Checks an update against the viewer's filters, then masks fields as
+// page.tsx does before it is sent to the browser
+function toViewerUpdate(event: RecordUpdateEvent, query: RecordQuery): ViewerRecordUpdate {
+  const { update } = event;
+  if (update.type === 'deleted') {
+    return { ...event, matches: false };
+  }
+  return {
+    ...event,
+    update: { type: update.type, record: maskRecord(update.record) },
+    matches: matchesRecordQuery(update.record, query),
+  };
+}
+
+// Live updates for the signed-in user as an event stream the browser can
+// read directly: `change` events carry a ViewerRecordUpdate as JSON, with the
+// feed's event ID, and `reset` events are passed on. Whether a record matches
+// is checked against the viewer's query scoped as for a page, so text search
+// never matches redacted records. Changes come from the
+// encrypted feed, in-process by default or from RECORDS_API_URL when set, and
+// are decrypted here. A failure ends the stream; the browser reconnects with
+// the last event ID it saw and catches up.
+export async function relayRecordEvents(
+  session: RecordSession,
+  query: RecordQuery,
+  lastEventId: string | null,
+  env: Record<string, string | undefined> = process.env
+): Promise<ReadableStream<Uint8Array>> {
+  const keyring = requireViewerKeyring(env);
+  const scoped = scopeQuery(query, session.user, loadAccessPolicyFromEnv());
+  const upstream = env.RECORDS_API_URL
+    ? await fetchEventStream(remoteUrl(env.RECORDS_API_URL, ENCRYPTED_DATA_EVENTS_ROUTE), session, lastEventId)
+    : streamEncryptedRecordEvents(session.user, keyring, lastEventId);
+  const reader = upstream.pipeThrough(createServerSentEventParser()).getReader();
+
+  return createEventStream((send, close) => {
+    let stopped = false;
+    send({ retry: UPDATES_RETRY_MS });
+
+    (async () => {
+      try {
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+          const { id, event, data } = next.value;
+          if (event === 'change') {
+            const update = await decryptRecordUpdate(id, data, session.user, keyring);
+            send({ id, event: 'change', data: JSON.stringify(toViewerUpdate(update, scoped)) });
+          } else if (event === 'reset') {
+            send({ event: 'reset', data });
+          }
+        }
+        close();
+      } catch (error) {
+        if (!stopped) {
+          await recordAuditFailure({ actor: session.user.username, action: 'records.decrypt', recordIds: [] }, error);
+          close(error);
+        }
+      }
+    })();
+
+    // Stops the upstream when the browser goes away
+    return () => {
+      stopped = true;
+      reader.cancel().catch(() => undefined);
+    };
+  });
+}
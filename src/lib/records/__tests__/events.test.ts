@@ -0,0 +1,48 @@
+import { createMemoryRecordEventLog } from '../events';
+import type { RecordItem } from '../schema';
+
+const record: RecordItem = { id: 'r1', title: 'Budget', type: 'Report', sensitivity: 'Private', date: '2024-01-01' };
+
+describe('record event log', () => {
+  it('should number events and notify subscribers until they unsubscribe', () => {
+    const log = createMemoryRecordEventLog();
+    const listener = jest.fn();
+    const unsubscribe = log.subscribe(listener);
+
+    const first = log.publish({ type: 'created', record });
+    unsubscribe();
+    const second = log.publish({ type: 'deleted', record });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(first);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('should replay events after a given ID', () => {
+    const log = createMemoryRecordEventLog();
+    const [first, second, third] = [1, 2, 3].map(() => log.publish({ type: 'created', record }));
+
+    expect(log.since(first.id)).toEqual([second, third]);
+    expect(log.since(third.id)).toEqual([]);
+  });
+
+  it('should replay from the latest event ID, even before any event', () => {
+    const log = createMemoryRecordEventLog();
+    const start = log.lastEventId();
+    const first = log.publish({ type: 'created', record });
+
+    expect(log.since(start)).toEqual([first]);
+    expect(log.lastEventId()).toBe(first.id);
+    expect(log.since(log.lastEventId())).toEqual([]);
+  });
+
+  it('should refuse to replay from IDs it no longer keeps or never issued', () => {
+    const log = createMemoryRecordEventLog(2);
+    const [first, second] = [1, 2, 3, 4].map(() => log.publish({ type: 'created', record }));
+
+    expect(log.since(first.id)).toBeNull();
+    expect(log.since(second.id)).toHaveLength(2);
+    expect(log.since(createMemoryRecordEventLog().publish({ type: 'created', record }).id)).toBeNull();
+    expect(log.since('nonsense')).toBeNull();
+  });
+});
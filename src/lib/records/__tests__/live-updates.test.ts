@@ -0,0 +1,58 @@
+import { applyViewerUpdate, type LivePage } from '../live-updates';
+import { DEFAULT_RECORD_QUERY } from '../query';
+import type { RecordView, ViewerRecordUpdate } from '../schema';
+
+function record(id: string, date: string): RecordView {
+  return { id, title: `Record ${id}`, type: 'Record', sensitivity: 'Private', date };
+}
+
+function change(type: 'created' | 'updated', item: RecordView, matches = true): ViewerRecordUpdate {
+  return { id: 'e-1', timestamp: '2024-05-01T00:00:00.000Z', update: { type, record: item }, matches };
+}
+
+describe('applyViewerUpdate', () => {
+  // Newest first, as the default query sorts
+  const page: LivePage = { records: [record('c', '2024-03-03'), record('a', '2024-03-01')], total: 2 };
+  const query = DEFAULT_RECORD_QUERY;
+
+  it('should insert new matches in sort order and count them', () => {
+    const next = applyViewerUpdate(page, change('created', record('b', '2024-03-02')), query);
+    expect(next.records.map(item => item.id)).toEqual(['c', 'b', 'a']);
+    expect(next.total).toBe(3);
+  });
+
+  it('should replace updated records in place', () => {
+    const renamed = { ...record('a', '2024-03-01'), title: 'Renamed' };
+    const next = applyViewerUpdate(page, change('updated', renamed), query);
+    expect(next.records[1]).toBe(renamed);
+    expect(next.total).toBe(2);
+  });
+
+  it('should drop records that were deleted or no longer match', () => {
+    const deleted: ViewerRecordUpdate = { id: 'e-2', timestamp: '2024-05-01T00:00:00.000Z', update: { type: 'deleted', id: 'c' }, matches: false };
+    expect(applyViewerUpdate(page, deleted, query)).toEqual({ records: [page.records[1]], total: 1 });
+    expect(applyViewerUpdate(page, change('updated', record('a', '2024-03-01'), false), query)).toEqual({
+      records: [page.records[0]],
+      total: 1,
+    });
+  });
+
+  it('should leave the page alone for changes it does not show', () => {
+    expect(applyViewerUpdate(page, change('created', record('x', '2024-01-01'), false), query)).toBe(page);
+    const deleted: ViewerRecordUpdate = { id: 'e-2', timestamp: '2024-05-01T00:00:00.000Z', update: { type: 'deleted', id: 'x' }, matches: false };
+    expect(applyViewerUpdate(page, deleted, query)).toBe(page);
+  });
+
+  it('should only count matches that fall on another page', () => {
+    const full = applyViewerUpdate(page, change('created', record('z', '2024-01-01')), { ...query, limit: 2 });
+    expect(full).toEqual({ records: page.records, total: 3 });
+
+    const later = applyViewerUpdate(page, change('created', record('n', '2024-12-01')), { ...query, cursor: 'o2' });
+    expect(later).toEqual({ records: page.records, total: 3 });
+  });
+
+  it('should keep a full page at its size', () => {
+    const next = applyViewerUpdate(page, change('created', record('n', '2024-12-01')), { ...query, limit: 2 });
+    expect(next.records.map(item => item.id)).toEqual(['n', 'c']);
+  });
+});
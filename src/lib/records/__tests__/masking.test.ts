@@ -0,0 +1,27 @@
+import { maskedFieldsFor, maskRecord } from '../masking';
+import type { RecordView } from '../schema';
+
+describe('record masking', () => {
+  const confidential: RecordView = { id: 'c1', title: 'Budget', type: 'Report', sensitivity: 'Confidential', date: '2024-01-01' };
+  const privateRecord: RecordView = { ...confidential, id: 'p1', sensitivity: 'Private' };
+
+  it('should mask the fields configured for the sensitivity level', () => {
+    expect(maskedFieldsFor(confidential)).toEqual(['title']);
+    expect(maskedFieldsFor(privateRecord)).toEqual([]);
+    expect(maskedFieldsFor({ ...confidential, sensitivity: 'Unknown' })).toEqual([]);
+  });
+
+  it('should have nothing to reveal for redacted records or sealed fields', () => {
+    expect(maskedFieldsFor({ ...confidential, title: '', redacted: true })).toEqual([]);
+    expect(maskedFieldsFor({ ...confidential, title: '', sealedFields: ['title'] })).toEqual([]);
+  });
+
+  it('should empty masked fields without changing the original', () => {
+    expect(maskRecord(confidential)).toEqual({ ...confidential, title: '', maskedFields: ['title'] });
+    expect(confidential.title).toBe('Budget');
+  });
+
+  it('should return records without masked fields unchanged', () => {
+    expect(maskRecord(privateRecord)).toBe(privateRecord);
+  });
+});
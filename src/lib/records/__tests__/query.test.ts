@@ -0,0 +1,140 @@
+/**
+ * @jest-environment node
+ */
+import {
+  applyRecordQuery,
+  DEFAULT_RECORD_QUERY,
+  parseRecordQuery,
+  toSearchParams,
+  type RecordQuery,
+} from '../query';
+import { createMemoryRecordRepository } from '../memory';
+import { createSqliteRecordRepository } from '../sqlite';
+import { sampleRecords } from '../sample-data';
+import type { RecordItem } from '../types';
+
+function parse(query: string) {
+  return parseRecordQuery(new URLSearchParams(query));
+}
+
+function ids(records: RecordItem[]) {
+  return records.map(record => record.id);
+}
+
+describe('Record queries', () => {
+  describe('parseRecordQuery', () => {
+    it('should default to newest first', () => {
+      expect(parse('')).toEqual({ ok: true, value: DEFAULT_RECORD_QUERY });
+    });
+
+    it('should read every parameter', () => {
+      expect(parse('q=survey&type=Survey,Report&sensitivity=Private&sensitivity=Confidential&from=2024-01-01&to=2024-01-31&sort=type&order=desc&cursor=o14&limit=5'))
+        .toEqual({
+          ok: true,
+          value: {
+            q: 'survey',
+            type: ['Survey', 'Report'],
+            sensitivity: ['Private', 'Confidential'],
+            from: '2024-01-01',
+            to: '2024-01-31',
+            sort: 'type',
+            order: 'desc',
+            cursor: 'o14',
+            limit: 5,
+          },
+        });
+    });
+
+    it('should sort alphabetical fields ascending by default', () => {
+      const result = parse('sort=sensitivity');
+      expect(result.ok && result.value.order).toBe('asc');
+    });
+
+    it('should report every invalid parameter', () => {
+      const result = parse('sort=id&order=up&limit=0&from=yesterday&sensitivity=Public&cursor=abc');
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors).toHaveLength(6);
+    });
+
+    it('should reject type filters outside the taxonomy', () => {
+      expect(parse('type=Survey,Memo')).toEqual({ ok: false, errors: ['type must be one of Survey, Record, Report'] });
+    });
+
+    it('should reject a date range that ends before it starts', () => {
+      expect(parse('from=2024-02-01&to=2024-01-31')).toEqual({ ok: false, errors: ['from must not be after to'] });
+    });
+  });
+
+  describe('toSearchParams', () => {
+    it('should round-trip through parseRecordQuery and omit defaults', () => {
+      const query: RecordQuery = { ...DEFAULT_RECORD_QUERY, q: 'record', sensitivity: ['Private'], sort: 'title', order: 'desc' };
+      const params = toSearchParams(query);
+
+      expect(params.toString()).toBe('q=record&sensitivity=Private&sort=title&order=desc');
+      expect(parseRecordQuery(params)).toEqual({ ok: true, value: query });
+    });
+
+    it('should produce an empty string for the default query', () => {
+      expect(toSearchParams(DEFAULT_RECORD_QUERY).toString()).toBe('');
+    });
+  });
+
+  describe('applyRecordQuery', () => {
+    it('should match the search text case-insensitively', () => {
+      const page = applyRecordQuery(sampleRecords, { ...DEFAULT_RECORD_QUERY, q: 'MEDICAL' });
+      expect(ids(page.records)).toEqual(['7', '5', '3']);
+    });
+
+    it('should sort sensitivity by rank rather than alphabetically', () => {
+      const page = applyRecordQuery(sampleRecords, { ...DEFAULT_RECORD_QUERY, sort: 'sensitivity', order: 'asc' });
+      const levels = page.records.map(record => record.sensitivity);
+
+      expect([...new Set(levels)]).toEqual(['Private', 'Confidential', 'Highly Confidential']);
+    });
+
+    it('should filter by date range inclusively', () => {
+      const page = applyRecordQuery(sampleRecords, { ...DEFAULT_RECORD_QUERY, from: '2024-01-16', to: '2024-01-18', order: 'asc' });
+      expect(ids(page.records)).toEqual(['2', '3', '4']);
+    });
+
+    it('should walk through pages with the cursor', () => {
+      const query = { ...DEFAULT_RECORD_QUERY, limit: 3 };
+      const seen: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const page = applyRecordQuery(sampleRecords, { ...query, cursor });
+        expect(page.total).toBe(8);
+        seen.push(...ids(page.records));
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(seen).toEqual(['8', '7', '6', '5', '4', '3', '2', '1']);
+    });
+  });
+
+  describe('SQLite parity', () => {
+    const queries: [string, string][] = [
+      ['default', ''],
+      ['search', 'q=survey'],
+      ['wildcards are literal', 'q=%25'],
+      ['facets', 'type=Record&sensitivity=Confidential,Highly Confidential'],
+      ['sorted by sensitivity', 'sort=sensitivity'],
+      ['most sensitive first', 'sort=sensitivity&order=desc&limit=4'],
+      ['second page', 'sort=type&limit=3&cursor=o3'],
+    ];
+
+    it.each(queries)('should match the in-memory results (%s)', async (_name, queryString) => {
+      const parsed = parse(queryString);
+      if (!parsed.ok) throw new Error(parsed.errors.join(', '));
+
+      const sqlite = createSqliteRecordRepository(':memory:');
+      for (const record of sampleRecords) {
+        await sqlite.create(record);
+      }
+
+      expect(await sqlite.query(parsed.value)).toEqual(await createMemoryRecordRepository(sampleRecords).query(parsed.value));
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  createJsonFileRecordRepository,
+  createMemoryRecordRepository,
+  createRecordRepositoryFromEnv,
+  createSqliteRecordRepository,
+  RecordExistsError,
+  sampleRecords,
+  type RecordItem,
+  type RecordRepository,
+} from '..';
+
+const fixtures: RecordItem[] = [
+  { id: 'a', title: 'Fixture A', type: 'Survey', sensitivity: 'Private', date: '2024-02-01' },
+  { id: 'b', title: 'Fixture B', type: 'Report', sensitivity: 'Confidential', date: '2024-02-02' },
+];
+
+describe('Record repositories', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'records-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe('memory', () => {
+    it('should list and get records', async () => {
+      const repository = createMemoryRecordRepository(fixtures);
+
+      expect(await repository.list()).toEqual(fixtures);
+      expect(await repository.get('b')).toEqual(fixtures[1]);
+      expect(await repository.get('missing')).toBeNull();
+    });
+
+    it('should not expose its internal objects', async () => {
+      const repository = createMemoryRecordRepository(fixtures);
+      const [first] = await repository.list();
+      first.title = 'Changed';
+
+      expect((await repository.get('a'))?.title).toBe('Fixture A');
+    });
+  });
+
+  describe('json file', () => {
+    it('should read records from the file', async () => {
+      const filePath = path.join(tempDir, 'records.json');
+      writeFileSync(filePath, JSON.stringify(fixtures));
+      const repository = createJsonFileRecordRepository(filePath);
+
+      expect(await repository.list()).toEqual(fixtures);
+      expect(await repository.get('a')).toEqual(fixtures[0]);
+    });
+
+    it('should treat a missing file as an empty store', async () => {
+      const repository = createJsonFileRecordRepository(path.join(tempDir, 'missing.json'));
+      expect(await repository.list()).toEqual([]);
+    });
+
+    it('should reject files that do not hold an array', async () => {
+      const filePath = path.join(tempDir, 'records.json');
+      writeFileSync(filePath, JSON.stringify({ records: fixtures }));
+
+      await expect(createJsonFileRecordRepository(filePath).list()).rejects.toThrow('must contain a JSON array');
+    });
+  });
+
+  describe('sqlite', () => {
+    it('should read records in insertion order', async () => {
+      const filePath = path.join(tempDir, 'nested', 'records.db');
+      const repository = createSqliteRecordRepository(filePath);
+
+      const db = new Database(filePath);
+      const insert = db.prepare('INSERT INTO records (id, title, type, sensitivity, date) VALUES (?, ?, ?, ?, ?)');
+      fixtures.forEach(({ id, title, type, sensitivity, date }) => insert.run(id, title, type, sensitivity, date));
+      db.close();
+
+      expect(await repository.list()).toEqual(fixtures);
+      expect(await repository.get('b')).toEqual(fixtures[1]);
+      expect(await repository.get('missing')).toBeNull();
+    });
+  });
+
+  describe.each<[string, () => RecordRepository]>([
+    ['memory', () => createMemoryRecordRepository(fixtures)],
+    ['json file', () => {
+      const filePath = path.join(tempDir, 'records.json');
+      writeFileSync(filePath, JSON.stringify(fixtures));
+      return createJsonFileRecordRepository(filePath);
+    }],
+    ['sqlite', () => createSqliteRecordRepository(':memory:')],
+  ])('%s writes', (_name, createRepository) => {
+    let repository: RecordRepository;
+    const created: RecordItem = { id: 'c', title: 'Created', type: 'Record', sensitivity: 'Private', date: '2024-02-03' };
+
+    beforeEach(async () => {
+      repository = createRepository();
+      if ((await repository.list()).length === 0) {
+        for (const record of fixtures) {
+          await repository.create(record);
+        }
+      }
+    });
+
+    it('should create records and reject duplicate IDs', async () => {
+      expect(await repository.create(created)).toEqual(created);
+      expect(await repository.get('c')).toEqual(created);
+      await expect(repository.create(created)).rejects.toBeInstanceOf(RecordExistsError);
+    });
+
+    it('should update existing records only', async () => {
+      const updated = { ...fixtures[0], title: 'Updated' };
+
+      expect(await repository.update(updated)).toEqual(updated);
+      expect(await repository.get('a')).toEqual(updated);
+      expect(await repository.update(created)).toBeNull();
+    });
+
+    it('should delete records', async () => {
+      expect(await repository.delete('a')).toBe(true);
+      expect(await repository.delete('a')).toBe(false);
+      expect(await repository.list()).toEqual([fixtures[1]]);
+    });
+
+    it('should not lose concurrent writes', async () => {
+      await Promise.all([
+        repository.create(created),
+        repository.create({ ...created, id: 'd' }),
+        repository.delete('b'),
+      ]);
+
+      expect((await repository.list()).map(record => record.id)).toEqual(['a', 'c', 'd']);
+    });
+  });
+
+  describe('createRecordRepositoryFromEnv', () => {
+    it('should default to the in-memory sample data', async () => {
+      expect(await createRecordRepositoryFromEnv({}).list()).toEqual(sampleRecords);
+    });
+
+    it('should select the JSON file store', async () => {
+      const filePath = path.join(tempDir, 'records.json');
+      writeFileSync(filePath, JSON.stringify(fixtures));
+
+      const repository = createRecordRepositoryFromEnv({ RECORDS_STORE: 'json', RECORDS_JSON_PATH: filePath });
+      expect(await repository.list()).toEqual(fixtures);
+    });
+
+    it('should reject unknown stores', () => {
+      expect(() => createRecordRepositoryFromEnv({ RECORDS_STORE: 'mongo' })).toThrow('Unknown RECORDS_STORE');
+    });
+  });
+});
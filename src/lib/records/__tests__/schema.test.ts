@@ -0,0 +1,107 @@
+import { assertValid, SchemaValidationError, validateEncryptedRecordPage, validateRecordItem, validateSealedRecord } from '../schema';
+
+describe('validateRecordItem', () => {
+  const valid = { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' };
+
+  it('should accept a well-formed record and strip unknown fields', () => {
+    expect(validateRecordItem({ ...valid, extra: true })).toEqual({ ok: true, value: valid });
+  });
+
+  it('should reject non-objects', () => {
+    expect(validateRecordItem(null)).toEqual({ ok: false, errors: ['Record must be an object'] });
+    expect(validateRecordItem([valid])).toEqual({ ok: false, errors: ['Record must be an object'] });
+  });
+
+  it('should report every missing field', () => {
+    const result = validateRecordItem({ id: '1' });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      'type is required',
+      'sensitivity is required',
+      'date is required',
+      'title is required',
+    ]);
+  });
+
+  it('should distinguish wrong types from empty values', () => {
+    const result = validateRecordItem({ ...valid, id: 7, title: '  ' });
+    expect(!result.ok && result.errors).toEqual(['id must be a string', 'title must not be empty']);
+  });
+
+  it('should reject unknown sensitivity levels', () => {
+    const result = validateRecordItem({ ...valid, sensitivity: 'Top Secret' });
+    expect(!result.ok && result.errors).toEqual(['sensitivity must be one of Private, Confidential, Highly Confidential']);
+  });
+
+  it('should reject record types outside the taxonomy', () => {
+    const result = validateRecordItem({ ...valid, type: 'Memo' });
+    expect(!result.ok && result.errors).toEqual(['type must be one of Survey, Record, Report']);
+  });
+
+  it('should reject impossible dates', () => {
+    expect(validateRecordItem({ ...valid, date: '2024-02-30' }).ok).toBe(false);
+    expect(validateRecordItem({ ...valid, date: '15/01/2024' }).ok).toBe(false);
+  });
+});
+
+describe('validateSealedRecord', () => {
+  const base = { id: '1', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' };
+
+  it('should accept a record whose title is sealed', () => {
+    expect(validateSealedRecord({ ...base, sealed: { title: 'v3.default.A256GCM.x.y.z.w' } }).ok).toBe(true);
+  });
+
+  it('should accept a record whose title was withheld', () => {
+    expect(validateSealedRecord({ ...base, sealedFields: ['title'] }).ok).toBe(true);
+    expect(validateSealedRecord({ ...base, title: 'x', sealedFields: ['body'] }).ok).toBe(false);
+  });
+
+  it('should accept redacted records without a title', () => {
+    expect(validateSealedRecord({ ...base, title: '', redacted: true }).ok).toBe(true);
+  });
+
+  it('should require the title unless it is sealed', () => {
+    const result = validateSealedRecord({ ...base, sealed: { body: 'x' } });
+    expect(!result.ok && result.errors).toEqual(['sealed.body is not a sealable field', 'title is required']);
+  });
+});
+
+describe('validateEncryptedRecordPage', () => {
+  const record = { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' };
+  const page = { timestamp: '2024-01-15T10:00:00.000Z', records: [record], total: 1, nextCursor: null };
+
+  it('should accept a well-formed page', () => {
+    expect(validateEncryptedRecordPage(page)).toEqual({ ok: true, value: page });
+  });
+
+  it('should report errors with the path of the offending record', () => {
+    const result = validateEncryptedRecordPage({
+      ...page,
+      records: [record, { ...record, date: '2024-13-01' }, { ...record, sensitivity: 'Secret', id: undefined }, 'x'],
+    });
+
+    expect(!result.ok && result.errors).toEqual([
+      'records[1].date must be a valid YYYY-MM-DD date',
+      'records[2].id is required',
+      'records[2].sensitivity must be one of Private, Confidential, Highly Confidential',
+      'records[3] must be an object',
+    ]);
+  });
+
+  it('should check the page fields', () => {
+    const result = validateEncryptedRecordPage({ timestamp: 'yesterday', records: {}, total: -1, nextCursor: 3 });
+    expect(!result.ok && result.errors).toEqual([
+      'timestamp must be an ISO date string',
+      'total must be a non-negative integer',
+      'nextCursor must be a string or null',
+      'records must be an array',
+    ]);
+  });
+
+  it('should throw a SchemaValidationError from assertValid', () => {
+    expect(() => assertValid(validateEncryptedRecordPage(null), 'Decrypted record page')).toThrow(
+      new SchemaValidationError('Decrypted record page', ['Payload must be an object'])
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  createTaxonomy,
+  getSensitivityLevel,
+  SENSITIVITY_LEVELS,
+  sensitivityRank,
+  TAXONOMY_CONFIG,
+  validateTaxonomyConfig,
+  type TaxonomyConfig,
+} from '../taxonomy';
+
+describe('record taxonomy', () => {
+  const [privateLevel, confidential] = TAXONOMY_CONFIG.sensitivity;
+
+  it('should list sensitivity levels least sensitive first', () => {
+    expect(SENSITIVITY_LEVELS).toEqual(['Private', 'Confidential', 'Highly Confidential']);
+  });
+
+  it('should rank known levels and put unknown ones above everything', () => {
+    expect(sensitivityRank('Private')).toBeLessThan(sensitivityRank('Confidential'));
+    expect(sensitivityRank('Confidential')).toBeLessThan(sensitivityRank('Highly Confidential'));
+    expect(sensitivityRank('Top Secret')).toBe(Infinity);
+  });
+
+  it('should look up levels with their handling rules', () => {
+    expect(getSensitivityLevel('Highly Confidential')?.handling).toContain('Never export unencrypted');
+    expect(getSensitivityLevel('Public')).toBeUndefined();
+  });
+
+  it('should order levels by rank regardless of config order', () => {
+    const taxonomy = createTaxonomy({ ...TAXONOMY_CONFIG, sensitivity: [confidential, privateLevel] });
+    expect(taxonomy.sensitivity.map(level => level.id)).toEqual(['Private', 'Confidential']);
+  });
+
+  it('should report duplicate ids and ranks and unusable ids', () => {
+    const config: TaxonomyConfig = {
+      sensitivity: [privateLevel, { ...confidential, rank: privateLevel.rank }, { ...confidential, id: 'A,B' }],
+      types: [{ id: 'Survey', label: 'Survey', icon: '📋' }, { id: 'Survey', label: '', icon: '📋' }],
+    };
+
+    expect(validateTaxonomyConfig(config)).toEqual([
+      'sensitivity level id "A,B" must not contain a comma',
+      'Every record type needs an id and a label',
+      'Duplicate record type id "Survey"',
+      'Duplicate sensitivity rank 1',
+    ]);
+    expect(() => createTaxonomy(config)).toThrow('Invalid taxonomy');
+  });
+
+  it('should require at least one level and one type', () => {
+    expect(validateTaxonomyConfig({ sensitivity: [], types: [] })).toEqual([
+      'At least one sensitivity level is required',
+      'At least one record type is required',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import type { RecordItem } from './schema';
+
+// Change log behind the live updates feed. The record routes publish every
+// create, update and delete here; subscribers hear about changes as they
+// happen, and a reconnecting subscriber catches up from the ID of the last
+// event it saw. The log is per process and keeps the most recent events
+// only, so run a single server process or put a shared broker behind this
+// interface.
+
+export type RecordChange =
+  | { type: 'created'; record: RecordItem }
+  | { type: 'updated'; record: RecordItem; previous: RecordItem }
+  | { type: 'deleted'; record: RecordItem };
+
+export interface RecordChangeEvent {
+  id: string;        // <epoch>-<sequence>; the epoch changes when the process restarts
+  timestamp: string;
+  change: RecordChange;
+}
+
+export interface RecordEventLog {
+  publish(change: RecordChange): RecordChangeEvent;
+  // Events after lastEventId, oldest first; null if some of them are no
+  // longer kept or the ID is from another process, so the caller can't catch up
+  since(lastEventId: string): RecordChangeEvent[] | null;
+  // ID of the latest event, for a consumer to catch up from later; events
+  // published after it are returned by since()
+  lastEventId(): string;
+  // Returns a function that unsubscribes
+  subscribe(listener: (event: RecordChangeEvent) => void): () => void;
+}
+
+export const DEFAULT_EVENT_HISTORY = 1000;
+
+export function createMemoryRecordEventLog(history: number = DEFAULT_EVENT_HISTORY): RecordEventLog {
+  const epoch = crypto.randomBytes(4).toString('hex');
+  const events: RecordChangeEvent[] = [];
+  const listeners = new Set<(event: RecordChangeEvent) => void>();
+  let sequence = 0;
+
+  return {
+    publish(change) {
+      const event: RecordChangeEvent = { id: `${epoch}-${++sequence}`, timestamp: new Date().toISOString(), change };
+      events.push(event);
+      if (events.length > history) {
+        events.shift();
+      }
+      for (const listener of listeners) {
+        listener(event);
+      }
+      return event;
+    },
+
+    since(lastEventId) {
+      const match = /^([0-9a-f]+)-(\d+)$/.exec(lastEventId);
+      const last = match && match[1] === epoch ? Number(match[2]) : NaN;
+      const oldest = sequence - events.length;
+      if (!Number.isSafeInteger(last) || last < oldest || last > sequence) {
+        return null;
+      }
+      return events.slice(last - oldest);
+    },
+
+    lastEventId() {
+      return `${epoch}-${sequence}`;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+let eventLog: RecordEventLog | null = null;
+
+// Process-wide change log
+export function getRecordEventLog(): RecordEventLog {
+  if (!eventLog) {
+    eventLog = createMemoryRecordEventLog();
+  }
+  return eventLog;
+}
+
+// Replaces the process-wide change log (e.g. in tests); null resets it
+export function setRecordEventLog(next: RecordEventLog | null): void {
+  eventLog = next;
+}
@@ -0,0 +1,98 @@
+import { createJsonFileRecordRepository } from './json-file';
+import { createMemoryRecordRepository } from './memory';
+import { sampleRecords } from './sample-data';
+import { createSqliteRecordRepository } from './sqlite';
+import type { RecordRepository } from './types';
+
+export type { RecordItem, RecordRepository } from './types';
+export { RecordExistsError } from './types';
+export {
+  applyRecordQuery,
+  compareRecords,
+  DEFAULT_RECORD_QUERY,
+  matchesRecordQuery,
+  MAX_PAGE_SIZE,
+  parseRecordQuery,
+  toSearchParams,
+  type RecordPage,
+  type RecordQuery,
+} from './query';
+export {
+  assertValid,
+  MASKABLE_FIELDS,
+  SchemaValidationError,
+  SEALED_FIELDS,
+  validateEncryptedRecordPage,
+  validateRecordItem,
+  validateRecordUpdateEvent,
+  validateSealedRecord,
+  type EncryptedRecordPage,
+  type MaskableField,
+  type RecordUpdate,
+  type RecordUpdateEvent,
+  type RecordView,
+  type RecordViewPage,
+  type SealedField,
+  type SealedRecord,
+  type ValidationResult,
+  type ViewerRecordUpdate,
+} from './schema';
+export {
+  getRecordType,
+  getSensitivityLevel,
+  RECORD_TYPES,
+  SENSITIVITY_LEVELS,
+  sensitivityRank,
+  TAXONOMY,
+  type RecordType,
+  type SensitivityLevel,
+} from './taxonomy';
+export {
+  createMemoryRecordEventLog,
+  getRecordEventLog,
+  setRecordEventLog,
+  type RecordChange,
+  type RecordChangeEvent,
+  type RecordEventLog,
+} from './events';
+export { maskedFieldsFor, maskRecord, REVEAL_TIMEOUT_SECONDS } from './masking';
+export { createMemoryRecordRepository } from './memory';
+export { createJsonFileRecordRepository } from './json-file';
+export { createSqliteRecordRepository } from './sqlite';
+export { sampleRecords } from './sample-data';
+
+const DEFAULT_JSON_PATH = 'data/records.json';
+const DEFAULT_SQLITE_PATH = 'data/records.db';
+
+let repository: RecordRepository | null = null;
+
+// Builds the repository selected by environment variables:
+//   RECORDS_STORE=memory (default) | json | sqlite
+//   RECORDS_JSON_PATH / RECORDS_SQLITE_PATH override the file locations
+export function createRecordRepositoryFromEnv(env: Record<string, string | undefined> = process.env): RecordRepository {
+  const store = env.RECORDS_STORE || 'memory';
+
+  switch (store) {
+    case 'memory':
+      return createMemoryRecordRepository(sampleRecords);
+    case 'json':
+      return createJsonFileRecordRepository(env.RECORDS_JSON_PATH || DEFAULT_JSON_PATH);
+    case 'sqlite':
+      return createSqliteRecordRepository(env.RECORDS_SQLITE_PATH || DEFAULT_SQLITE_PATH);
+    default:
+      throw new Error(`Unknown RECORDS_STORE "${store}". Expected memory, json or sqlite`);
+  }
+}
+
+// Process-wide repository, created lazily from the environment
+export function getRecordRepository(): RecordRepository {
+  if (!repository) {
+    repository = createRecordRepositoryFromEnv();
+  }
+  return repository;
+}
+
+// Replaces the process-wide repository (e.g. with fixtures in tests); null resets it
+export function setRecordRepository(next: RecordRepository | null): void {
+  repository = next;
+}
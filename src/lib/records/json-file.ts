@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { applyRecordQuery } from './query';
+import { RecordExistsError, type RecordItem, type RecordRepository } from './types';
+
+// Reads records from a JSON file holding an array of RecordItem objects.
+// The file is re-read on every call so edits show up without a restart.
+// Writes go through a temp file and rename, one at a time per repository.
+export function createJsonFileRecordRepository(filePath: string): RecordRepository {
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<RecordItem[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = JSON.parse(contents);
+    if (!Array.isArray(records)) {
+      throw new Error(`Record file ${filePath} must contain a JSON array`);
+    }
+    return records as RecordItem[];
+  }
+
+  async function writeAll(records: RecordItem[]): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, `${JSON.stringify(records, null, 2)}\n`, 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  // Serializes read-modify-write cycles so concurrent requests don't lose updates
+  function modify<T>(change: (records: RecordItem[]) => { records?: RecordItem[]; result: T }): Promise<T> {
+    const next = pendingWrite.then(async () => {
+      const { records, result } = change(await readAll());
+      if (records) {
+        await writeAll(records);
+      }
+      return result;
+    });
+    pendingWrite = next.catch(() => undefined);
+    return next;
+  }
+
+  return {
+    list: readAll,
+
+    async get(id) {
+      const records = await readAll();
+      return records.find(record => record.id === id) ?? null;
+    },
+
+    async query(query) {
+      return applyRecordQuery(await readAll(), query);
+    },
+
+    create(record) {
+      return modify(records => {
+        if (records.some(existing => existing.id === record.id)) {
+          throw new RecordExistsError(record.id);
+        }
+        return { records: [...records, record], result: record };
+      });
+    },
+
+    update(record) {
+      return modify<RecordItem | null>(records => {
+        const index = records.findIndex(existing => existing.id === record.id);
+        if (index === -1) {
+          return { result: null };
+        }
+        return { records: records.map((existing, i) => (i === index ? record : existing)), result: record };
+      });
+    },
+
+    delete(id) {
+      return modify(records => {
+        const remaining = records.filter(record => record.id !== id);
+        return remaining.length === records.length
+          ? { result: false }
+          : { records: remaining, result: true };
+      });
+    },
+  };
+}
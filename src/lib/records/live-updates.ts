@@ -0,0 +1,39 @@
+import { compareRecords, type RecordQuery } from './query';
+import type { RecordView, ViewerRecordUpdate } from './schema';
+
+// Merging of live updates into the page the viewer shows. Shared with client
+// components, so it must stay free of server-only imports.
+
+export interface LivePage {
+  records: RecordView[];
+  total: number;
+}
+
+// Applies one update to the page on screen. Records that still match are
+// replaced in place; new matches are inserted in sort order if they fall on
+// this page, and only counted if they fall on another. Records that no
+// longer match, or were deleted, leave the page. Deletions on other pages
+// can't be seen here, so the total may lag until the next load.
+export function applyViewerUpdate(page: LivePage, { update, matches }: ViewerRecordUpdate, query: RecordQuery): LivePage {
+  const id = update.type === 'deleted' ? update.id : update.record.id;
+  const index = page.records.findIndex(record => record.id === id);
+
+  if (update.type === 'deleted' || !matches) {
+    return index === -1 ? page : { records: page.records.filter(record => record.id !== id), total: page.total - 1 };
+  }
+
+  const { record } = update;
+  if (index !== -1) {
+    return { ...page, records: page.records.map(existing => (existing.id === id ? record : existing)) };
+  }
+
+  const before = page.records.findIndex(existing => compareRecords(record, existing, query) < 0);
+  const position = before === -1 ? page.records.length : before;
+  // Before the first record of a later page, or past the end of a full one
+  if ((position === 0 && query.cursor) || position >= query.limit) {
+    return { ...page, total: page.total + 1 };
+  }
+
+  const records = [...page.records.slice(0, position), record, ...page.records.slice(position)];
+  return { records: records.slice(0, query.limit), total: page.total + 1 };
+}
@@ -0,0 +1,35 @@
+import type { MaskableField, RecordView } from './schema';
+import { getSensitivityLevel } from './taxonomy';
+
+// Masking of sensitive fields in rendered records. Server components mask
+// records before handing them to client components, so the plaintext of a
+// masked field is never part of the initial RSC payload; the Reveal control
+// fetches it on demand through a server action. Shared with client
+// components, so it must stay free of server-only imports.
+
+// How long a revealed field stays visible before it is masked again
+export const REVEAL_TIMEOUT_SECONDS = 15;
+
+// Fields of a record that its sensitivity level masks. Redacted records and
+// fields this server could not unseal have nothing to reveal.
+export function maskedFieldsFor(record: RecordView): MaskableField[] {
+  if (record.redacted) {
+    return [];
+  }
+  const masked = getSensitivityLevel(record.sensitivity)?.masked ?? [];
+  return masked.filter(field => !record.sealedFields?.includes(field));
+}
+
+// Empties the masked fields of a record and lists them in maskedFields
+export function maskRecord<T extends RecordView>(record: T): T {
+  const maskedFields = maskedFieldsFor(record);
+  if (maskedFields.length === 0) {
+    return record;
+  }
+
+  const masked: T = { ...record, maskedFields };
+  for (const field of maskedFields) {
+    masked[field] = '';
+  }
+  return masked;
+}
@@ -0,0 +1,46 @@
+import { applyRecordQuery } from './query';
+import { RecordExistsError, type RecordItem, type RecordRepository } from './types';
+
+// Keeps records in process memory; used for the demo data set and test fixtures
+export function createMemoryRecordRepository(initialRecords: RecordItem[] = []): RecordRepository {
+  const records = new Map(initialRecords.map(record => [record.id, { ...record }]));
+
+  function snapshot(): RecordItem[] {
+    return [...records.values()].map(record => ({ ...record }));
+  }
+
+  return {
+    async list() {
+      return snapshot();
+    },
+
+    async get(id) {
+      const record = records.get(id);
+      return record ? { ...record } : null;
+    },
+
+    async query(query) {
+      return applyRecordQuery(snapshot(), query);
+    },
+
+    async create(record) {
+      if (records.has(record.id)) {
+        throw new RecordExistsError(record.id);
+      }
+      records.set(record.id, { ...record });
+      return { ...record };
+    },
+
+    async update(record) {
+      if (!records.has(record.id)) {
+        return null;
+      }
+      records.set(record.id, { ...record });
+      return { ...record };
+    },
+
+    async delete(id) {
+      return records.delete(id);
+    },
+  };
+}
@@ -0,0 +1,203 @@
+import type { RecordItem } from './types';
+import type { ValidationResult } from './schema';
+import { RECORD_TYPES, SENSITIVITY_LEVELS, sensitivityRank } from './taxonomy';
+
+// Filtering, sorting and pagination of records. Shared by the API route (to
+// parse query strings), the repositories (to apply them) and the viewer (to
+// build URLs), so it must stay free of server-only imports.
+
+export const SORT_FIELDS = ['date', 'type', 'sensitivity', 'title'] as const;
+export type SortField = (typeof SORT_FIELDS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export interface RecordQuery {
+  q?: string;             // Case-insensitive match on title, type or sensitivity
+  type?: string[];        // Any of these types
+  sensitivity?: string[]; // Any of these sensitivity levels
+  from?: string;          // Inclusive YYYY-MM-DD lower bound on date
+  to?: string;            // Inclusive YYYY-MM-DD upper bound on date
+  sort: SortField;
+  order: SortOrder;
+  cursor?: string;        // Opaque, taken from a previous page's nextCursor
+  limit: number;
+}
+
+export interface RecordPage {
+  records: RecordItem[];
+  total: number;             // Matching records across all pages
+  nextCursor: string | null; // null on the last page
+}
+
+export const DEFAULT_RECORD_QUERY: RecordQuery = { sort: 'date', order: 'desc', limit: DEFAULT_PAGE_SIZE };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Newest first for dates, alphabetical otherwise
+export function defaultOrderFor(sort: SortField): SortOrder {
+  return sort === 'date' ? 'desc' : 'asc';
+}
+
+// Cursors encode the offset of the next page; callers treat them as opaque
+export function encodeCursor(offset: number): string {
+  return `o${offset.toString(36)}`;
+}
+
+export function decodeCursor(cursor: string | undefined): number | null {
+  if (!cursor) {
+    return 0;
+  }
+  if (!/^o[0-9a-z]+$/.test(cursor)) {
+    return null;
+  }
+  const offset = parseInt(cursor.slice(1), 36);
+  return Number.isSafeInteger(offset) ? offset : null;
+}
+
+// Reads a list parameter given either repeated (?type=a&type=b) or comma-separated
+function readList(params: URLSearchParams, name: string): string[] | undefined {
+  const values = params
+    .getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+  return values.length > 0 ? [...new Set(values)] : undefined;
+}
+
+// Parses and validates query string parameters into a RecordQuery
+export function parseRecordQuery(params: URLSearchParams): ValidationResult<RecordQuery> {
+  const errors: string[] = [];
+
+  const sortParam = params.get('sort') || DEFAULT_RECORD_QUERY.sort;
+  const sort = SORT_FIELDS.find(field => field === sortParam);
+  if (!sort) {
+    errors.push(`sort must be one of ${SORT_FIELDS.join(', ')}`);
+  }
+
+  const orderParam = params.get('order');
+  if (orderParam && orderParam !== 'asc' && orderParam !== 'desc') {
+    errors.push('order must be asc or desc');
+  }
+
+  const limitParam = params.get('limit');
+  const limit = limitParam ? Number(limitParam) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    errors.push(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  const from = params.get('from') || undefined;
+  const to = params.get('to') || undefined;
+  for (const [name, value] of [['from', from], ['to', to]] as const) {
+    if (value && !DATE_PATTERN.test(value)) {
+      errors.push(`${name} must be a YYYY-MM-DD date`);
+    }
+  }
+  if (from && to && DATE_PATTERN.test(from) && DATE_PATTERN.test(to) && from > to) {
+    errors.push('from must not be after to');
+  }
+
+  const type = readList(params, 'type');
+  if (type?.some(value => !RECORD_TYPES.includes(value))) {
+    errors.push(`type must be one of ${RECORD_TYPES.join(', ')}`);
+  }
+
+  const sensitivity = readList(params, 'sensitivity');
+  const unknownLevels = sensitivity?.filter(level => !SENSITIVITY_LEVELS.includes(level)) ?? [];
+  if (unknownLevels.length > 0) {
+    errors.push(`sensitivity must be one of ${SENSITIVITY_LEVELS.join(', ')}`);
+  }
+
+  const cursor = params.get('cursor') || undefined;
+  if (decodeCursor(cursor) === null) {
+    errors.push('cursor is invalid');
+  }
+
+  if (errors.length > 0 || !sort) {
+    return { ok: false, errors };
+  }
+
+  const query: RecordQuery = {
+    sort,
+    order: (orderParam as SortOrder | null) || defaultOrderFor(sort),
+    limit,
+  };
+  const q = params.get('q')?.trim();
+  if (q) query.q = q;
+  if (type) query.type = type;
+  if (sensitivity) query.sensitivity = sensitivity;
+  if (from) query.from = from;
+  if (to) query.to = to;
+  if (cursor) query.cursor = cursor;
+
+  return { ok: true, value: query };
+}
+
+// Serializes a query back into URL parameters, leaving out defaults
+export function toSearchParams(query: Partial<RecordQuery>): URLSearchParams {
+  const params = new URLSearchParams();
+  const sort = query.sort ?? DEFAULT_RECORD_QUERY.sort;
+
+  if (query.q) params.set('q', query.q);
+  if (query.type?.length) params.set('type', query.type.join(','));
+  if (query.sensitivity?.length) params.set('sensitivity', query.sensitivity.join(','));
+  if (query.from) params.set('from', query.from);
+  if (query.to) params.set('to', query.to);
+  if (sort !== DEFAULT_RECORD_QUERY.sort) params.set('sort', sort);
+  if (query.order && query.order !== defaultOrderFor(sort)) params.set('order', query.order);
+  if (query.limit && query.limit !== DEFAULT_PAGE_SIZE) params.set('limit', String(query.limit));
+  if (query.cursor) params.set('cursor', query.cursor);
+
+  return params;
+}
+
+// Whether a record passes the query's filters; paging and order don't apply
+export function matchesRecordQuery(record: RecordItem, query: RecordQuery): boolean {
+  if (query.q) {
+    const needle = query.q.toLowerCase();
+    const haystacks = [record.title, record.type, record.sensitivity];
+    if (!haystacks.some(value => value.toLowerCase().includes(needle))) {
+      return false;
+    }
+  }
+  if (query.type && !query.type.includes(record.type)) return false;
+  if (query.sensitivity && !query.sensitivity.includes(record.sensitivity)) return false;
+  if (query.from && record.date < query.from) return false;
+  if (query.to && record.date > query.to) return false;
+  return true;
+}
+
+function compare<T extends string | number>(a: T, b: T): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Value a record is sorted by: sensitivity sorts by its taxonomy rank, the
+// other fields as text
+export function sortKey(record: RecordItem, sort: SortField): string | number {
+  return sort === 'sensitivity' ? sensitivityRank(record.sensitivity) : record[sort];
+}
+
+// Orders two records as the query sorts them; ties are broken by ID so pages
+// are stable. Text comparison is by code unit, matching SQLite's default
+// BINARY collation.
+export function compareRecords(a: RecordItem, b: RecordItem, query: Pick<RecordQuery, 'sort' | 'order'>): number {
+  const direction = query.order === 'asc' ? 1 : -1;
+  return direction * compare(sortKey(a, query.sort), sortKey(b, query.sort)) || compare(a.id, b.id);
+}
+
+// Applies a query to an in-memory list
+export function applyRecordQuery(records: RecordItem[], query: RecordQuery): RecordPage {
+  const matching = records
+    .filter(record => matchesRecordQuery(record, query))
+    .sort((a, b) => compareRecords(a, b, query));
+
+  const offset = decodeCursor(query.cursor) ?? 0;
+  const end = offset + query.limit;
+
+  return {
+    records: matching.slice(offset, end),
+    total: matching.length,
+    nextCursor: end < matching.length ? encodeCursor(end) : null,
+  };
+}
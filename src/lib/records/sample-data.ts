@@ -0,0 +1,13 @@
+import type { RecordItem } from './types';
+
+// Demo records served when no record store is configured
+export const sampleRecords: RecordItem[] = [
+  { id: '1', title: 'Patient Survey #001', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-15' },
+  { id: '2', title: 'Patient Survey #002', type: 'Survey', sensitivity: 'Private', date: '2024-01-16' },
+  { id: '3', title: 'Medical Record #101', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-17' },
+  { id: '4', title: 'Patient Survey #003', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-18' },
+  { id: '5', title: 'Medical Record #102', type: 'Record', sensitivity: 'Confidential', date: '2024-01-19' },
+  { id: '6', title: 'Patient Survey #004', type: 'Survey', sensitivity: 'Private', date: '2024-01-20' },
+  { id: '7', title: 'Medical Record #103', type: 'Record', sensitivity: 'Highly Confidential', date: '2024-01-21' },
+  { id: '8', title: 'Patient Survey #005', type: 'Survey', sensitivity: 'Confidential', date: '2024-01-22' },
+];
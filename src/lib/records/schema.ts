@@ -0,0 +1,270 @@
+import { DecryptionError } from '../decryption-errors';
+import { RECORD_TYPES, SENSITIVITY_LEVELS } from './taxonomy';
+
+// The record schema: TypeScript types and matching runtime validators for
+// records and the encrypted page payload. Shared by the API, the records
+// service and the client components, so it must stay free of server-only imports.
+
+// Fields sealed individually with the key for the record's sensitivity
+export const SEALED_FIELDS = ['title'] as const;
+export type SealedField = (typeof SEALED_FIELDS)[number];
+
+// Fields the viewer can render masked until the user asks to reveal them
+export const MASKABLE_FIELDS = ['title'] as const;
+export type MaskableField = (typeof MASKABLE_FIELDS)[number];
+
+// A single record as stored and served
+export interface RecordItem {
+  id: string;
+  title: string;
+  type: string;
+  sensitivity: string;
+  date: string; // YYYY-MM-DD
+}
+
+// A record as carried in an API payload: sealed fields are moved into
+// `sealed`, or left out and listed in `sealedFields` when the sending server
+// holds no key for the record's tier; redacted records were withheld by access
+// control and have no title
+export type SealedRecord = Omit<RecordItem, SealedField> &
+  Partial<Pick<RecordItem, SealedField>> & {
+    sealed?: Partial<Record<SealedField, string>>;
+    sealedFields?: SealedField[];
+    redacted?: true;
+  };
+
+// A record as rendered: fields this server could not unseal are listed in
+// sealedFields, and fields masked until revealed in maskedFields; both are
+// left empty
+export type RecordView = RecordItem & { sealedFields?: SealedField[]; maskedFields?: MaskableField[]; redacted?: true };
+
+// Decrypted /api/encrypted-data payload
+export interface EncryptedRecordPage {
+  timestamp: string;
+  records: SealedRecord[];
+  total: number;
+  nextCursor: string | null;
+  eventId?: string; // Live updates feed position before the page was read
+}
+
+// The same page after its records were unsealed
+export interface RecordViewPage extends Omit<EncryptedRecordPage, 'records'> {
+  records: RecordView[];
+}
+
+// A change to one record as pushed to the viewer: records are SealedRecord
+// in the encrypted feed and RecordView once the relay has opened them
+export type RecordUpdate<T = RecordView> =
+  | { type: 'created' | 'updated'; record: T }
+  | { type: 'deleted'; id: string };
+
+// Decrypted /api/encrypted-data/events payload; id is the feed's event ID
+export interface RecordUpdateEvent<T = RecordView> {
+  id: string;
+  timestamp: string;
+  update: RecordUpdate<T>;
+}
+
+// A live update as relayed to the browser. matches says whether the record
+// passes the viewer's filters, checked on the server before masking.
+export interface ViewerRecordUpdate extends RecordUpdateEvent {
+  matches: boolean;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+// Thrown where data that should already be valid (e.g. a decrypted payload) isn't
+export class SchemaValidationError extends DecryptionError {
+  constructor(what: string, public readonly errors: string[]) {
+    super('SCHEMA_INVALID', `${what} failed validation: ${errors.join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_FIELD_LENGTH = 200;
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+// Checks one string field; `allowEmpty` is for titles of sealed or redacted records
+function checkString(fields: Fields, name: string, errors: string[], path: string, allowEmpty = false): void {
+  const value = fields[name];
+  if (value === undefined) {
+    errors.push(`${path}${name} is required`);
+  } else if (typeof value !== 'string') {
+    errors.push(`${path}${name} must be a string`);
+  } else if (!allowEmpty && value.trim() === '') {
+    errors.push(`${path}${name} must not be empty`);
+  } else if (value.length > MAX_FIELD_LENGTH) {
+    errors.push(`${path}${name} must be at most ${MAX_FIELD_LENGTH} characters`);
+  }
+}
+
+// Checks the fields every record shape shares: id, type, sensitivity and date
+function checkRecordFields(fields: Fields, errors: string[], path: string): void {
+  for (const name of ['id', 'type', 'sensitivity', 'date']) {
+    checkString(fields, name, errors, path);
+  }
+
+  const { type, sensitivity, date } = fields;
+  if (typeof type === 'string' && type && !RECORD_TYPES.includes(type)) {
+    errors.push(`${path}type must be one of ${RECORD_TYPES.join(', ')}`);
+  }
+  if (typeof sensitivity === 'string' && sensitivity && !SENSITIVITY_LEVELS.includes(sensitivity)) {
+    errors.push(`${path}sensitivity must be one of ${SENSITIVITY_LEVELS.join(', ')}`);
+  }
+  if (typeof date === 'string' && date && !isValidDate(date)) {
+    errors.push(`${path}date must be a valid YYYY-MM-DD date`);
+  }
+}
+
+function checkRedacted(fields: Fields, errors: string[], path: string): void {
+  if (fields.redacted !== undefined && fields.redacted !== true) {
+    errors.push(`${path}redacted must be true when present`);
+  }
+}
+
+function checkSealedRecord(input: unknown, errors: string[], path: string): void {
+  if (!isObject(input)) {
+    errors.push(path ? `${path.slice(0, -1)} must be an object` : 'Record must be an object');
+    return;
+  }
+
+  checkRecordFields(input, errors, path);
+  checkRedacted(input, errors, path);
+
+  if (input.sealed !== undefined) {
+    if (!isObject(input.sealed)) {
+      errors.push(`${path}sealed must be an object`);
+      return;
+    }
+    for (const [name, value] of Object.entries(input.sealed)) {
+      if (!SEALED_FIELDS.includes(name as SealedField)) {
+        errors.push(`${path}sealed.${name} is not a sealable field`);
+      } else if (typeof value !== 'string' || value === '') {
+        errors.push(`${path}sealed.${name} must be an encrypted string`);
+      }
+    }
+  }
+
+  const withheld = input.sealedFields;
+  if (withheld !== undefined && (!Array.isArray(withheld) || !withheld.every(name => SEALED_FIELDS.includes(name)))) {
+    errors.push(`${path}sealedFields must list sealable fields`);
+  }
+
+  // Each sealable field is in plaintext, sealed or withheld; redacted records carry neither
+  for (const name of SEALED_FIELDS) {
+    if (Array.isArray(withheld) && withheld.includes(name)) {
+      continue;
+    } else if (input.redacted) {
+      checkString(input, name, errors, path, true);
+    } else if (!isObject(input.sealed) || input.sealed[name] === undefined) {
+      checkString(input, name, errors, path);
+    }
+  }
+}
+
+// Checks that an untrusted value is a well-formed RecordItem and strips unknown fields
+export function validateRecordItem(input: unknown): ValidationResult<RecordItem> {
+  if (!isObject(input)) {
+    return { ok: false, errors: ['Record must be an object'] };
+  }
+
+  const errors: string[] = [];
+  checkRecordFields(input, errors, '');
+  checkString(input, 'title', errors, '');
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const { id, title, type, sensitivity, date } = input as unknown as RecordItem;
+  return { ok: true, value: { id, title, type, sensitivity, date } };
+}
+
+// Checks a record as carried in an API payload
+export function validateSealedRecord(input: unknown): ValidationResult<SealedRecord> {
+  const errors: string[] = [];
+  checkSealedRecord(input, errors, '');
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: input as SealedRecord };
+}
+
+// Checks a whole decrypted page; errors are prefixed with their path, e.g. records[2].date
+export function validateEncryptedRecordPage(input: unknown): ValidationResult<EncryptedRecordPage> {
+  if (!isObject(input)) {
+    return { ok: false, errors: ['Payload must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { timestamp, records, total, nextCursor, eventId } = input;
+
+  if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) {
+    errors.push('timestamp must be an ISO date string');
+  }
+  if (!Number.isInteger(total) || (total as number) < 0) {
+    errors.push('total must be a non-negative integer');
+  }
+  if (nextCursor !== null && typeof nextCursor !== 'string') {
+    errors.push('nextCursor must be a string or null');
+  }
+  if (eventId !== undefined && typeof eventId !== 'string') {
+    errors.push('eventId must be a string');
+  }
+
+  if (!Array.isArray(records)) {
+    errors.push('records must be an array');
+  } else {
+    records.forEach((record, index) => checkSealedRecord(record, errors, `records[${index}].`));
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: input as unknown as EncryptedRecordPage };
+}
+
+// Returns the validated value or throws a SchemaValidationError naming `what`
+export function assertValid<T>(result: ValidationResult<T>, what: string): T {
+  if (!result.ok) {
+    throw new SchemaValidationError(what, result.errors);
+  }
+  return result.value;
+}
+
+// Checks a decrypted live update
+export function validateRecordUpdateEvent(input: unknown): ValidationResult<RecordUpdateEvent<SealedRecord>> {
+  if (!isObject(input)) {
+    return { ok: false, errors: ['Payload must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const { id, timestamp, update } = input;
+
+  if (typeof id !== 'string' || id === '') {
+    errors.push('id must be a non-empty string');
+  }
+  if (typeof timestamp !== 'string' || Number.isNaN(Date.parse(timestamp))) {
+    errors.push('timestamp must be an ISO date string');
+  }
+
+  if (!isObject(update)) {
+    errors.push('update must be an object');
+  } else if (update.type === 'created' || update.type === 'updated') {
+    checkSealedRecord(update.record, errors, 'update.record.');
+  } else if (update.type === 'deleted') {
+    checkString(update, 'id', errors, 'update.');
+  } else {
+    errors.push('update.type must be one of created, updated, deleted');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: input as unknown as RecordUpdateEvent<SealedRecord> };
+}
@@ -0,0 +1,142 @@
+import Database, { SqliteError } from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { decodeCursor, encodeCursor, SORT_FIELDS, type RecordQuery, type SortField } from './query';
+import { TAXONOMY } from './taxonomy';
+import { RecordExistsError, type RecordItem, type RecordRepository } from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS records (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    type TEXT NOT NULL,
+    sensitivity TEXT NOT NULL,
+    date TEXT NOT NULL
+  )
+`;
+
+const COLUMNS = 'id, title, type, sensitivity, date';
+
+// Escapes LIKE wildcards so user input only ever matches literally
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+// Builds the WHERE clause for a query; values are always bound, never inlined
+function whereClause(query: RecordQuery): { sql: string; values: string[] } {
+  const conditions: string[] = [];
+  const values: string[] = [];
+
+  if (query.q) {
+    conditions.push("(title LIKE ? ESCAPE '\\' OR type LIKE ? ESCAPE '\\' OR sensitivity LIKE ? ESCAPE '\\')");
+    const pattern = likePattern(query.q);
+    values.push(pattern, pattern, pattern);
+  }
+  for (const field of ['type', 'sensitivity'] as const) {
+    const allowed = query[field];
+    if (allowed) {
+      conditions.push(`${field} IN (${allowed.map(() => '?').join(', ')})`);
+      values.push(...allowed);
+    }
+  }
+  if (query.from) {
+    conditions.push('date >= ?');
+    values.push(query.from);
+  }
+  if (query.to) {
+    conditions.push('date <= ?');
+    values.push(query.to);
+  }
+
+  return { sql: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', values };
+}
+
+// ORDER BY expression for a sort field. Sensitivity sorts by taxonomy rank,
+// with unknown labels last as in applyRecordQuery. sort must already be
+// checked against SORT_FIELDS, since it is interpolated.
+function orderExpression(sort: SortField): { sql: string; values: (string | number)[] } {
+  if (sort !== 'sensitivity') {
+    return { sql: sort, values: [] };
+  }
+  const levels = TAXONOMY.sensitivity;
+  return {
+    sql: `CASE sensitivity ${levels.map(() => 'WHEN ? THEN ?').join(' ')} ELSE 9e999 END`,
+    values: levels.flatMap(level => [level.id, level.rank]),
+  };
+}
+
+// Stores records in a SQLite database file (or ':memory:'), creating the table on first use
+export function createSqliteRecordRepository(filename: string): RecordRepository {
+  if (filename !== ':memory:') {
+    mkdirSync(path.dirname(filename), { recursive: true });
+  }
+  const db = new Database(filename);
+  db.exec(SCHEMA);
+
+  const listStatement = db.prepare<[], RecordItem>(
+    `SELECT ${COLUMNS} FROM records ORDER BY rowid`
+  );
+  const getStatement = db.prepare<[string], RecordItem>(
+    `SELECT ${COLUMNS} FROM records WHERE id = ?`
+  );
+  const insertStatement = db.prepare<RecordItem>(
+    'INSERT INTO records (id, title, type, sensitivity, date) VALUES (@id, @title, @type, @sensitivity, @date)'
+  );
+  const updateStatement = db.prepare<RecordItem>(
+    'UPDATE records SET title = @title, type = @type, sensitivity = @sensitivity, date = @date WHERE id = @id'
+  );
+  const deleteStatement = db.prepare<[string]>('DELETE FROM records WHERE id = ?');
+
+  return {
+    async list() {
+      return listStatement.all();
+    },
+
+    async get(id) {
+      return getStatement.get(id) ?? null;
+    },
+
+    async query(query) {
+      const where = whereClause(query);
+      const offset = decodeCursor(query.cursor) ?? 0;
+      // sort is checked against the column allowlist, so it is safe to interpolate
+      if (!SORT_FIELDS.includes(query.sort)) {
+        throw new Error(`Cannot sort records by "${query.sort}"`);
+      }
+      const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+      const order = orderExpression(query.sort);
+
+      const { total } = db
+        .prepare<string[], { total: number }>(`SELECT COUNT(*) AS total FROM records ${where.sql}`)
+        .get(...where.values)!;
+      const records = db
+        .prepare<(string | number)[], RecordItem>(
+          `SELECT ${COLUMNS} FROM records ${where.sql} ORDER BY ${order.sql} ${direction}, id ASC LIMIT ? OFFSET ?`
+        )
+        .all(...where.values, ...order.values, query.limit, offset);
+
+      const end = offset + query.limit;
+      return { records, total, nextCursor: end < total ? encodeCursor(end) : null };
+    },
+
+    async create(record) {
+      try {
+        insertStatement.run(record);
+      } catch (error) {
+        if (error instanceof SqliteError && error.code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+          throw new RecordExistsError(record.id);
+        }
+        throw error;
+      }
+      return record;
+    },
+
+    async update(record) {
+      return updateStatement.run(record).changes > 0 ? record : null;
+    },
+
+    async delete(id) {
+      return deleteStatement.run(id).changes > 0;
+    },
+  };
+}
@@ -0,0 +1,170 @@
+// The record taxonomy: the sensitivity levels and record types the app knows,
+// in one place. Validation, clearance, sorting, filters and card styling all
+// read it, so adding a level or type is a change to TAXONOMY_CONFIG only.
+// Shared with client components, so it must stay free of server-only imports.
+
+import type { MaskableField } from './schema';
+
+export interface SensitivityColors {
+  bg: string;    // Gradient stops for glows
+  text: string;
+  badge: string;
+  glow: string;
+}
+
+export interface SensitivityLevel {
+  id: string;           // Value stored on records and used in query strings
+  label: string;        // Shown in the UI
+  rank: number;         // Higher is more sensitive; clearance and sorting follow it
+  colors: SensitivityColors;
+  handling: string[];   // Handling rules shown with records at this level
+  masked: MaskableField[]; // Fields rendered masked until the user reveals them
+  plaintextExport: boolean; // Whether CSV and JSON exports may include these records
+}
+
+export interface RecordType {
+  id: string;
+  label: string;
+  icon: string;
+}
+
+export interface TaxonomyConfig {
+  sensitivity: SensitivityLevel[];
+  types: RecordType[];
+}
+
+// A checked config whose levels are ordered by rank, least sensitive first
+export type Taxonomy = TaxonomyConfig;
+
+export const TAXONOMY_CONFIG: TaxonomyConfig = {
+  sensitivity: [
+    {
+      id: 'Private',
+      label: 'Private',
+      rank: 1,
+      colors: {
+        bg: 'from-orange-500/10 to-red-500/5',
+        text: 'text-orange-400',
+        badge: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+        glow: 'shadow-orange-500/20',
+      },
+      handling: ['Internal use only', 'Do not share outside the organization'],
+      masked: [],
+      plaintextExport: true,
+    },
+    {
+      id: 'Confidential',
+      label: 'Confidential',
+      rank: 2,
+      colors: {
+        bg: 'from-yellow-500/10 to-orange-500/5',
+        text: 'text-yellow-400',
+        badge: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+        glow: 'shadow-yellow-500/20',
+      },
+      handling: ['Share only with people who need it for their work', 'Store encrypted at rest'],
+      masked: ['title'],
+      plaintextExport: true,
+    },
+    {
+      id: 'Highly Confidential',
+      label: 'Highly Confidential',
+      rank: 3,
+      colors: {
+        bg: 'from-red-500/10 to-pink-500/5',
+        text: 'text-red-400',
+        badge: 'bg-red-500/20 text-red-400 border-red-500/30',
+        glow: 'shadow-red-500/20',
+      },
+      handling: ['Named recipients only', 'Never export unencrypted', 'Report any suspected disclosure immediately'],
+      masked: ['title'],
+      plaintextExport: false,
+    },
+  ],
+  types: [
+    { id: 'Survey', label: 'Survey', icon: '📋' },
+    { id: 'Record', label: 'Record', icon: '📄' },
+    { id: 'Report', label: 'Report', icon: '📊' },
+  ],
+};
+
+// Styling for labels the taxonomy doesn't know
+export const UNKNOWN_SENSITIVITY_COLORS: SensitivityColors = {
+  bg: 'from-gray-500/10 to-gray-500/5',
+  text: 'text-gray-400',
+  badge: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
+  glow: 'shadow-gray-500/20',
+};
+export const UNKNOWN_TYPE_ICON = '📋';
+
+function findDuplicates(values: unknown[]): unknown[] {
+  return [...new Set(values.filter((value, index) => values.indexOf(value) !== index))];
+}
+
+// Lists what is wrong with a taxonomy config; empty when it is usable
+export function validateTaxonomyConfig(config: TaxonomyConfig): string[] {
+  const errors: string[] = [];
+  if (config.sensitivity.length === 0) {
+    errors.push('At least one sensitivity level is required');
+  }
+  if (config.types.length === 0) {
+    errors.push('At least one record type is required');
+  }
+
+  for (const [kind, entries] of [['sensitivity level', config.sensitivity], ['record type', config.types]] as const) {
+    for (const entry of entries) {
+      if (!entry.id.trim() || !entry.label.trim()) {
+        errors.push(`Every ${kind} needs an id and a label`);
+      } else if (entry.id.includes(',')) {
+        // Query strings carry lists of ids separated by commas
+        errors.push(`${kind} id "${entry.id}" must not contain a comma`);
+      }
+    }
+    for (const id of findDuplicates(entries.map(entry => entry.id))) {
+      errors.push(`Duplicate ${kind} id "${id}"`);
+    }
+  }
+
+  for (const level of config.sensitivity) {
+    if (!Number.isFinite(level.rank)) {
+      errors.push(`Sensitivity level "${level.id}" needs a finite rank`);
+    }
+  }
+  for (const rank of findDuplicates(config.sensitivity.map(level => level.rank))) {
+    errors.push(`Duplicate sensitivity rank ${rank}`);
+  }
+  return errors;
+}
+
+// Checks a config and orders its levels by rank
+export function createTaxonomy(config: TaxonomyConfig): Taxonomy {
+  const errors = validateTaxonomyConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid taxonomy: ${errors.join('; ')}`);
+  }
+  return {
+    sensitivity: [...config.sensitivity].sort((a, b) => a.rank - b.rank),
+    types: [...config.types],
+  };
+}
+
+export const TAXONOMY: Taxonomy = createTaxonomy(TAXONOMY_CONFIG);
+
+// Sensitivity level ids, least sensitive first
+export const SENSITIVITY_LEVELS: string[] = TAXONOMY.sensitivity.map(level => level.id);
+
+// Record type ids in configured order
+export const RECORD_TYPES: string[] = TAXONOMY.types.map(type => type.id);
+
+export function getSensitivityLevel(id: string): SensitivityLevel | undefined {
+  return TAXONOMY.sensitivity.find(level => level.id === id);
+}
+
+export function getRecordType(id: string): RecordType | undefined {
+  return TAXONOMY.types.find(type => type.id === id);
+}
+
+// Configured rank of a level; unknown labels rank above everything
+export function sensitivityRank(id: string): number {
+  return getSensitivityLevel(id)?.rank ?? Infinity;
+}
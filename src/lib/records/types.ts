@@ -0,0 +1,26 @@
+import type { RecordPage, RecordQuery } from './query';
+import type { RecordItem } from './schema';
+
+export type { RecordItem } from './schema';
+
+// Storage backend for records; implementations may be sync underneath but
+// expose promises so a networked database can slot in later
+export interface RecordRepository {
+  list(): Promise<RecordItem[]>;
+  get(id: string): Promise<RecordItem | null>;
+  // Filters, sorts and paginates; see applyRecordQuery for the semantics
+  query(query: RecordQuery): Promise<RecordPage>;
+  // Throws RecordExistsError if a record with the same ID is already stored
+  create(record: RecordItem): Promise<RecordItem>;
+  // Returns null if there is no record with that ID
+  update(record: RecordItem): Promise<RecordItem | null>;
+  // Returns false if there was no record with that ID
+  delete(id: string): Promise<boolean>;
+}
+
+export class RecordExistsError extends Error {
+  constructor(public readonly id: string) {
+    super(`Record "${id}" already exists`);
+    this.name = 'RecordExistsError';
+  }
+}
@@ -0,0 +1,9 @@
+// Which Next.js runtime the code runs on. No imports, so settings modules
+// loaded on both runtimes can check it.
+
+export type EncryptionRuntime = 'nodejs' | 'edge';
+
+// Next.js sets NEXT_RUNTIME to "edge" in middleware and edge route handlers
+export function detectRuntime(env: Record<string, string | undefined> = process.env): EncryptionRuntime {
+  return env.NEXT_RUNTIME === 'edge' ? 'edge' : 'nodejs';
+}
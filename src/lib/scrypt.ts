@@ -0,0 +1,109 @@
+import type { ScryptParams } from './kdf-config';
+
+// scrypt (RFC 7914) on Web APIs, for runtimes without Node's crypto.scrypt.
+// Web Crypto has no scrypt, so the memory-hard mixing is done here and only
+// the PBKDF2-HMAC-SHA256 steps around it go through crypto.subtle. Callers
+// check the parameters with validateScryptParams first.
+
+async function pbkdf2Sha256(password: Uint8Array, salt: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', password as BufferSource, 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations: 1 },
+    key,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function rotl(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+// Salsa20/8 core over the 16 words at B[offset], in place
+function salsa208(B: Uint32Array, offset: number, x: Uint32Array): void {
+  for (let i = 0; i < 16; i++) {
+    x[i] = B[offset + i];
+  }
+  for (let round = 0; round < 8; round += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7);   x[8] ^= rotl(x[4] + x[0], 9);
+    x[12] ^= rotl(x[8] + x[4], 13);  x[0] ^= rotl(x[12] + x[8], 18);
+    x[9] ^= rotl(x[5] + x[1], 7);    x[13] ^= rotl(x[9] + x[5], 9);
+    x[1] ^= rotl(x[13] + x[9], 13);  x[5] ^= rotl(x[1] + x[13], 18);
+    x[14] ^= rotl(x[10] + x[6], 7);  x[2] ^= rotl(x[14] + x[10], 9);
+    x[6] ^= rotl(x[2] + x[14], 13);  x[10] ^= rotl(x[6] + x[2], 18);
+    x[3] ^= rotl(x[15] + x[11], 7);  x[7] ^= rotl(x[3] + x[15], 9);
+    x[11] ^= rotl(x[7] + x[3], 13);  x[15] ^= rotl(x[11] + x[7], 18);
+    x[1] ^= rotl(x[0] + x[3], 7);    x[2] ^= rotl(x[1] + x[0], 9);
+    x[3] ^= rotl(x[2] + x[1], 13);   x[0] ^= rotl(x[3] + x[2], 18);
+    x[6] ^= rotl(x[5] + x[4], 7);    x[7] ^= rotl(x[6] + x[5], 9);
+    x[4] ^= rotl(x[7] + x[6], 13);   x[5] ^= rotl(x[4] + x[7], 18);
+    x[11] ^= rotl(x[10] + x[9], 7);  x[8] ^= rotl(x[11] + x[10], 9);
+    x[9] ^= rotl(x[8] + x[11], 13);  x[10] ^= rotl(x[9] + x[8], 18);
+    x[12] ^= rotl(x[15] + x[14], 7); x[13] ^= rotl(x[12] + x[15], 9);
+    x[14] ^= rotl(x[13] + x[12], 13); x[15] ^= rotl(x[14] + x[13], 18);
+  }
+  for (let i = 0; i < 16; i++) {
+    B[offset + i] += x[i];
+  }
+}
+
+// BlockMix: hashes the 2r 64-byte blocks of B in a chain, writing the results
+// to Y with even blocks first, then odd ones
+function blockMix(B: Uint32Array, Y: Uint32Array, r: number, x: Uint32Array): void {
+  const last = new Uint32Array(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+  for (let i = 0; i < 2 * r; i++) {
+    for (let j = 0; j < 16; j++) {
+      last[j] ^= B[i * 16 + j];
+    }
+    salsa208(last, 0, x);
+    Y.set(last, (i % 2 === 0 ? i / 2 : r + (i - 1) / 2) * 16);
+  }
+}
+
+// ROMix over one 128r-byte block, in place
+function roMix(block: Uint32Array, N: number, r: number): void {
+  const words = 32 * r;
+  const V = new Uint32Array(words * N);
+  const x = new Uint32Array(16);
+  let X = new Uint32Array(block);
+  let Y = new Uint32Array(words);
+
+  for (let i = 0; i < N; i++) {
+    V.set(X, i * words);
+    blockMix(X, Y, r, x);
+    [X, Y] = [Y, X];
+  }
+  for (let i = 0; i < N; i++) {
+    const j = X[(2 * r - 1) * 16] & (N - 1); // Integerify; N is at most 2^20
+    for (let k = 0; k < words; k++) {
+      X[k] ^= V[j * words + k];
+    }
+    blockMix(X, Y, r, x);
+    [X, Y] = [Y, X];
+  }
+  block.set(X);
+}
+
+// Same output as Node's crypto.scrypt(password, salt, length, { N, r, p })
+export async function scrypt(
+  password: Uint8Array,
+  salt: Uint8Array,
+  length: number,
+  { N, r, p }: ScryptParams
+): Promise<Uint8Array> {
+  const bytes = await pbkdf2Sha256(password, salt, p * 128 * r);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const words = new Uint32Array(bytes.length / 4);
+  for (let i = 0; i < words.length; i++) {
+    words[i] = view.getUint32(i * 4, true);
+  }
+
+  for (let i = 0; i < p; i++) {
+    roMix(words.subarray(i * 32 * r, (i + 1) * 32 * r), N, r);
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    view.setUint32(i * 4, words[i], true);
+  }
+  return pbkdf2Sha256(password, bytes, length);
+}
@@ -0,0 +1,124 @@
+// CORS and security headers applied by src/middleware.ts. Runs on the edge
+// runtime, so it sticks to Web APIs (no Node crypto or Buffer).
+
+export interface CorsConfig {
+  allowedOrigins: ReadonlySet<string>; // Exact origins, e.g. https://app.example.com
+  allowCredentials: boolean;           // Lets browsers send the session cookie cross-origin
+  allowedMethods: string[];
+  allowedHeaders: string[];
+  maxAgeSeconds: number;               // How long browsers may cache a preflight
+}
+
+const DEFAULT_ALLOWED_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'];
+const DEFAULT_ALLOWED_HEADERS = ['Content-Type'];
+const DEFAULT_PREFLIGHT_MAX_AGE = 600;
+
+// API routes whose responses carry encrypted payloads or session state, and
+// pages rendering decrypted records, must never be stored by browsers or
+// shared caches
+export const NO_STORE_PATH_PREFIXES = ['/api/encrypted-data', '/api/records', '/api/audit', '/api/auth', '/api/export', '/api/updates', '/records'];
+
+const HSTS_MAX_AGE_SECONDS = 2 * 365 * 24 * 60 * 60;
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+// Reads the CORS allowlist:
+//   CORS_ALLOWED_ORIGINS=https://a.example.com,https://b.example.com
+//   CORS_ALLOW_CREDENTIALS=true (default) | false
+// Wildcards are refused: the API authenticates with cookies, so every
+// origin that may call it has to be named.
+export function loadCorsConfig(env: Record<string, string | undefined> = process.env): CorsConfig {
+  const origins = parseList(env.CORS_ALLOWED_ORIGINS);
+
+  for (const origin of origins) {
+    if (origin.includes('*')) {
+      throw new Error('CORS_ALLOWED_ORIGINS must list exact origins; wildcards are not supported');
+    }
+    if (new URL(origin).origin !== origin) {
+      throw new Error(`Invalid origin "${origin}" in CORS_ALLOWED_ORIGINS. Expected scheme://host[:port]`);
+    }
+  }
+
+  const credentials = env.CORS_ALLOW_CREDENTIALS || 'true';
+  if (credentials !== 'true' && credentials !== 'false') {
+    throw new Error('CORS_ALLOW_CREDENTIALS must be true or false');
+  }
+
+  return {
+    allowedOrigins: new Set(origins),
+    allowCredentials: credentials === 'true',
+    allowedMethods: DEFAULT_ALLOWED_METHODS,
+    allowedHeaders: DEFAULT_ALLOWED_HEADERS,
+    maxAgeSeconds: DEFAULT_PREFLIGHT_MAX_AGE,
+  };
+}
+
+export function isOriginAllowed(origin: string | null, config: CorsConfig): origin is string {
+  return origin !== null && config.allowedOrigins.has(origin);
+}
+
+// Headers for a request from an allowed origin. Vary: Origin is set by the
+// caller on every API response, allowed or not, so caches keep them apart.
+export function corsHeaders(origin: string, config: CorsConfig, preflight: boolean): Record<string, string> {
+  const headers: Record<string, string> = { 'Access-Control-Allow-Origin': origin };
+  if (config.allowCredentials) {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (preflight) {
+    headers['Access-Control-Allow-Methods'] = config.allowedMethods.join(', ');
+    headers['Access-Control-Allow-Headers'] = config.allowedHeaders.join(', ');
+    headers['Access-Control-Max-Age'] = String(config.maxAgeSeconds);
+  }
+  return headers;
+}
+
+// Random per-request nonce for inline scripts, base64 encoded
+export function createNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+// CSP for app router pages. Next.js reads the nonce from this header on the
+// request and adds it to its own scripts; 'strict-dynamic' lets those load
+// their chunks. Styles stay 'unsafe-inline' for framer-motion's style attributes.
+export function buildContentSecurityPolicy(nonce: string, { development = false } = {}): string {
+  const directives = [
+    "default-src 'self'",
+    `script-src 'self' 'nonce-${nonce}' 'strict-dynamic'${development ? " 'unsafe-eval'" : ''}`,
+    "style-src 'self' 'unsafe-inline'",
+    "img-src 'self' blob: data:",
+    "font-src 'self'",
+    "connect-src 'self'",
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'self'",
+    "frame-ancestors 'none'",
+  ];
+  if (!development) {
+    directives.push('upgrade-insecure-requests');
+  }
+  return directives.join('; ');
+}
+
+// Headers sent on every response. HSTS is only sent in production, where the
+// site is served over HTTPS.
+export function baselineSecurityHeaders({ production = false } = {}): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+  };
+  if (production) {
+    headers['Strict-Transport-Security'] = `max-age=${HSTS_MAX_AGE_SECONDS}; includeSubDomains`;
+  }
+  return headers;
+}
+
+export function isNoStorePath(pathname: string): boolean {
+  return NO_STORE_PATH_PREFIXES.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
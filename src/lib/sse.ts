@@ -0,0 +1,182 @@
+// Server-Sent Events (text/event-stream) framing and parsing, for the live
+// record updates feed. Each event is a block of `field: value` lines ended by
+// a blank line; lines starting with a colon are comments.
+
+export const SSE_CONTENT_TYPE = 'text/event-stream';
+
+// How often an idle stream sends a comment so proxies don't drop it
+export const SSE_HEARTBEAT_MS = 15_000;
+
+// How much a stream buffers for a slow consumer before it is closed. The
+// consumer reconnects with the last event ID it read and catches up.
+export const SSE_MAX_BUFFERED_BYTES = 1024 * 1024;
+
+export interface ServerSentEvent {
+  id?: string;
+  event?: string; // Clients treat a missing event type as 'message'
+  data: string;
+  retry?: number; // Reconnection delay in milliseconds
+}
+
+// An event to send; one with only a retry just sets the reconnection delay
+export type OutgoingServerSentEvent = Omit<ServerSentEvent, 'data'> & { data?: string };
+
+// Headers for an event stream response; X-Accel-Buffering stops nginx from
+// holding events back
+export const SSE_HEADERS = {
+  'Content-Type': SSE_CONTENT_TYPE,
+  'Cache-Control': 'no-store',
+  'X-Accel-Buffering': 'no',
+};
+
+export function formatServerSentEvent({ id, event, data, retry }: OutgoingServerSentEvent): string {
+  const lines: string[] = [];
+  if (retry !== undefined) lines.push(`retry: ${retry}`);
+  if (id !== undefined) lines.push(`id: ${id.replace(/[\r\n\0]/g, '')}`);
+  if (event) lines.push(`event: ${event.replace(/[\r\n]/g, '')}`);
+  for (const line of data?.split(/\r\n|\r|\n/) ?? []) {
+    lines.push(`data: ${line}`);
+  }
+  return `${lines.join('\n')}\n\n`;
+}
+
+// Parses an event stream as an EventSource would: data lines are joined with
+// newlines, the last id seen carries over to later events, and events
+// without data are dropped
+export function createServerSentEventParser(): TransformStream<Uint8Array, ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let pending = '';
+  let lastId: string | undefined;
+  let event: string | undefined;
+  let retry: number | undefined;
+  let data: string[] = [];
+
+  function dispatch(controller: TransformStreamDefaultController<ServerSentEvent>) {
+    if (data.length > 0) {
+      controller.enqueue({
+        ...(lastId !== undefined && { id: lastId }),
+        ...(event && { event }),
+        ...(retry !== undefined && { retry }),
+        data: data.join('\n'),
+      });
+    }
+    event = undefined;
+    retry = undefined;
+    data = [];
+  }
+
+  function readLine(line: string, controller: TransformStreamDefaultController<ServerSentEvent>) {
+    if (line === '') {
+      dispatch(controller);
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      data.push(value);
+    } else if (field === 'event') {
+      event = value;
+    } else if (field === 'id' && !value.includes('\0')) {
+      lastId = value;
+    } else if (field === 'retry' && /^\d+$/.test(value)) {
+      retry = Number(value);
+    }
+  }
+
+  function readLines(text: string, controller: TransformStreamDefaultController<ServerSentEvent>, final: boolean) {
+    const buffer = pending + text;
+    // A trailing \r may be the first half of a \r\n split across chunks
+    const holdBack = !final && buffer.endsWith('\r');
+    const lines = (holdBack ? buffer.slice(0, -1) : buffer).split(/\r\n|\r|\n/);
+    pending = lines.pop()! + (holdBack ? '\r' : '');
+    for (const line of lines) {
+      readLine(line, controller);
+    }
+  }
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      readLines(decoder.decode(chunk, { stream: true }), controller, false);
+    },
+
+    // An event not ended by a blank line is incomplete and discarded
+    flush(controller) {
+      readLines(decoder.decode(), controller, true);
+    },
+  });
+}
+
+type EventStreamSource = (
+  send: (event: OutgoingServerSentEvent) => void,
+  close: (error?: unknown) => void
+) => (() => void) | void;
+
+// An event stream fed by `source`, which is called once the stream starts
+// and may return a cleanup function. Cleanup runs when the source closes the
+// stream or the consumer goes away. Idle streams send a heartbeat comment.
+// An event that finds more than maxBufferedBytes unread is not sent; the
+// stream is closed instead, after what is buffered.
+export function createEventStream(
+  source: EventStreamSource,
+  { heartbeatMs = SSE_HEARTBEAT_MS, maxBufferedBytes = SSE_MAX_BUFFERED_BYTES }: { heartbeatMs?: number; maxBufferedBytes?: number } = {}
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let cleanup: (() => void) | void;
+  let closed = false;
+
+  function stop() {
+    if (!closed) {
+      closed = true;
+      clearInterval(heartbeat);
+      cleanup?.();
+    }
+  }
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: OutgoingServerSentEvent) => {
+        if (closed) {
+          return;
+        }
+        if (controller.desiredSize !== null && controller.desiredSize <= 0) {
+          close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatServerSentEvent(event)));
+      };
+      const close = (error?: unknown) => {
+        if (closed) {
+          return;
+        }
+        stop();
+        if (error === undefined) {
+          controller.close();
+        } else {
+          controller.error(error);
+        }
+      };
+
+      // Heartbeats are skipped while the consumer is behind
+      heartbeat = setInterval(() => {
+        if ((controller.desiredSize ?? 0) > 0) {
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+        }
+      }, heartbeatMs);
+      cleanup = source(send, close);
+      // The source may have closed the stream before returning its cleanup
+      if (closed) {
+        cleanup?.();
+      }
+    },
+
+    cancel() {
+      stop();
+    },
+  }, new ByteLengthQueuingStrategy({ highWaterMark: maxBufferedBytes }));
+}
@@ -0,0 +1,220 @@
+import crypto from 'crypto';
+import { verifyClaims, type PayloadClaims } from './claims';
+import { AuthenticationFailedError, MalformedEnvelopeError, TruncatedStreamError } from './decryption-errors';
+import { derivePayloadKeyFromHeader, deriveSealingKey, toKeyring, type DecryptOptions, type SecretKey } from './encryption';
+import type { EnvelopeHeader } from './envelope';
+import { getKeySecret } from './keyring';
+
+// Chunked authenticated encryption for payloads too large to buffer, in the
+// style of the STREAM construction. The stream is newline-separated text:
+//   s1.<kid>.<alg>.<hdr>      header; hdr is base64url JSON as in v3 plus
+//                             the chunk size and a random nonce prefix
+//   c.<base64 ct||tag>        a chunk with more to follow
+//   f.<base64 ct||tag>        the final chunk
+// Each chunk is sealed with AES-256-GCM under one key per stream. Its nonce
+// is the prefix, a 32-bit chunk counter and a final flag, and the header line
+// is its associated data. Reordered, dropped or re-flagged chunks therefore
+// fail to authenticate, and a stream without a final chunk is rejected as
+// truncated.
+
+export const STREAM_VERSION = 's1';
+export const STREAM_CONTENT_TYPE = 'application/x-encrypted-stream';
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+export const MAX_STREAM_CHUNK_SIZE = 1024 * 1024;
+
+const ALGORITHM = 'aes-256-gcm';
+const STREAM_ALG_ID = 'A256GCM-STREAM';
+const NONCE_PREFIX_LENGTH = 7;
+const TAG_LENGTH = 16;
+const MAX_CHUNKS = 2 ** 32;
+const MAX_HEADER_LINE_LENGTH = 4096;
+
+export interface StreamHeader extends EnvelopeHeader {
+  chunk: number; // Plaintext bytes per chunk
+  np: string;    // base64 nonce prefix, random per stream
+}
+
+export interface StreamEncryptOptions {
+  claims?: PayloadClaims; // Bound to every chunk through the header line
+  chunkSize?: number;
+}
+
+function chunkNonce(prefix: Buffer, counter: number, last: boolean): Buffer {
+  const nonce = Buffer.alloc(NONCE_PREFIX_LENGTH + 5);
+  prefix.copy(nonce);
+  nonce.writeUInt32BE(counter, NONCE_PREFIX_LENGTH);
+  nonce[NONCE_PREFIX_LENGTH + 4] = last ? 1 : 0;
+  return nonce;
+}
+
+function formatStreamHeader(keyId: string, header: StreamHeader): string {
+  const encodedHeader = Buffer.from(JSON.stringify(header), 'utf8').toString('base64url');
+  return [STREAM_VERSION, keyId, STREAM_ALG_ID, encodedHeader].join('.');
+}
+
+function parseStreamHeader(line: string): { keyId: string; header: StreamHeader } {
+  const [version, keyId, alg, encodedHeader, ...rest] = line.split('.');
+  if (version !== STREAM_VERSION || !keyId || !encodedHeader || rest.length > 0) {
+    throw new MalformedEnvelopeError(`Invalid encrypted stream. Expected a ${STREAM_VERSION}.<kid>.<alg>.<hdr> header line`);
+  }
+  if (alg !== STREAM_ALG_ID) {
+    throw new MalformedEnvelopeError(`Unsupported encryption algorithm "${alg}"`);
+  }
+
+  let header: StreamHeader;
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+  } catch {
+    throw new MalformedEnvelopeError('Invalid encrypted stream. Header is not JSON');
+  }
+  const validChunkSize = Number.isInteger(header?.chunk) && header.chunk > 0 && header.chunk <= MAX_STREAM_CHUNK_SIZE;
+  if (!validChunkSize || typeof header.np !== 'string' || Buffer.from(header.np, 'base64').length !== NONCE_PREFIX_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted stream. Bad chunk size or nonce prefix');
+  }
+  return { keyId, header };
+}
+
+// Encrypts a byte stream with the keyring's active key; the output is the
+// text format above, encoded as UTF-8
+export function createEncryptStream(secretKey: SecretKey, options: StreamEncryptOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+  const chunkSize = options.chunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be an integer between 1 and ${MAX_STREAM_CHUNK_SIZE}`);
+  }
+
+  const keyring = toKeyring(secretKey);
+  const { key, header: keyHeader } = deriveSealingKey(keyring, STREAM_ALG_ID);
+  const noncePrefix = crypto.randomBytes(NONCE_PREFIX_LENGTH);
+  const header: StreamHeader = { ...keyHeader, chunk: chunkSize, np: noncePrefix.toString('base64') };
+  if (options.claims) {
+    header.ctx = options.claims;
+  }
+  const headerLine = formatStreamHeader(keyring.activeKeyId, header);
+  const encoder = new TextEncoder();
+
+  let buffered = Buffer.alloc(0);
+  let counter = 0;
+
+  function seal(plaintext: Buffer, last: boolean): Uint8Array {
+    if (counter >= MAX_CHUNKS) {
+      throw new Error('Encrypted stream is too long');
+    }
+    const cipher = crypto.createCipheriv(ALGORITHM, key, chunkNonce(noncePrefix, counter++, last), { authTagLength: TAG_LENGTH });
+    cipher.setAAD(Buffer.from(headerLine, 'utf8'));
+    const sealed = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+    return encoder.encode(`${last ? 'f' : 'c'}.${sealed.toString('base64')}\n`);
+  }
+
+  return new TransformStream({
+    start(controller) {
+      controller.enqueue(encoder.encode(`${headerLine}\n`));
+    },
+
+    // A full chunk is only sealed once more input arrives, since until then
+    // it may turn out to be the final one
+    transform(chunk, controller) {
+      buffered = Buffer.concat([buffered, chunk]);
+      while (buffered.length > chunkSize) {
+        controller.enqueue(seal(buffered.subarray(0, chunkSize), false));
+        buffered = buffered.subarray(chunkSize);
+      }
+    },
+
+    flush(controller) {
+      controller.enqueue(seal(buffered, true));
+    },
+  });
+}
+
+// Decrypts the output of createEncryptStream. Claims in options.expect are
+// checked once the first chunk has authenticated the header, before any
+// plaintext is released. Throws TruncatedStreamError if the input ends
+// without a final chunk.
+export function createDecryptStream(secretKey: SecretKey, options: DecryptOptions = {}): TransformStream<Uint8Array, Uint8Array> {
+  const keyring = toKeyring(secretKey);
+  const decoder = new TextDecoder();
+
+  let pending = '';
+  let stream: { headerLine: string; header: StreamHeader; key: Buffer; noncePrefix: Buffer; maxLineLength: number } | null = null;
+  let counter = 0;
+  let finished = false;
+
+  function openChunk(line: string): Buffer {
+    if (!stream) {
+      const { keyId, header } = parseStreamHeader(line);
+      const key = derivePayloadKeyFromHeader(getKeySecret(keyring, keyId), header, keyring.kdf, STREAM_ALG_ID);
+      // Marker, separator and base64 of a full chunk plus its tag
+      const maxLineLength = 2 + Math.ceil((header.chunk + TAG_LENGTH) / 3) * 4;
+      stream = { headerLine: line, header, key, noncePrefix: Buffer.from(header.np, 'base64'), maxLineLength };
+      return Buffer.alloc(0);
+    }
+
+    if (finished) {
+      throw new MalformedEnvelopeError('Invalid encrypted stream. Data after the final chunk');
+    }
+    const marker = line.slice(0, 2);
+    if ((marker !== 'c.' && marker !== 'f.') || line.length > stream.maxLineLength) {
+      throw new MalformedEnvelopeError('Invalid encrypted stream. Expected a c.<data> or f.<data> chunk line');
+    }
+    const last = marker === 'f.';
+    const sealed = Buffer.from(line.slice(2), 'base64');
+    if (sealed.length < TAG_LENGTH || counter >= MAX_CHUNKS) {
+      throw new MalformedEnvelopeError('Invalid encrypted stream. Bad chunk length');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, stream.key, chunkNonce(stream.noncePrefix, counter, last), {
+      authTagLength: TAG_LENGTH,
+    });
+    decipher.setAAD(Buffer.from(stream.headerLine, 'utf8'));
+    decipher.setAuthTag(sealed.subarray(sealed.length - TAG_LENGTH));
+    let plaintext = decipher.update(sealed.subarray(0, sealed.length - TAG_LENGTH));
+    try {
+      plaintext = Buffer.concat([plaintext, decipher.final()]);
+    } catch (error) {
+      throw new AuthenticationFailedError({ cause: error });
+    }
+
+    // Claims are only trustworthy once a tag over the header has been verified
+    if (counter === 0 && options.expect) {
+      verifyClaims(stream.header.ctx, options.expect);
+    }
+    counter++;
+    finished = last;
+    return plaintext;
+  }
+
+  function openLines(controller: TransformStreamDefaultController<Uint8Array>, text: string) {
+    pending += text;
+    let start = 0;
+    let newline: number;
+    while ((newline = pending.indexOf('\n', start)) !== -1) {
+      const plaintext = openChunk(pending.slice(start, newline));
+      start = newline + 1;
+      if (plaintext.length > 0) {
+        controller.enqueue(new Uint8Array(plaintext));
+      }
+    }
+    pending = pending.slice(start);
+
+    const maxLineLength = stream?.maxLineLength ?? MAX_HEADER_LINE_LENGTH;
+    if (pending.length > maxLineLength) {
+      throw new MalformedEnvelopeError('Invalid encrypted stream. Line too long');
+    }
+  }
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      openLines(controller, decoder.decode(chunk, { stream: true }));
+    },
+
+    flush(controller) {
+      openLines(controller, decoder.decode());
+      if (pending) {
+        openLines(controller, '\n');
+      }
+      if (!finished) {
+        throw new TruncatedStreamError();
+      }
+    },
+  });
+}
@@ -0,0 +1,356 @@
+import { verifyClaims } from './claims';
+import {
+  DEFAULT_COMPRESSION_CONFIG,
+  isCompressionAlgorithm,
+  MAX_DECOMPRESSED_BYTES,
+  type CompressionAlgorithm,
+  type CompressionConfig,
+} from './compression-config';
+import { AuthenticationFailedError, MalformedEnvelopeError, MissingKeyError } from './decryption-errors';
+import { base64ToBytes, bytesToBase64, utf8Decode, utf8Encode } from './encoding';
+import type { DecryptOptions, EncryptOptions, SecretKey } from './encryption';
+import {
+  ALG_ID,
+  formatEnvelope,
+  formatEnvelopeHeader,
+  IV_LENGTH,
+  parseEnvelope,
+  TAG_LENGTH,
+  type EnvelopeHeader,
+  type EnvelopeV3,
+} from './envelope';
+import {
+  acceptHeaderScryptParams,
+  decodeRawKey,
+  DEFAULT_SCRYPT_PARAMS,
+  KEY_LENGTH,
+  LEGACY_SCRYPT_SALT,
+  resolveKdf,
+  SALT_LENGTH,
+  SCRYPT_MASTER_SALT,
+  validateScryptParams,
+  type KdfConfig,
+  type KdfName,
+  type ScryptParams,
+} from './kdf-config';
+import { getKeySecret, keyringFromSecret, type Keyring } from './keyring';
+import { scrypt } from './scrypt';
+
+// encrypt/decrypt from encryption.ts on Web Crypto (crypto.subtle), for the
+// edge runtime, where Node's crypto module and Buffer don't exist. Envelopes
+// are the same: each implementation decrypts what the other sealed. Key
+// derivation, compression and claims follow encryption.ts step for step, with
+// two runtime differences:
+//   - scrypt runs in JavaScript (scrypt.ts), so passphrase keys are slower
+//     to derive the first time; 32-byte base64 keys (HKDF) are not affected
+//   - there is no Brotli, so "br" compression is skipped when sealing and
+//     payloads compressed with it are refused
+
+type CompressionFormat = 'gzip' | 'deflate-raw';
+
+// Master keys by KDF and secret fingerprint. Pending derivations are shared,
+// so concurrent requests pay for scrypt once.
+const masterKeyCache = new Map<string, Promise<Uint8Array>>();
+
+// Casts for lib.dom's BufferSource, which rejects views over ArrayBufferLike
+function source(bytes: Uint8Array): BufferSource {
+  return bytes as BufferSource;
+}
+
+async function fingerprint(secret: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', source(utf8Encode(secret))));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function memoize(cacheKey: string, derive: () => Promise<Uint8Array>): Promise<Uint8Array> {
+  let key = masterKeyCache.get(cacheKey);
+  if (!key) {
+    key = derive();
+    masterKeyCache.set(cacheKey, key);
+    key.catch(() => masterKeyCache.delete(cacheKey));
+  }
+  return key;
+}
+
+async function deriveMasterKey(secret: string, kdf: KdfName, params: ScryptParams): Promise<Uint8Array> {
+  if (kdf === 'hkdf') {
+    const raw = decodeRawKey(secret);
+    if (!raw) {
+      throw new Error('HKDF requires a base64-encoded 32-byte key');
+    }
+    return raw;
+  }
+
+  validateScryptParams(params);
+  const { N, r, p } = params;
+
+  return memoize(`scrypt:${N}:${r}:${p}:${await fingerprint(secret)}`, () =>
+    scrypt(utf8Encode(secret), utf8Encode(SCRYPT_MASTER_SALT), KEY_LENGTH, params)
+  );
+}
+
+// Same key as kdf.ts derivePayloadKey, as a non-extractable AES-GCM key
+async function derivePayloadKey(secret: string, kdf: KdfName, salt: Uint8Array, params: ScryptParams): Promise<CryptoKey> {
+  const masterKey = await crypto.subtle.importKey('raw', source(await deriveMasterKey(secret, kdf, params)), 'HKDF', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: source(salt), info: source(utf8Encode(ALG_ID)) },
+    masterKey,
+    { name: 'AES-GCM', length: KEY_LENGTH * 8 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// Key derivation used by v1/v2 envelopes: scrypt with a fixed literal salt
+async function deriveLegacyKey(secret: string): Promise<CryptoKey> {
+  const raw = await memoize(`legacy:${await fingerprint(secret)}`, () =>
+    scrypt(utf8Encode(secret), utf8Encode(LEGACY_SCRYPT_SALT), KEY_LENGTH, DEFAULT_SCRYPT_PARAMS)
+  );
+  return crypto.subtle.importKey('raw', source(raw), 'AES-GCM', false, ['decrypt']);
+}
+
+// Drops every memoized master key (e.g. after removing a key from the keyring)
+export function clearKeyCache(): void {
+  masterKeyCache.clear();
+}
+
+function toKeyring(secretKey: SecretKey): Keyring {
+  return typeof secretKey === 'string' ? keyringFromSecret(secretKey) : secretKey;
+}
+
+function decodeSegment(base64: string, name: string): Uint8Array {
+  try {
+    return base64ToBytes(base64);
+  } catch (error) {
+    throw new MalformedEnvelopeError(`Invalid encrypted format. Bad base64 in the ${name}`, { cause: error });
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+// Runs bytes through a (de)compression stream, giving up past maxLength
+async function transformBytes(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxLength: number = Infinity
+): Promise<Uint8Array> {
+  const input = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(source(data));
+      controller.close();
+    },
+  });
+  const reader = input.pipeThrough(transform).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return concatBytes(chunks);
+    }
+    length += value.length;
+    if (length > maxLength) {
+      await reader.cancel();
+      throw new RangeError(`Output exceeds ${maxLength} bytes`);
+    }
+    chunks.push(value);
+  }
+}
+
+function compressionFormat(algorithm: Exclude<CompressionAlgorithm, 'br'>): CompressionFormat {
+  return algorithm === 'gzip' ? 'gzip' : 'deflate-raw';
+}
+
+// As compress() in compression.ts. Brotli isn't available here, so a "br"
+// config seals the plaintext uncompressed; both implementations read that.
+async function compress(
+  plaintext: Uint8Array,
+  config: CompressionConfig
+): Promise<{ data: Uint8Array; algorithm?: CompressionAlgorithm }> {
+  if (config.algorithm === 'none' || config.algorithm === 'br' || plaintext.length < config.threshold) {
+    return { data: plaintext };
+  }
+
+  const compressed = await transformBytes(plaintext, new CompressionStream(compressionFormat(config.algorithm)));
+  return compressed.length < plaintext.length ? { data: compressed, algorithm: config.algorithm } : { data: plaintext };
+}
+
+// Reverses compress(). Only call this on authenticated plaintext.
+async function decompress(data: Uint8Array, algorithm: string): Promise<Uint8Array> {
+  if (!isCompressionAlgorithm(algorithm)) {
+    throw new MalformedEnvelopeError(`Unsupported compression "${algorithm}"`);
+  }
+  if (algorithm === 'br') {
+    throw new MalformedEnvelopeError('Unsupported compression "br" on this runtime');
+  }
+
+  try {
+    return await transformBytes(data, new DecompressionStream(compressionFormat(algorithm)), MAX_DECOMPRESSED_BYTES);
+  } catch (error) {
+    throw new MalformedEnvelopeError(`Invalid encrypted format. Payload could not be decompressed with ${algorithm}`, { cause: error });
+  }
+}
+
+async function decryptWithKey(
+  key: CryptoKey,
+  ivBase64: string,
+  tagBase64: string,
+  encryptedBase64: string,
+  aad?: string
+): Promise<Uint8Array> {
+  const iv = decodeSegment(ivBase64, 'IV');
+  const tag = decodeSegment(tagBase64, 'authentication tag');
+  const encrypted = decodeSegment(encryptedBase64, 'ciphertext');
+
+  if (tag.length !== TAG_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Bad authentication tag length');
+  }
+
+  // Web Crypto expects the tag appended to the ciphertext and reports a bad
+  // one as a generic OperationError
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: source(iv),
+        tagLength: TAG_LENGTH * 8,
+        ...(aad !== undefined && { additionalData: source(utf8Encode(aad)) }),
+      },
+      key,
+      source(concatBytes([encrypted, tag]))
+    );
+    return new Uint8Array(plaintext);
+  } catch (error) {
+    throw new AuthenticationFailedError({ cause: error });
+  }
+}
+
+// As derivePayloadKeyFromHeader in encryption.ts, for the A256GCM envelope.
+// scrypt parameters must be ones the keyring is configured for, so a forged
+// header can't make the JavaScript scrypt run at any cost it names.
+async function derivePayloadKeyFromHeader(secret: string, header: EnvelopeHeader, kdfConfig: KdfConfig): Promise<CryptoKey> {
+  if (header.kdf !== 'scrypt' && header.kdf !== 'hkdf') {
+    throw new MalformedEnvelopeError(`Unsupported key derivation function "${header.kdf}"`);
+  }
+
+  const salt = decodeSegment(header.salt, 'salt');
+  if (salt.length !== SALT_LENGTH) {
+    throw new MalformedEnvelopeError('Invalid encrypted format. Bad salt length');
+  }
+
+  let params = DEFAULT_SCRYPT_PARAMS;
+  if (header.kdf === 'scrypt') {
+    try {
+      params = acceptHeaderScryptParams(header, kdfConfig);
+    } catch (error) {
+      throw new MalformedEnvelopeError(`Invalid encrypted format. ${(error as Error).message}`, { cause: error });
+    }
+  }
+  return derivePayloadKey(secret, header.kdf, salt, params);
+}
+
+async function decryptV3(envelope: EnvelopeV3, keyring: Keyring, options: DecryptOptions): Promise<string> {
+  const key = await derivePayloadKeyFromHeader(getKeySecret(keyring, envelope.keyId), envelope.header, keyring.kdf);
+  const plaintext = await decryptWithKey(key, envelope.iv, envelope.tag, envelope.data, envelope.aad);
+
+  // Claims and the compression marker are only trustworthy once the tag over
+  // the header has been verified
+  if (options.expect) {
+    verifyClaims(envelope.header.ctx, options.expect);
+  }
+  const zip = envelope.header.zip;
+  return utf8Decode(zip === undefined ? plaintext : await decompress(plaintext, zip));
+}
+
+// Encrypts like encryption.ts encrypt(), asynchronously
+// Format: v3.<kid>.<alg>.<hdr>.<iv>.<tag>.<data>
+export async function encrypt(text: string, secretKey: SecretKey, options: EncryptOptions = {}): Promise<string> {
+  const keyring = toKeyring(secretKey);
+  const secret = getKeySecret(keyring, keyring.activeKeyId);
+  const kdf = resolveKdf(secret, keyring.kdf.kdf);
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+
+  const header: EnvelopeHeader = kdf === 'scrypt'
+    ? { kdf, salt: bytesToBase64(salt), ...keyring.kdf.scrypt }
+    : { kdf, salt: bytesToBase64(salt) };
+  const key = await derivePayloadKey(secret, kdf, salt, keyring.kdf.scrypt);
+
+  const { data, algorithm } = await compress(utf8Encode(text), options.compression ?? DEFAULT_COMPRESSION_CONFIG);
+  if (algorithm) {
+    header.zip = algorithm;
+  }
+  if (options.claims) {
+    header.ctx = options.claims;
+  }
+  const aad = formatEnvelopeHeader(keyring.activeKeyId, ALG_ID, header);
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: source(iv), additionalData: source(utf8Encode(aad)), tagLength: TAG_LENGTH * 8 },
+      key,
+      source(data)
+    )
+  );
+
+  return formatEnvelope(aad, {
+    iv: bytesToBase64(iv),
+    tag: bytesToBase64(sealed.subarray(sealed.length - TAG_LENGTH)),
+    data: bytesToBase64(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+  });
+}
+
+// Decrypts like encryption.ts decrypt(), asynchronously: v3/v2 payloads by key
+// ID, legacy iv:tag:data payloads by trying each key from the active one. v4
+// payloads are Node-only: key providers read their KEKs from disk or a KMS SDK.
+export async function decrypt(encryptedText: string, secretKey: SecretKey, options: DecryptOptions = {}): Promise<string> {
+  const keyring = toKeyring(secretKey);
+  const envelope = parseEnvelope(encryptedText);
+
+  if (envelope.version === 'v4') {
+    throw new MissingKeyError(
+      'Payload is sealed with a wrapped data key, which only the Node.js runtime can unwrap; open it there with decryptWithDataKey'
+    );
+  }
+  if (envelope.version !== 'v3' && options.expect) {
+    verifyClaims(undefined, options.expect);
+  }
+
+  if (envelope.version !== 'v1' && envelope.alg !== ALG_ID) {
+    throw new MalformedEnvelopeError(`Unsupported encryption algorithm "${envelope.alg}"`);
+  }
+
+  if (envelope.version === 'v3') {
+    return decryptV3(envelope, keyring, options);
+  }
+
+  if (envelope.version === 'v2') {
+    const key = await deriveLegacyKey(getKeySecret(keyring, envelope.keyId));
+    return utf8Decode(await decryptWithKey(key, envelope.iv, envelope.tag, envelope.data));
+  }
+
+  const keyIds = [keyring.activeKeyId, ...[...keyring.keys.keys()].filter(id => id !== keyring.activeKeyId)];
+  let lastError: unknown;
+
+  for (const keyId of keyIds) {
+    try {
+      const key = await deriveLegacyKey(getKeySecret(keyring, keyId));
+      return utf8Decode(await decryptWithKey(key, envelope.iv, envelope.tag, envelope.data));
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,67 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  baselineSecurityHeaders,
+  buildContentSecurityPolicy,
+  corsHeaders,
+  createNonce,
+  isNoStorePath,
+  isOriginAllowed,
+  loadCorsConfig,
+} from "@/lib/security-headers";
+
+function applyHeaders(response: NextResponse, headers: Record<string, string>): NextResponse {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// API routes: CORS against the CORS_ALLOWED_ORIGINS allowlist, preflights,
+// and no-store on encrypted responses
+function handleApiRequest(request: NextRequest): NextResponse {
+  const config = loadCorsConfig();
+  const origin = request.headers.get("origin");
+  const allowed = isOriginAllowed(origin, config);
+  const isPreflight = request.method === "OPTIONS" && request.headers.has("access-control-request-method");
+
+  const response = isPreflight
+    ? new NextResponse(null, { status: allowed ? 204 : 403 })
+    : NextResponse.next();
+
+  if (allowed) {
+    applyHeaders(response, corsHeaders(origin, config, isPreflight));
+  }
+  response.headers.append("Vary", "Origin");
+
+  if (isNoStorePath(request.nextUrl.pathname)) {
+    response.headers.set("Cache-Control", "no-store");
+  }
+  return response;
+}
+
+// Pages: a fresh CSP nonce per request, passed to Next.js through the request headers
+function handlePageRequest(request: NextRequest, development: boolean): NextResponse {
+  const nonce = createNonce();
+  const csp = buildContentSecurityPolicy(nonce, { development });
+
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set("x-nonce", nonce);
+  requestHeaders.set("Content-Security-Policy", csp);
+
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set("Content-Security-Policy", csp);
+  return response;
+}
+
+export function middleware(request: NextRequest) {
+  const response = request.nextUrl.pathname.startsWith("/api/")
+    ? handleApiRequest(request)
+    : handlePageRequest(request, process.env.NODE_ENV === "development");
+
+  return applyHeaders(response, baselineSecurityHeaders({ production: process.env.NODE_ENV === "production" }));
+}
+
+// Everything except static assets, which need none of these headers
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};